@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuditLog, DEFAULT_AUDIT_LIMIT } from '@/lib/audit';
+import { hasRole, withAuth } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/audit?testId=...&actor=...&limit=...
+ * Audit trail of configuration changes, newest first. Settings, user and
+ * API key entries are only included for admins.
+ */
+export const GET = withAuth('viewer', async (request: NextRequest, context, user) => {
+  try {
+    const { searchParams } = request.nextUrl;
+    const limit = parseInt(searchParams.get('limit') || '', 10);
+
+    const entries = await getAuditLog({
+      testId: searchParams.get('testId') || undefined,
+      actor: searchParams.get('actor') || undefined,
+      testsOnly: !hasRole(user, 'admin'),
+      limit: Number.isFinite(limit) ? limit : DEFAULT_AUDIT_LIMIT,
+    });
+
+    return NextResponse.json(
+      { success: true, entries },
+      {
+        headers: {
+          'Cache-Control': 'no-store, no-cache, must-revalidate, max-age=0',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error fetching audit log:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch audit log' },
+      { status: 500 }
+    );
+  }
+});
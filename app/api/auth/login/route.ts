@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateUser, createSession, setSessionCookie, toPublicUser } from '@/lib/auth';
+
+/**
+ * POST /api/auth/login
+ * Check email and password and start a session cookie
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { email, password } = await request.json();
+
+    if (typeof email !== 'string' || typeof password !== 'string' || !email || !password) {
+      return NextResponse.json(
+        { error: 'Email and password are required' },
+        { status: 400 }
+      );
+    }
+
+    const user = await authenticateUser(email, password);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Invalid email or password' },
+        { status: 401 }
+      );
+    }
+
+    const token = await createSession(user.id);
+    const response = NextResponse.json({ success: true, user: toPublicUser(user) });
+    setSessionCookie(response, token);
+
+    return response;
+  } catch (error) {
+    console.error('Error signing in:', error);
+    return NextResponse.json(
+      { error: 'Failed to sign in' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE, clearSessionCookie, destroySession } from '@/lib/auth';
+
+/**
+ * POST /api/auth/logout
+ * End the current session and clear its cookie
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const token = request.cookies.get(SESSION_COOKIE)?.value;
+    if (token) {
+      await destroySession(token);
+    }
+
+    const response = NextResponse.json({ success: true });
+    clearSessionCookie(response);
+
+    return response;
+  } catch (error) {
+    console.error('Error signing out:', error);
+    return NextResponse.json(
+      { error: 'Failed to sign out' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/auth/me
+ * The signed-in user
+ */
+export const GET = withAuth('viewer', async (request, context, user) => {
+  return NextResponse.json({ user });
+});
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { getAllTests, getTestStats } from '@/lib/kv';
+import { loadConfig } from '@/lib/config';
+import { buildHoldoutReport } from '@/lib/holdout';
+import type { TestStats } from '@/types/Test';
+import { withAuth } from '@/lib/auth';
+
+// Force dynamic rendering - do not cache this route
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/holdout
+ * Holdout vs. exposed conversion across all tests (from cached stats)
+ */
+export const GET = withAuth('viewer', async () => {
+  try {
+    const config = await loadConfig();
+    const tests = await getAllTests();
+
+    const statsByTestId: Record<string, TestStats | null> = {};
+    for (const test of tests) {
+      statsByTestId[test.id] = await getTestStats(test.id);
+    }
+
+    const report = buildHoldoutReport(config.holdoutPercentage || 0, tests, statsByTestId);
+
+    return NextResponse.json(
+      { success: true, report },
+      {
+        headers: {
+          'Cache-Control': 'no-store, no-cache, must-revalidate, max-age=0',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error building holdout report:', error);
+    return NextResponse.json(
+      { error: 'Failed to build holdout report' },
+      { status: 500 }
+    );
+  }
+});
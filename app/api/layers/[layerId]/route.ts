@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAllTests, getLayer, deleteLayer } from '@/lib/kv';
+import { withAuth } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+
+/**
+ * DELETE /api/layers/[layerId]
+ * Delete a layer that no test references any more
+ */
+export const DELETE = withAuth('editor', async (
+  request: NextRequest,
+  { params }: { params: { layerId: string } },
+  user
+) => {
+  try {
+    const layer = await getLayer(params.layerId);
+    if (!layer) {
+      return NextResponse.json(
+        { error: 'Layer not found' },
+        { status: 404 }
+      );
+    }
+
+    // Archived tests still carry their slice, so they have to be moved out or deleted first
+    const tests = (await getAllTests()).filter(test => test.layer?.layerId === layer.id);
+    if (tests.length > 0) {
+      return NextResponse.json(
+        { error: `Layer is used by ${tests.map(test => test.name).join(', ')}` },
+        { status: 409 }
+      );
+    }
+
+    await deleteLayer(layer.id);
+
+    await recordAudit(request, user, { action: 'layer.delete', targetId: layer.id, before: layer });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting layer:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete layer' },
+      { status: 500 }
+    );
+  }
+});
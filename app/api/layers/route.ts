@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAllTests, getLayers, getLayer, saveLayer } from '@/lib/kv';
+import { summarizeLayer, validateLayer } from '@/lib/layers';
+import { slugify } from '@/lib/utils';
+import type { Layer } from '@/types/Test';
+import { withAuth } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+
+// Force dynamic rendering - capacity changes whenever tests change
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/layers
+ * List experiment layers with their allocated and remaining capacity
+ */
+export const GET = withAuth('viewer', async () => {
+  try {
+    const [layers, tests] = await Promise.all([getLayers(), getAllTests()]);
+
+    return NextResponse.json(
+      {
+        success: true,
+        layers: layers.map(layer => summarizeLayer(layer, tests)),
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-store, no-cache, must-revalidate, max-age=0',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error fetching layers:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch layers' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/layers
+ * Create an experiment layer
+ */
+export const POST = withAuth('editor', async (request: NextRequest, context, user) => {
+  try {
+    const data: { name?: string; description?: string } = await request.json();
+
+    const errors = validateLayer(data);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Validation failed', errors },
+        { status: 400 }
+      );
+    }
+
+    const layerId = slugify(data.name!);
+    if (await getLayer(layerId)) {
+      return NextResponse.json(
+        { error: 'A layer with this name already exists. Please choose a different name.' },
+        { status: 409 }
+      );
+    }
+
+    const layer: Layer = {
+      id: layerId,
+      name: data.name!.trim(),
+      description: data.description?.trim() || undefined,
+      createdAt: Date.now(),
+    };
+    await saveLayer(layer);
+
+    await recordAudit(request, user, { action: 'layer.create', targetId: layer.id, after: layer });
+
+    return NextResponse.json({ success: true, layer: summarizeLayer(layer, []) });
+  } catch (error) {
+    console.error('Error creating layer:', error);
+    return NextResponse.json(
+      { error: 'Failed to create layer' },
+      { status: 500 }
+    );
+  }
+});
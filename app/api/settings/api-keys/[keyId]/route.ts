@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getApiKey, saveApiKey } from '@/lib/kv';
+import { toPublicApiKey, withAuth } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+
+/**
+ * DELETE /api/settings/api-keys/[keyId]
+ * Revoke an API key; requests using it are rejected immediately
+ */
+export const DELETE = withAuth('admin', async (
+  request: NextRequest,
+  { params }: { params: { keyId: string } },
+  user
+) => {
+  try {
+    const apiKey = await getApiKey(params.keyId);
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: 'API key not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!apiKey.revokedAt) {
+      const revoked = { ...apiKey, revokedAt: Date.now() };
+      await saveApiKey(revoked);
+
+      await recordAudit(request, user, {
+        action: 'apikey.revoke',
+        targetId: apiKey.id,
+        before: toPublicApiKey(apiKey),
+        after: toPublicApiKey(revoked),
+      });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error revoking API key:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke API key' },
+      { status: 500 }
+    );
+  }
+}, { scope: false });
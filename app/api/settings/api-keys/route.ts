@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiKey, listApiKeys, toPublicApiKey, validateApiKeyInput, withAuth } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import type { ApiKeyScope } from '@/types/Test';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/settings/api-keys
+ * List API keys (hashes are never returned)
+ */
+export const GET = withAuth('admin', async () => {
+  try {
+    const apiKeys = await listApiKeys();
+
+    return NextResponse.json({ success: true, apiKeys: apiKeys.map(toPublicApiKey) });
+  } catch (error) {
+    console.error('Error fetching API keys:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch API keys' },
+      { status: 500 }
+    );
+  }
+}, { scope: false });
+
+/**
+ * POST /api/settings/api-keys
+ * Create an API key. The response is the only time the full key is shown.
+ */
+export const POST = withAuth('admin', async (request: NextRequest, context, user) => {
+  try {
+    const { name, scopes } = await request.json();
+
+    const errors = validateApiKeyInput({ name, scopes });
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Validation failed', errors },
+        { status: 400 }
+      );
+    }
+
+    const { apiKey, key } = await createApiKey(name, scopes as ApiKeyScope[], user);
+
+    await recordAudit(request, user, { action: 'apikey.create', targetId: apiKey.id, after: toPublicApiKey(apiKey) });
+
+    return NextResponse.json({ success: true, apiKey: toPublicApiKey(apiKey), key });
+  } catch (error) {
+    console.error('Error creating API key:', error);
+    return NextResponse.json(
+      { error: 'Failed to create API key' },
+      { status: 500 }
+    );
+  }
+}, { scope: false });
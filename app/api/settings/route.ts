@@ -1,18 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { loadConfig, saveConfig, validateConfig, testGA4Connection, testCloudflareConnection } from '@/lib/config';
-import { env } from '@/lib/env';
+import { loadConfig, saveConfig, validateConfig, testGA4Connection, testCloudflareConnection, rotateConfigEncryption } from '@/lib/config';
+import { isEncryptionConfigured } from '@/lib/crypto';
 import type { AppConfig } from '@/lib/config';
+import { withAuth } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
 
 /**
  * GET /api/settings
  * Returns current configuration (with masked credentials)
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth('admin', async () => {
   try {
-    // Check password protection
-    const authResult = checkAuth(request);
-    if (authResult) return authResult;
-
     const config = await loadConfig();
 
     // Mask sensitive fields
@@ -27,28 +25,25 @@ export async function GET(request: NextRequest) {
       cfAccountId: config.cfAccountId,
       cfNamespaceId: config.cfNamespaceId,
       cfApiToken: maskSecret(config.cfApiToken),
+      holdoutPercentage: config.holdoutPercentage || 0,
     };
 
-    return NextResponse.json({ config: masked });
+    return NextResponse.json({ config: masked, encrypted: isEncryptionConfigured() });
   } catch (error) {
     console.error('Error loading settings:', error);
     return NextResponse.json(
-      { error: 'Failed to load settings' },
+      { error: error instanceof Error ? error.message : 'Failed to load settings' },
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * POST /api/settings
  * Updates configuration in KV storage
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth('admin', async (request: NextRequest, context, user) => {
   try {
-    // Check password protection
-    const authResult = checkAuth(request);
-    if (authResult) return authResult;
-
     const body = await request.json();
     const { config, action } = body;
 
@@ -70,6 +65,18 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(result);
     }
 
+    if (action === 'rotate-encryption-key') {
+      if (!isEncryptionConfigured()) {
+        return NextResponse.json(
+          { error: 'Set CONFIG_ENCRYPTION_KEY before rotating' },
+          { status: 400 }
+        );
+      }
+      const result = await rotateConfigEncryption();
+      await recordAudit(request, user, { action: 'settings.rotate_key', after: result });
+      return NextResponse.json({ success: true, ...result });
+    }
+
     if (action === 'test-cloudflare') {
       // Merge with existing config to get unmasked values
       const currentConfig = await loadConfig();
@@ -95,9 +102,12 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Save to KV
+    // Save to KV (settings that no longer decrypt can still be replaced)
+    const previousConfig = await loadConfig().catch(() => undefined);
     await saveConfig(config as AppConfig);
 
+    await recordAudit(request, user, { action: 'settings.save', before: previousConfig, after: config });
+
     return NextResponse.json({ 
       success: true,
       message: 'Configuration saved successfully' 
@@ -109,39 +119,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
-
-/**
- * Check password authentication
- */
-function checkAuth(request: NextRequest): NextResponse | null {
-  const settingsPassword = env.settingsPassword;
-  
-  // If no password is set, allow access
-  if (!settingsPassword) {
-    return null;
-  }
-
-  const authHeader = request.headers.get('authorization');
-  
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return NextResponse.json(
-      { error: 'Authentication required' },
-      { status: 401 }
-    );
-  }
-
-  const password = authHeader.substring(7); // Remove 'Bearer ' prefix
-  
-  if (password !== settingsPassword) {
-    return NextResponse.json(
-      { error: 'Invalid password' },
-      { status: 403 }
-    );
-  }
-
-  return null;
-}
+});
 
 /**
  * Mask sensitive string for display
@@ -1,12 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getTest } from '@/lib/kv';
-import { fetchGA4Stats } from '@/lib/ga4';
-import { saveTestStats, getTestStats } from '@/lib/kv';
+import { fetchGA4Counts } from '@/lib/ga4';
+import { recordSequentialSnapshot } from '@/lib/sync';
+import {
+  saveTestStats,
+  getTestStats,
+  saveSRMResult,
+  getSRMResult,
+  getStatsSnapshots,
+  saveTestTimeSeries,
+  getTestTimeSeries,
+  getEdgeCounts,
+  getGuardrailReport,
+} from '@/lib/kv';
+import { buildTestStats } from '@/lib/stats';
+import { analyzeBayesian } from '@/lib/bayesian';
+import { checkSampleRatio } from '@/lib/srm';
+import { analyzeSequential } from '@/lib/sequential';
+import { analyzeMultivariate } from '@/lib/multivariate';
+import { analyzeFunnel } from '@/lib/funnel';
+import type { Test, TestStats } from '@/types/Test';
+import { withAuth } from '@/lib/auth';
 
-export async function GET(
+export const GET = withAuth('viewer', async (
   request: NextRequest,
   { params }: { params: { testId: string } }
-) {
+) => {
   try {
     const testId = params.testId;
     const { searchParams } = new URL(request.url);
@@ -25,26 +44,42 @@ export async function GET(
     let stats;
     
     if (refresh) {
-      // Fetch fresh data from GA4
-      stats = await fetchGA4Stats(test);
-      // Cache the results
-      await saveTestStats(testId, stats);
+      // Fetch fresh data and cache the results
+      stats = await refreshStats(test);
     } else {
       // Try to get cached stats first
       stats = await getTestStats(testId);
       
       // If no cache or cache is old (>15 min), fetch fresh
       if (!stats || Date.now() - stats.lastUpdated > 15 * 60 * 1000) {
-        stats = await fetchGA4Stats(test);
-        await saveTestStats(testId, stats);
+        stats = await refreshStats(test);
       }
     }
 
+    // Posterior summaries are cheap enough to recompute on every request
+    const bayesian = analyzeBayesian(stats);
+    const srm = await getSRMResult(testId);
+    const sequential = test.analysisMode === 'sequential'
+      ? analyzeSequential(test, await getStatsSnapshots(testId))
+      : null;
+    const timeSeries = await getTestTimeSeries(testId);
+    const multivariate = analyzeMultivariate(test, stats);
+    const funnel = analyzeFunnel(test, stats);
+    // Guardrails are evaluated by the sync cron, so this is the latest stored report
+    const guardrails = test.guardrails?.length ? await getGuardrailReport(testId) : null;
+
     return NextResponse.json(
       {
         success: true,
         test,
         stats,
+        bayesian,
+        srm,
+        sequential,
+        timeSeries,
+        multivariate,
+        funnel,
+        guardrails,
       },
       {
         headers: {
@@ -55,9 +90,29 @@ export async function GET(
     );
   } catch (error) {
     console.error('Error fetching stats:', error);
+    // GA4 failures (missing access, unregistered metrics) are for the user to fix
     return NextResponse.json(
-      { error: 'Failed to fetch stats' },
+      { error: `Failed to fetch stats: ${error instanceof Error ? error.message : 'Unknown error'}` },
       { status: 500 }
     );
   }
+});
+
+/**
+ * Fetch fresh stats (from GA4 or the Worker's edge counters) and cache them
+ * together with the daily series, SRM check and sequential snapshot
+ */
+async function refreshStats(test: Test): Promise<TestStats> {
+  // Edge counters are running totals, so there is no daily breakdown
+  const { counts, daily } = test.countingMode === 'edge'
+    ? { counts: await getEdgeCounts(test), daily: [] }
+    : await fetchGA4Counts(test);
+
+  const stats = buildTestStats(test, counts, await recordSequentialSnapshot(test, counts));
+  await saveTestStats(test.id, stats);
+  if (daily.length > 0) {
+    await saveTestTimeSeries(test.id, daily);
+  }
+  await saveSRMResult(test.id, checkSampleRatio(test, stats));
+  return stats;
 }
@@ -1,16 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getTest, getTestStats } from '@/lib/kv';
-import { fetchGA4Stats } from '@/lib/ga4';
-import { saveTestStats } from '@/lib/kv';
+import { syncTest } from '@/lib/sync';
+import { withAuth } from '@/lib/auth';
+import { checkRateLimit, SYNC_RATE_LIMIT } from '@/lib/cron';
+import { recordAudit } from '@/lib/audit';
 
 /**
- * Sync GA4 stats to KV in a format the Worker can consume
+ * Sync one test's stats (GA4 or edge events) to KV in a format the Worker can consume
  * This endpoint should be called by a cron job every 15 minutes
+ * (authenticated with the CRON_SECRET bearer token)
  */
-export async function POST(
+export const POST = withAuth('editor', async (
   request: NextRequest,
-  { params }: { params: { testId: string } }
-) {
+  { params }: { params: { testId: string } },
+  user
+) => {
   try {
     const testId = params.testId;
 
@@ -31,73 +35,60 @@ export async function POST(
       });
     }
 
-    // Fetch fresh stats from GA4
-    const stats = await fetchGA4Stats(test);
-
-    // Save full stats for dashboard
-    await saveTestStats(testId, stats);
-
-    // Get KV store for Worker-specific keys
-    const { getKVStore } = await import('@/lib/kv');
-    const kv = getKVStore();
+    // Same per-caller budget as /api/sync, counted separately for each test
+    const rateLimit = await checkRateLimit(`sync:${user.id}:${testId}`, SYNC_RATE_LIMIT);
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Too many sync requests. Try again in ${rateLimit.retryAfter} seconds.`,
+        },
+        { status: 429, headers: { 'Retry-After': String(rateLimit.retryAfter) } }
+      );
+    }
 
-    // Save control stats
-    await kv.put(
-      `test:${testId}:views_control`,
-      stats.controlViews.toString()
-    );
-    await kv.put(
-      `test:${testId}:conversions_control`,
-      stats.controlConversions.toString()
-    );
+    await recordAudit(request, user, { action: 'sync.run', testId });
 
-    // Save variant stats
-    for (const variant of test.variants) {
-      const variantStats = stats.variantStats[variant.id];
-      if (variantStats) {
-        await kv.put(
-          `test:${testId}:views_${variant.id}`,
-          variantStats.views.toString()
-        );
-        await kv.put(
-          `test:${testId}:conversions_${variant.id}`,
-          variantStats.conversions.toString()
-        );
-      }
+    // Same sync as the cron, so edge-counted tests are counted from edge events
+    const result = await syncTest(testId);
+    if (!result.success) {
+      throw new Error(result.error || 'Unknown error');
     }
 
+    const variantIds = test.variants.map(v => v.id);
     return NextResponse.json({
       success: true,
       testId,
       syncedAt: Date.now(),
+      skipped: result.skipped,
       stats: {
         control: {
-          views: stats.controlViews,
-          conversions: stats.controlConversions,
+          views: result.views.control || 0,
+          conversions: result.conversions.control || 0,
         },
-        variants: Object.keys(stats.variantStats).map(variantId => ({
+        variants: variantIds.map(variantId => ({
           id: variantId,
-          views: stats.variantStats[variantId].views,
-          conversions: stats.variantStats[variantId].conversions,
+          views: result.views[variantId] || 0,
+          conversions: result.conversions[variantId] || 0,
         })),
       },
     });
   } catch (error) {
     console.error('Error syncing stats to KV:', error);
     return NextResponse.json(
-      { error: 'Failed to sync stats' },
+      { error: `Failed to sync stats: ${error instanceof Error ? error.message : 'Unknown error'}` },
       { status: 500 }
     );
   }
-}
+}, { allowCron: true, scope: 'sync:run' });
 
 /**
  * GET: Check sync status
  */
-export async function GET(
+export const GET = withAuth('viewer', async (
   request: NextRequest,
   { params }: { params: { testId: string } }
-) {
+) => {
   try {
     const testId = params.testId;
     const { getKVStore } = await import('@/lib/kv');
@@ -149,4 +140,4 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
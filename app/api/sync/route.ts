@@ -1,25 +1,41 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { syncAllTests } from '@/lib/sync';
+import { withAuth } from '@/lib/auth';
+import { checkRateLimit, SYNC_RATE_LIMIT } from '@/lib/cron';
+import { recordAudit } from '@/lib/audit';
+import type { User } from '@/types/Test';
 
 /**
  * GET/POST /api/sync
  * Sync all tests from GA4 to KV
  * 
  * This endpoint is called by Vercel Cron every 15 minutes
- * It automatically syncs all tests registered in KV
+ * It automatically syncs all tests registered in KV and applies
+ * scheduled start/end transitions. Requires CRON_SECRET credentials
+ * (see lib/cron.ts), an admin session for manual syncs from the dashboard,
+ * or an API key with the sync:run scope. Each caller is rate limited.
  */
-export async function GET(request: NextRequest) {
-  return handleSync();
-}
+export const GET = withAuth('admin', (request, context, user) => handleSync(request, user), { allowCron: true, scope: 'sync:run' });
 
-export async function POST(request: NextRequest) {
-  return handleSync();
-}
+export const POST = withAuth('admin', (request, context, user) => handleSync(request, user), { allowCron: true, scope: 'sync:run' });
 
-async function handleSync() {
+async function handleSync(request: NextRequest, user: User) {
   const startTime = Date.now();
   
   try {
+    const rateLimit = await checkRateLimit(`sync:${user.id}`, SYNC_RATE_LIMIT);
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Too many sync requests. Try again in ${rateLimit.retryAfter} seconds.`,
+        },
+        { status: 429, headers: { 'Retry-After': String(rateLimit.retryAfter) } }
+      );
+    }
+
+    await recordAudit(request, user, { action: 'sync.run' });
+
     console.log('🔄 Starting sync for all tests...');
     
     const summary = await syncAllTests();
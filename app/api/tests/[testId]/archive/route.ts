@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { transitionTestById } from '@/lib/tests';
+import { withAuth } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+
+/**
+ * POST /api/tests/[testId]/archive
+ * Archive a test (everyone is sent to control and syncing stops)
+ */
+export const POST = withAuth('editor', async (
+  request: NextRequest,
+  { params }: { params: { testId: string } },
+  user
+) => {
+  try {
+    const result = await transitionTestById(params.testId, 'archive');
+
+    if (result.notFound) {
+      return NextResponse.json(
+        { error: 'Test not found' },
+        { status: 404 }
+      );
+    }
+
+    if (result.errors) {
+      return NextResponse.json(
+        { error: 'Invalid status transition', errors: result.errors },
+        { status: 409 }
+      );
+    }
+
+    await recordAudit(request, user, {
+      action: 'test.archive',
+      testId: params.testId,
+      before: result.previous,
+      after: result.test,
+    });
+
+    return NextResponse.json({
+      success: true,
+      test: result.test,
+    });
+  } catch (error) {
+    console.error('Error trying to archive test:', error);
+    return NextResponse.json(
+      { error: 'Failed to archive test' },
+      { status: 500 }
+    );
+  }
+});
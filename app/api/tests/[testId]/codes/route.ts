@@ -2,15 +2,16 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getTest } from '@/lib/kv';
 import { generateWorkerCode } from '@/lib/cloudflare';
 import { generateTrackingSnippet, generateSetupInstructions } from '@/lib/tests';
+import { withAuth } from '@/lib/auth';
 
 /**
  * GET /api/tests/[testId]/codes
  * Regenerate worker code, tracking snippet, and setup instructions
  */
-export async function GET(
+export const GET = withAuth('viewer', async (
   request: NextRequest,
   { params }: { params: { testId: string } }
-) {
+) => {
   try {
     const test = await getTest(params.testId);
     
@@ -40,4 +41,4 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
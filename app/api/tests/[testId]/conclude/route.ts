@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { transitionTestById } from '@/lib/tests';
+import { withAuth } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+
+/**
+ * POST /api/tests/[testId]/conclude
+ * Conclude a test and send all traffic to the declared winner
+ * Body: { "winner": "variant1" } (defaults to control)
+ */
+export const POST = withAuth('editor', async (
+  request: NextRequest,
+  { params }: { params: { testId: string } },
+  user
+) => {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const result = await transitionTestById(params.testId, 'conclude', {
+      winner: typeof body.winner === 'string' ? body.winner : undefined,
+    });
+
+    if (result.notFound) {
+      return NextResponse.json(
+        { error: 'Test not found' },
+        { status: 404 }
+      );
+    }
+
+    if (result.errors) {
+      return NextResponse.json(
+        { error: 'Invalid status transition', errors: result.errors },
+        { status: 409 }
+      );
+    }
+
+    await recordAudit(request, user, {
+      action: 'test.conclude',
+      testId: params.testId,
+      before: result.previous,
+      after: result.test,
+    });
+
+    return NextResponse.json({
+      success: true,
+      test: result.test,
+    });
+  } catch (error) {
+    console.error('Error trying to conclude test:', error);
+    return NextResponse.json(
+      { error: 'Failed to conclude test' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTest, saveDeploymentStatus, getDeploymentStatus } from '@/lib/kv';
+import { loadConfig } from '@/lib/config';
+import { deployWorker, validateDeployment } from '@/lib/deploy';
+import { withAuth } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+
+/**
+ * POST /api/tests/[testId]/deploy
+ * Upload the Worker, bind AB_TESTS and create the zone route via the Cloudflare API
+ */
+export const POST = withAuth('editor', async (
+  request: NextRequest,
+  { params }: { params: { testId: string } },
+  user
+) => {
+  try {
+    const test = await getTest(params.testId);
+    if (!test) {
+      return NextResponse.json(
+        { error: 'Test not found' },
+        { status: 404 }
+      );
+    }
+
+    const config = await loadConfig();
+    const errors = validateDeployment(test, config);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Deployment is not configured', errors },
+        { status: 400 }
+      );
+    }
+
+    const deployment = await deployWorker(test, config);
+    await saveDeploymentStatus(deployment);
+
+    await recordAudit(request, user, {
+      action: 'test.deploy',
+      testId: test.id,
+      after: deployment,
+    });
+
+    return NextResponse.json(
+      { success: deployment.state === 'deployed', deployment },
+      { status: deployment.state === 'deployed' ? 200 : 502 }
+    );
+  } catch (error) {
+    console.error('Error deploying worker:', error);
+    return NextResponse.json(
+      { error: 'Failed to deploy worker' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * GET /api/tests/[testId]/deploy
+ * Last deployment attempt for a test
+ */
+export const GET = withAuth('viewer', async (
+  request: NextRequest,
+  { params }: { params: { testId: string } }
+) => {
+  try {
+    const deployment = await getDeploymentStatus(params.testId);
+
+    return NextResponse.json({ deployment });
+  } catch (error) {
+    console.error('Error loading deployment status:', error);
+    return NextResponse.json(
+      { error: 'Failed to load deployment status' },
+      { status: 500 }
+    );
+  }
+});
@@ -1,15 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getTest, deleteTest } from '@/lib/kv';
 import { removeTestFromList } from '@/lib/sync';
+import { withAuth } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
 
 /**
  * GET /api/tests/[testId]
  * Get a single test configuration
  */
-export async function GET(
+export const GET = withAuth('viewer', async (
   request: NextRequest,
   { params }: { params: { testId: string } }
-) {
+) => {
   try {
     const test = await getTest(params.testId);
     
@@ -36,21 +38,31 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * DELETE /api/tests/[testId]
  * Delete a test
  */
-export async function DELETE(
+export const DELETE = withAuth('editor', async (
   request: NextRequest,
-  { params }: { params: { testId: string } }
-) {
+  { params }: { params: { testId: string } },
+  user
+) => {
   try {
+    // Keep the final configuration in the audit trail
+    const test = await getTest(params.testId);
+
     await deleteTest(params.testId);
     
     // Remove from sync list
     await removeTestFromList(params.testId);
+
+    await recordAudit(request, user, {
+      action: 'test.delete',
+      testId: params.testId,
+      before: test ?? undefined,
+    });
     
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -60,4 +72,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+});
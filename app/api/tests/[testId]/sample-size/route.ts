@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTest, getTestStats } from '@/lib/kv';
+import {
+  estimateSampleSize,
+  validateSampleSizeAllocation,
+  validateSampleSizeInput,
+  type SampleSizeInput,
+} from '@/lib/power';
+import { withAuth } from '@/lib/auth';
+
+/**
+ * GET /api/tests/[testId]/sample-size
+ * Estimate required views per arm and remaining test duration
+ *
+ * Query params: baseline (percent, defaults to observed control rate),
+ * mde (relative lift in percent), alpha, power
+ */
+export const GET = withAuth('viewer', async (
+  request: NextRequest,
+  { params }: { params: { testId: string } }
+) => {
+  try {
+    const test = await getTest(params.testId);
+
+    if (!test) {
+      return NextResponse.json(
+        { error: 'Test not found' },
+        { status: 404 }
+      );
+    }
+
+    const stats = await getTestStats(params.testId);
+    const { searchParams } = new URL(request.url);
+
+    const input: SampleSizeInput = {
+      baselineRate: parseNumber(searchParams.get('baseline')) ?? stats?.controlRate ?? NaN,
+      minimumDetectableEffect: parseNumber(searchParams.get('mde')) ?? NaN,
+      alpha: parseNumber(searchParams.get('alpha')),
+      power: parseNumber(searchParams.get('power')),
+    };
+
+    const errors = [...validateSampleSizeInput(input), ...validateSampleSizeAllocation(test)];
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Validation failed', errors },
+        { status: 400 }
+      );
+    }
+
+    const estimate = estimateSampleSize(test, input, stats);
+
+    return NextResponse.json({
+      testId: params.testId,
+      estimate,
+    });
+  } catch (error) {
+    console.error('Error estimating sample size:', error);
+    return NextResponse.json(
+      { error: 'Failed to estimate sample size' },
+      { status: 500 }
+    );
+  }
+});
+
+function parseNumber(value: string | null): number | undefined {
+  if (value === null || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
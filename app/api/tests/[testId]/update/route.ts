@@ -1,19 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getTest, saveTest } from '@/lib/kv';
-import { validateTestConfig } from '@/lib/tests';
+import { validateTestConfig, withBucketingSalt } from '@/lib/tests';
 import type { CreateTestRequest, Test } from '@/types/Test';
 import { loadConfig } from '@/lib/config';
+import { allocateLayerSlice } from '@/lib/layers';
+import { applyMultivariateArms } from '@/lib/multivariate';
+import { buildFunnelSteps } from '@/lib/funnel';
+import { buildGuardrails } from '@/lib/guardrails';
+import { withAuth } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
 
 /**
  * PUT /api/tests/[testId]/update
  * Update an existing test configuration
  */
-export async function PUT(
+export const PUT = withAuth('editor', async (
   request: NextRequest,
-  { params }: { params: { testId: string } }
-) {
+  { params }: { params: { testId: string } },
+  user
+) => {
   try {
-    const data: CreateTestRequest = await request.json();
+    // Multivariate tests get their control and variants from the factors
+    const data: CreateTestRequest = applyMultivariateArms(await request.json());
 
     // Validate input
     const errors = validateTestConfig(data);
@@ -33,6 +41,15 @@ export async function PUT(
       );
     }
 
+    // Keep the current slice if the layer share is unchanged, otherwise find a new one
+    const layer = data.layer ? await allocateLayerSlice(data.layer, existingTest) : null;
+    if (layer?.errors) {
+      return NextResponse.json(
+        { error: 'Validation failed', errors: layer.errors },
+        { status: 400 }
+      );
+    }
+
     // Load config to get GA4 settings
     const config = await loadConfig();
 
@@ -53,19 +70,42 @@ export async function PUT(
         id: `variant${i + 1}`,
         url: v.url,
         percentage: v.percentage,
+        combination: v.combination,
       })),
       controlPercentage: data.controlPercentage,
+      type: data.type || 'ab',
+      multivariate: data.type === 'multivariate' ? data.multivariate : undefined,
       ga4: {
         measurementId: config.gaMeasurementId,
         propertyId: config.gaPropertyId,
-        apiSecret: config.gaApiSecret,
       },
+      // Step events are named after the original ID, like the view and conversion events
+      funnelSteps: buildFunnelSteps(existingTest.id, data.funnelSteps),
+      revenue: data.revenue,
+      guardrails: buildGuardrails(existingTest.id, data.guardrails),
+      guardrailAutoPause: data.guardrailAutoPause || false,
       autoOptimize: data.autoOptimize || false,
+      analysisMode: data.analysisMode || 'fixed',
+      countingMode: data.countingMode || 'ga4',
+      deliveryMode: data.deliveryMode || 'redirect',
+      paramForwarding: data.paramForwarding || { mode: 'all' },
+      targeting: data.targeting || [],
+      bucketing: withBucketingSalt(data.bucketing, existingTest.bucketing),
+      layer: layer?.allocation,
+      startAt: data.startAt,
+      endAt: data.endAt,
     };
 
     // Save updated test
     await saveTest(updatedTest);
 
+    await recordAudit(request, user, {
+      action: 'test.update',
+      testId: existingTest.id,
+      before: existingTest,
+      after: updatedTest,
+    });
+
     return NextResponse.json({ 
       success: true, 
       test: updatedTest 
@@ -77,4 +117,4 @@ export async function PUT(
       { status: 500 }
     );
   }
-}
+});
@@ -1,14 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getTest } from '@/lib/kv';
+import { describeSampleRatio } from '@/lib/srm';
+import { withAuth } from '@/lib/auth';
 
 /**
  * GET /api/tests/[testId]/verify
  * Verify if the worker code and tracking snippet are properly installed
  */
-export async function GET(
+export const GET = withAuth('viewer', async (
   request: NextRequest,
   { params }: { params: { testId: string } }
-) {
+) => {
   try {
     const test = await getTest(params.testId);
     
@@ -26,6 +28,8 @@ export async function GET(
       trackingMessage: '',
       recentActivity: false,
       activityMessage: '',
+      sampleRatioMismatch: false,
+      sampleRatioMessage: '',
     };
 
     // Check 1: Try to fetch the entry URL and see if we get a bucket cookie
@@ -52,14 +56,15 @@ export async function GET(
       checks.workerMessage = `Could not reach entry URL: ${error instanceof Error ? error.message : 'Unknown error'}`;
     }
 
-    // Check 2: Look for recent GA4 events (if we have stats)
+    // Check 2: Look for recent events (if we have stats)
+    const source = test.countingMode === 'edge' ? 'Edge' : 'GA4';
     try {
       const statsResponse = await fetch(
         new URL(`/api/stats/${params.testId}`, request.url).toString()
       );
       
       if (statsResponse.ok) {
-        const { stats } = await statsResponse.json();
+        const { stats, srm } = await statsResponse.json();
         const totalViews = stats.controlViews + Object.values(stats.variantStats).reduce(
           (sum: number, v: any) => sum + v.views,
           0
@@ -71,23 +76,33 @@ export async function GET(
           
           // If we have views, tracking is likely installed
           checks.trackingInstalled = true;
-          checks.trackingMessage = 'GA4 events are being received';
+          checks.trackingMessage = `${source} events are being received`;
         } else {
           checks.recentActivity = false;
           checks.activityMessage = 'No views recorded yet';
           checks.trackingInstalled = false;
-          checks.trackingMessage = 'No GA4 events detected. Make sure the tracking snippet is installed on your conversion page.';
+          checks.trackingMessage = `No ${source} events detected. Make sure the tracking snippet is installed on your conversion page.`;
+        }
+
+        // A broken traffic split usually points at redirect or tracking bugs
+        if (srm) {
+          checks.sampleRatioMismatch = srm.mismatch;
+          checks.sampleRatioMessage = describeSampleRatio(srm);
+        } else {
+          checks.sampleRatioMessage = test.autoOptimize
+            ? 'Not applicable: Thompson Sampling allocates traffic dynamically'
+            : 'Not enough views yet to check the traffic split';
         }
       }
     } catch (error) {
-      checks.trackingMessage = 'Could not check GA4 data';
+      checks.trackingMessage = `Could not check ${source} data`;
       checks.activityMessage = 'Could not verify activity';
     }
 
     return NextResponse.json({
       testId: params.testId,
       checks,
-      overall: checks.workerInstalled && checks.trackingInstalled,
+      overall: checks.workerInstalled && checks.trackingInstalled && !checks.sampleRatioMismatch,
     });
   } catch (error) {
     console.error('Error verifying installation:', error);
@@ -96,4 +111,4 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
@@ -3,12 +3,17 @@ import { validateTestConfig, createTestConfig, generateTrackingSnippet, generate
 import { generateWorkerCode } from '@/lib/cloudflare';
 import { saveTest, getTest } from '@/lib/kv';
 import { addTestToList } from '@/lib/sync';
+import { allocateLayerSlice } from '@/lib/layers';
+import { applyMultivariateArms } from '@/lib/multivariate';
 import { slugify } from '@/lib/utils';
 import type { CreateTestRequest, CreateTestResponse } from '@/types/Test';
+import { withAuth } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth('editor', async (request: NextRequest, context, user) => {
   try {
-    const data: CreateTestRequest = await request.json();
+    // Multivariate tests get their control and variants from the factors
+    const data: CreateTestRequest = applyMultivariateArms(await request.json());
 
     // Validate input
     const errors = validateTestConfig(data);
@@ -29,8 +34,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Reserve a slice of the layer before anything is saved
+    const layer = data.layer ? await allocateLayerSlice(data.layer) : null;
+    if (layer?.errors) {
+      return NextResponse.json(
+        { error: 'Validation failed', errors: layer.errors },
+        { status: 400 }
+      );
+    }
+
     // Create test configuration
     const test = await createTestConfig(data);
+    test.layer = layer?.allocation;
 
     // Generate Worker code
     const workerCode = generateWorkerCode(test);
@@ -48,6 +63,8 @@ export async function POST(request: NextRequest) {
     // Add to sync list
     await addTestToList(test.id);
 
+    await recordAudit(request, user, { action: 'test.create', testId: test.id, after: test });
+
     const response: CreateTestResponse = {
       success: true,
       testId: test.id,
@@ -66,4 +83,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
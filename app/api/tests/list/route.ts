@@ -1,11 +1,12 @@
 import { NextResponse } from 'next/server';
 import { getAllTests } from '@/lib/kv';
+import { withAuth } from '@/lib/auth';
 
 // Force dynamic rendering - do not cache this route
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
 
-export async function GET() {
+export const GET = withAuth('viewer', async () => {
   try {
     const tests = await getAllTests();
 
@@ -29,4 +30,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
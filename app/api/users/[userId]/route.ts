@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUsers, getUser, saveUser, deleteUser } from '@/lib/kv';
+import { hashPassword, toPublicUser, validateUserInput, withAuth } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import type { UserRole } from '@/types/Test';
+
+/**
+ * Whether removing admin rights from this user would leave no admins
+ */
+async function isLastAdmin(userId: string): Promise<boolean> {
+  const admins = (await getUsers()).filter(user => user.role === 'admin');
+  return admins.length === 1 && admins[0].id === userId;
+}
+
+/**
+ * PATCH /api/users/[userId]
+ * Change a user's role or reset their password
+ */
+export const PATCH = withAuth('admin', async (
+  request: NextRequest,
+  { params }: { params: { userId: string } },
+  currentUser
+) => {
+  try {
+    const user = await getUser(params.userId);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    const { role, password } = await request.json();
+
+    const errors = validateUserInput({ role, password }, { requirePassword: false });
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Validation failed', errors },
+        { status: 400 }
+      );
+    }
+
+    if (role && role !== 'admin' && user.role === 'admin' && await isLastAdmin(user.id)) {
+      return NextResponse.json(
+        { error: 'There must be at least one admin' },
+        { status: 409 }
+      );
+    }
+
+    // Password hashes stay out of the audit log, so a reset shows up as the action alone
+    const before = toPublicUser(user);
+    if (role) user.role = role as UserRole;
+    if (password) user.passwordHash = hashPassword(password);
+    await saveUser(user);
+
+    await recordAudit(request, currentUser, {
+      action: 'user.update',
+      targetId: user.id,
+      before,
+      after: toPublicUser(user),
+    });
+
+    return NextResponse.json({ success: true, user: toPublicUser(user) });
+  } catch (error) {
+    console.error('Error updating user:', error);
+    return NextResponse.json(
+      { error: 'Failed to update user' },
+      { status: 500 }
+    );
+  }
+}, { scope: false });
+
+/**
+ * DELETE /api/users/[userId]
+ * Delete a user account; their sessions stop working immediately
+ */
+export const DELETE = withAuth('admin', async (
+  request: NextRequest,
+  { params }: { params: { userId: string } },
+  currentUser
+) => {
+  try {
+    if (params.userId === currentUser.id) {
+      return NextResponse.json(
+        { error: 'You cannot delete your own account' },
+        { status: 409 }
+      );
+    }
+
+    const user = await getUser(params.userId);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    if (user.role === 'admin' && await isLastAdmin(user.id)) {
+      return NextResponse.json(
+        { error: 'There must be at least one admin' },
+        { status: 409 }
+      );
+    }
+
+    await deleteUser(user.id);
+
+    await recordAudit(request, currentUser, { action: 'user.delete', targetId: user.id, before: toPublicUser(user) });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting user:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete user' },
+      { status: 500 }
+    );
+  }
+}, { scope: false });
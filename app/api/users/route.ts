@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUsers } from '@/lib/kv';
+import { createUser, findUserByEmail, toPublicUser, validateUserInput, withAuth } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import type { UserRole } from '@/types/Test';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/users
+ * List user accounts
+ */
+export const GET = withAuth('admin', async () => {
+  try {
+    const users = await getUsers();
+
+    return NextResponse.json({
+      success: true,
+      users: users.map(toPublicUser).sort((a, b) => a.createdAt - b.createdAt),
+    });
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch users' },
+      { status: 500 }
+    );
+  }
+}, { scope: false });
+
+/**
+ * POST /api/users
+ * Create a user account
+ */
+export const POST = withAuth('admin', async (request: NextRequest, context, currentUser) => {
+  try {
+    const { email, password, role } = await request.json();
+
+    const errors = validateUserInput({ email: email || '', password, role: role || '' });
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Validation failed', errors },
+        { status: 400 }
+      );
+    }
+
+    if (await findUserByEmail(email)) {
+      return NextResponse.json(
+        { error: 'A user with this email already exists' },
+        { status: 409 }
+      );
+    }
+
+    const user = await createUser(email, password, role as UserRole);
+
+    await recordAudit(request, currentUser, { action: 'user.create', targetId: user.id, after: toPublicUser(user) });
+
+    return NextResponse.json({ success: true, user: toPublicUser(user) });
+  } catch (error) {
+    console.error('Error creating user:', error);
+    return NextResponse.json(
+      { error: 'Failed to create user' },
+      { status: 500 }
+    );
+  }
+}, { scope: false });
@@ -0,0 +1,155 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { StatCard } from '@/components/StatCard';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft, RefreshCw } from 'lucide-react';
+import { formatNumber, formatPercentage, formatRelativeTime } from '@/lib/utils';
+import type { HoldoutReport } from '@/types/Test';
+
+export default function HoldoutReportPage() {
+  const router = useRouter();
+  const [report, setReport] = useState<HoldoutReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReport = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/holdout?t=${Date.now()}`, { cache: 'no-store' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load holdout report');
+      }
+
+      setReport(data.report);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchReport();
+  }, []);
+
+  if (loading && !report) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <LoadingSpinner size="lg" text="Loading holdout report..." />
+      </div>
+    );
+  }
+
+  if (error || !report) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-2xl font-bold mb-4">Error Loading Holdout Report</h2>
+        <p className="text-muted-foreground mb-6">{error}</p>
+        <Button onClick={() => router.push('/')}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Home
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <Button variant="ghost" size="sm" onClick={() => router.push('/')} className="mb-2">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+          <h1 className="text-3xl font-bold">Global Holdout</h1>
+          <p className="text-muted-foreground mt-1">
+            {report.percentage > 0
+              ? `${report.percentage}% of visitors are kept out of every test and always see control`
+              : 'The holdout is disabled. Set a holdout percentage in Settings to start measuring.'}
+          </p>
+          <p className="text-xs text-muted-foreground mt-2">
+            Based on each test&apos;s cached stats · generated {formatRelativeTime(report.generatedAt)}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={fetchReport} disabled={loading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+          <Link href="/settings">
+            <Button variant="outline">Settings</Button>
+          </Link>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <StatCard
+          title="Holdout Conversion Rate"
+          value={formatPercentage(report.holdout.rate)}
+          subtitle={`${formatNumber(report.holdout.conversions)} / ${formatNumber(report.holdout.views)} views`}
+        />
+        <StatCard
+          title="Exposed Conversion Rate"
+          value={formatPercentage(report.exposed.rate)}
+          subtitle={`${formatNumber(report.exposed.conversions)} / ${formatNumber(report.exposed.views)} views`}
+        />
+        <StatCard
+          title="Program Lift"
+          value={formatPercentage(report.lift, 1)}
+          subtitle={report.holdout.views > 0 ? `p = ${report.pValue.toFixed(4)}` : 'No holdout traffic yet'}
+          trend={report.lift > 0 ? 'up' : report.lift < 0 ? 'down' : 'neutral'}
+          variant={report.significant ? (report.lift > 0 ? 'success' : 'destructive') : 'default'}
+        />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>By Test</CardTitle>
+          <CardDescription>
+            Exposed includes every enrolled visitor, control arm included. Rates are pooled across tests, so busy tests weigh more.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {report.tests.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No test stats cached yet</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-4 font-medium">Test</th>
+                    <th className="py-2 pr-4 font-medium text-right">Holdout views</th>
+                    <th className="py-2 pr-4 font-medium text-right">Holdout rate</th>
+                    <th className="py-2 pr-4 font-medium text-right">Exposed views</th>
+                    <th className="py-2 font-medium text-right">Exposed rate</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.tests.map((row) => (
+                    <tr key={row.id} className="border-b last:border-0">
+                      <td className="py-2 pr-4">
+                        <Link href={`/tests/${row.id}`} className="hover:underline">{row.name}</Link>
+                      </td>
+                      <td className="py-2 pr-4 text-right">{formatNumber(row.holdout.views)}</td>
+                      <td className="py-2 pr-4 text-right">{formatPercentage(row.holdout.rate)}</td>
+                      <td className="py-2 pr-4 text-right">{formatNumber(row.exposed.views)}</td>
+                      <td className="py-2 text-right">{formatPercentage(row.exposed.rate)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import type { Metadata } from 'next';
 import { Inter } from 'next/font/google';
+import { UserMenu } from '@/components/UserMenu';
 import './globals.css';
 
 const inter = Inter({ subsets: ['latin'] });
@@ -19,11 +20,14 @@ export default function RootLayout({
       <body className={inter.className}>
         <div className="min-h-screen flex flex-col">
           <header className="border-b">
-            <div className="container mx-auto px-4 py-4">
-              <h1 className="text-2xl font-bold">EdgeSplit</h1>
-              <p className="text-sm text-muted-foreground">
-                Server-Side A/B Testing Generator
-              </p>
+            <div className="container mx-auto px-4 py-4 flex items-center justify-between gap-4">
+              <div>
+                <h1 className="text-2xl font-bold">EdgeSplit</h1>
+                <p className="text-sm text-muted-foreground">
+                  Server-Side A/B Testing Generator
+                </p>
+              </div>
+              <UserMenu />
             </div>
           </header>
           <main className="flex-1 container mx-auto px-4 py-8">
@@ -0,0 +1,20 @@
+'use client';
+
+import { useEffect } from 'react';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+
+export default function LogoutPage() {
+  useEffect(() => {
+    fetch('/api/auth/logout', { method: 'POST' })
+      .catch((err) => console.error('Error signing out:', err))
+      .finally(() => {
+        window.location.href = '/login';
+      });
+  }, []);
+
+  return (
+    <div className="flex items-center justify-center h-64">
+      <LoadingSpinner size="lg" text="Signing out..." />
+    </div>
+  );
+}
@@ -6,8 +6,12 @@ import Link from 'next/link';
 import { TestForm } from '@/components/TestForm';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { FileCode, Copy, CheckCircle, Settings, ExternalLink, Calendar, Edit, RefreshCw } from 'lucide-react';
+import { FileCode, Copy, CheckCircle, Settings, ExternalLink, Calendar, Edit, RefreshCw, ShieldOff, DownloadCloud, Loader2 } from 'lucide-react';
 import { Textarea } from '@/components/ui/textarea';
+import { StatusBadge } from '@/components/StatusBadge';
+import { LayerManager } from '@/components/LayerManager';
+import { getTestStatus, TEST_STATUSES } from '@/lib/lifecycle';
+import type { TestStatus } from '@/types/Test';
 
 export default function HomePage() {
   const router = useRouter();
@@ -17,6 +21,9 @@ export default function HomePage() {
   const [copiedSnippet, setCopiedSnippet] = useState(false);
   const [existingTests, setExistingTests] = useState<any[]>([]);
   const [loadingTests, setLoadingTests] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<TestStatus | 'all'>('all');
+  const [syncing, setSyncing] = useState(false);
+  const [syncMessage, setSyncMessage] = useState<{ success: boolean; text: string } | null>(null);
 
   useEffect(() => {
     loadExistingTests();
@@ -59,6 +66,30 @@ export default function HomePage() {
     }
   };
 
+  // Same sync the cron runs; admins only, and rate limited per user
+  const syncAllTests = async () => {
+    setSyncing(true);
+    setSyncMessage(null);
+    try {
+      const response = await fetch('/api/sync', { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Sync failed');
+      }
+
+      setSyncMessage({
+        success: data.summary.failed === 0,
+        text: `Synced ${data.summary.successful} of ${data.summary.total} tests from GA4`,
+      });
+      await loadExistingTests();
+    } catch (error) {
+      setSyncMessage({ success: false, text: error instanceof Error ? error.message : 'Sync failed' });
+    } finally {
+      setSyncing(false);
+    }
+  };
+
   const handleTestCreated = async (testId: string, fullResponse?: any) => {
     console.log('Test created with ID:', testId, fullResponse);
     
@@ -94,6 +125,10 @@ export default function HomePage() {
     }
   };
 
+  const filteredTests = statusFilter === 'all'
+    ? existingTests
+    : existingTests.filter((test) => getTestStatus(test) === statusFilter);
+
   if (showResults && testData) {
     return (
       <div className="space-y-6">
@@ -236,6 +271,26 @@ export default function HomePage() {
           >
             <RefreshCw className="w-4 h-4" />
           </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={syncAllTests}
+            disabled={syncing}
+            title="Pull the latest stats for every test from GA4"
+          >
+            {syncing ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <DownloadCloud className="w-4 h-4 mr-2" />
+            )}
+            Sync All
+          </Button>
+          <Link href="/holdout">
+            <Button variant="outline" size="sm">
+              <ShieldOff className="w-4 h-4 mr-2" />
+              Holdout
+            </Button>
+          </Link>
           <Link href="/settings">
             <Button variant="outline" size="sm">
               <Settings className="w-4 h-4 mr-2" />
@@ -245,6 +300,12 @@ export default function HomePage() {
         </div>
       </div>
 
+      {syncMessage && (
+        <p className={`text-sm ${syncMessage.success ? 'text-green-700' : 'text-destructive'}`}>
+          {syncMessage.text}
+        </p>
+      )}
+
       {/* Existing Tests */}
       {existingTests.length > 0 && (
         <Card>
@@ -253,16 +314,47 @@ export default function HomePage() {
             <CardDescription>
               {existingTests.length} test{existingTests.length !== 1 ? 's' : ''} configured
             </CardDescription>
+            <div className="flex flex-wrap gap-2 pt-2">
+              {(['all', ...TEST_STATUSES] as const).map((status) => (
+                <Button
+                  key={status}
+                  variant={statusFilter === status ? 'default' : 'outline'}
+                  size="sm"
+                  className="capitalize"
+                  onClick={() => setStatusFilter(status)}
+                >
+                  {status}
+                  <span className="ml-1 text-xs opacity-70">
+                    {status === 'all'
+                      ? existingTests.length
+                      : existingTests.filter((test) => getTestStatus(test) === status).length}
+                  </span>
+                </Button>
+              ))}
+            </div>
           </CardHeader>
           <CardContent>
             <div className="space-y-3">
-              {existingTests.map((test) => (
+              {filteredTests.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-4">
+                  No {statusFilter} tests
+                </p>
+              )}
+              {filteredTests.map((test) => (
                 <div
                   key={test.id}
                   className="flex items-center justify-between p-4 border rounded-lg hover:bg-accent/50 transition-colors"
                 >
                   <div className="flex-1">
-                    <h3 className="font-semibold">{test.name}</h3>
+                    <div className="flex items-center gap-2">
+                      <h3 className="font-semibold">{test.name}</h3>
+                      <StatusBadge status={getTestStatus(test)} />
+                      {test.guardrailBreachedAt && (
+                        <span className="px-2 py-0.5 bg-red-100 text-red-700 text-xs rounded">
+                          Guardrail breached
+                        </span>
+                      )}
+                    </div>
                     <div className="flex items-center gap-4 mt-1 text-sm text-muted-foreground">
                       <span className="flex items-center gap-1">
                         <ExternalLink className="w-3 h-3" />
@@ -277,6 +369,11 @@ export default function HomePage() {
                           Auto-Optimize
                         </span>
                       )}
+                      {test.layer && (
+                        <span className="px-2 py-0.5 bg-purple-100 text-purple-700 text-xs rounded">
+                          Layer: {test.layer.layerId} ({test.layer.percentage}%)
+                        </span>
+                      )}
                     </div>
                   </div>
                   <div className="flex gap-2">
@@ -310,6 +407,8 @@ export default function HomePage() {
         </Card>
       )}
 
+      <LayerManager />
+
       {/* Create New Test */}
       <Card>
         <CardHeader>
@@ -6,7 +6,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
-import { CheckCircle2, AlertCircle, Lock, Loader2 } from 'lucide-react';
+import { ApiKeyManager } from '@/components/ApiKeyManager';
+import { CheckCircle2, AlertCircle, Lock, Loader2, ShieldCheck } from 'lucide-react';
 
 interface AppConfig {
   gaMeasurementId: string;
@@ -19,55 +20,58 @@ interface AppConfig {
   cfAccountId: string;
   cfNamespaceId: string;
   cfApiToken: string;
+  holdoutPercentage: number;
 }
 
 export default function SettingsPage() {
-  const [authenticated, setAuthenticated] = useState(false);
-  const [password, setPassword] = useState('');
-  const [authError, setAuthError] = useState('');
-  const [loading, setLoading] = useState(false);
+  const [loadError, setLoadError] = useState('');
+  const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [config, setConfig] = useState<AppConfig | null>(null);
+  const [encrypted, setEncrypted] = useState(false);
+  const [rotating, setRotating] = useState(false);
+  const [rotateResult, setRotateResult] = useState<{ success: boolean; message: string } | null>(null);
   const [editedConfig, setEditedConfig] = useState<AppConfig | null>(null);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
   const [ga4TestResult, setGa4TestResult] = useState<{ success: boolean; error?: string } | null>(null);
   const [cfTestResult, setCfTestResult] = useState<{ success: boolean; error?: string } | null>(null);
 
-  const loadConfig = async (pwd: string) => {
+  const loadConfig = async () => {
     setLoading(true);
-    setAuthError('');
+    setLoadError('');
     try {
-      const response = await fetch('/api/settings', {
-        headers: {
-          'Authorization': `Bearer ${pwd}`,
-        },
-      });
+      const response = await fetch('/api/settings');
 
-      if (response.status === 401 || response.status === 403) {
-        setAuthError('Invalid password');
+      if (response.status === 401) {
+        window.location.href = '/login?next=/settings';
+        return;
+      }
+
+      if (response.status === 403) {
+        setLoadError('Only admins can manage settings. Ask an admin to change your role.');
         return;
       }
 
       if (!response.ok) {
-        throw new Error('Failed to load settings');
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to load settings');
       }
 
       const data = await response.json();
       setConfig(data.config);
+      setEncrypted(data.encrypted);
       setEditedConfig(data.config);
-      setAuthenticated(true);
     } catch (err) {
-      setAuthError(err instanceof Error ? err.message : 'Failed to load settings');
+      setLoadError(err instanceof Error ? err.message : 'Failed to load settings');
     } finally {
       setLoading(false);
     }
   };
 
-  const handleAuth = async (e: React.FormEvent) => {
-    e.preventDefault();
-    await loadConfig(password);
-  };
+  useEffect(() => {
+    loadConfig();
+  }, []);
 
   const handleSave = async () => {
     if (!editedConfig) return;
@@ -81,7 +85,6 @@ export default function SettingsPage() {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${password}`,
         },
         body: JSON.stringify({ config: editedConfig }),
       });
@@ -109,7 +112,6 @@ export default function SettingsPage() {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${password}`,
         },
         body: JSON.stringify({ config: editedConfig, action: 'test-ga4' }),
       });
@@ -128,7 +130,6 @@ export default function SettingsPage() {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${password}`,
         },
         body: JSON.stringify({ config: editedConfig, action: 'test-cloudflare' }),
       });
@@ -139,47 +140,53 @@ export default function SettingsPage() {
     }
   };
 
-  if (!authenticated) {
+  const rotateEncryption = async () => {
+    setRotating(true);
+    setRotateResult(null);
+    try {
+      const response = await fetch('/api/settings', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action: 'rotate-encryption-key' }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to re-encrypt secrets');
+      }
+
+      setRotateResult({
+        success: true,
+        message: `Re-encrypted ${data.secretsRewrapped} secret${data.secretsRewrapped === 1 ? '' : 's'} and removed the GA4 API secret from ${data.testsCleaned} test${data.testsCleaned === 1 ? '' : 's'}.`,
+      });
+    } catch (err) {
+      setRotateResult({ success: false, message: err instanceof Error ? err.message : 'Failed to re-encrypt secrets' });
+    } finally {
+      setRotating(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (loadError) {
     return (
       <div className="container mx-auto p-6 max-w-md">
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <Lock className="w-5 h-5" />
-              Settings Password
+              Settings
             </CardTitle>
-            <CardDescription>
-              Enter your settings password to manage configuration
-            </CardDescription>
+            <CardDescription>{loadError}</CardDescription>
           </CardHeader>
-          <CardContent>
-            <form onSubmit={handleAuth} className="space-y-4">
-              <div>
-                <Label htmlFor="password">Password</Label>
-                <Input
-                  id="password"
-                  type="password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  placeholder="Enter settings password"
-                  required
-                />
-                {authError && (
-                  <p className="text-sm text-destructive mt-2">{authError}</p>
-                )}
-              </div>
-              <Button type="submit" className="w-full" disabled={loading}>
-                {loading ? (
-                  <>
-                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                    Authenticating...
-                  </>
-                ) : (
-                  'Unlock Settings'
-                )}
-              </Button>
-            </form>
-          </CardContent>
         </Card>
       </div>
     );
@@ -357,6 +364,35 @@ export default function SettingsPage() {
           </CardContent>
         </Card>
 
+        {/* Experimentation Program */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Global Holdout</CardTitle>
+            <CardDescription>
+              Keep a share of all visitors out of every test to measure the cumulative impact of the program
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <Label htmlFor="holdoutPercentage">Holdout percentage</Label>
+              <Input
+                id="holdoutPercentage"
+                type="number"
+                min="0"
+                max="100"
+                step="0.5"
+                value={editedConfig.holdoutPercentage}
+                onChange={(e) => setEditedConfig({ ...editedConfig, holdoutPercentage: Number(e.target.value) })}
+                className="w-32"
+              />
+              <p className="text-sm text-muted-foreground mt-1">
+                Held-out visitors always see control and are recorded in a <code>holdout</code> bucket.
+                Compare them with everyone else on the <a href="/holdout" className="underline">holdout report</a>. Use 0 to disable.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
         <div className="flex gap-4">
           <Button onClick={handleSave} disabled={saving} className="flex-1">
             {saving ? (
@@ -384,6 +420,37 @@ export default function SettingsPage() {
             No redeployment required. Environment variables serve as fallback if KV storage fails.
           </p>
         </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="w-5 h-5" />
+              Encryption at Rest
+            </CardTitle>
+            <CardDescription>
+              {encrypted
+                ? 'The GA4 API secret, private key and Cloudflare API token are encrypted in KV with CONFIG_ENCRYPTION_KEY.'
+                : 'CONFIG_ENCRYPTION_KEY is not set, so credentials are stored in KV as plaintext.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              After changing CONFIG_ENCRYPTION_KEY (with the old key in CONFIG_ENCRYPTION_PREVIOUS_KEYS), re-encrypt the stored
+              secrets so the old key can be removed. This also encrypts plaintext secrets saved before encryption was enabled.
+            </p>
+            <Button variant="outline" onClick={rotateEncryption} disabled={!encrypted || rotating}>
+              {rotating && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Re-encrypt Secrets
+            </Button>
+            {rotateResult && (
+              <p className={`text-sm ${rotateResult.success ? 'text-green-700' : 'text-destructive'}`}>
+                {rotateResult.message}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <ApiKeyManager />
       </div>
     </div>
   );
@@ -51,7 +51,7 @@ export default function EditTestPage() {
       const result = await response.json();
 
       if (!response.ok) {
-        throw new Error(result.error || 'Failed to update test');
+        throw new Error(result.errors?.join(', ') || result.error || 'Failed to update test');
       }
 
       // Redirect back to test detail page
@@ -96,6 +96,21 @@ export default function EditTestPage() {
       percentage: v.percentage,
     })),
     autoOptimize: test.autoOptimize,
+    analysisMode: test.analysisMode,
+    countingMode: test.countingMode,
+    deliveryMode: test.deliveryMode,
+    paramForwarding: test.paramForwarding,
+    targeting: test.targeting,
+    bucketing: test.bucketing,
+    type: test.type,
+    multivariate: test.multivariate,
+    funnelSteps: test.funnelSteps?.map(step => ({ name: step.name })),
+    revenue: test.revenue,
+    guardrails: test.guardrails?.map(({ name, harm, tolerance }) => ({ name, harm, tolerance })),
+    guardrailAutoPause: test.guardrailAutoPause,
+    layer: test.layer && { layerId: test.layer.layerId, percentage: test.layer.percentage },
+    startAt: test.startAt,
+    endAt: test.endAt,
   };
 
   return (
@@ -4,15 +4,32 @@ import { useEffect, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { StatCard } from '@/components/StatCard';
 import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { SampleSizePanel } from '@/components/SampleSizePanel';
+import { SequentialAnalysisCard } from '@/components/SequentialAnalysisCard';
+import { TimeSeriesChart } from '@/components/TimeSeriesChart';
+import { TestStatusControls } from '@/components/TestStatusControls';
+import { DeploymentCard } from '@/components/DeploymentCard';
+import { MultivariateAnalysisCard } from '@/components/MultivariateAnalysisCard';
+import { FunnelChart } from '@/components/FunnelChart';
+import { RevenueCard } from '@/components/RevenueCard';
+import { GuardrailCard } from '@/components/GuardrailCard';
+import { AuditHistory } from '@/components/AuditHistory';
+import { StatusBadge } from '@/components/StatusBadge';
+import { getTestStatus } from '@/lib/lifecycle';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Textarea } from '@/components/ui/textarea';
 import { 
   RefreshCw, ArrowLeft, TrendingUp, Eye, Target, 
-  Edit, Trash2, Code, Copy, CheckCircle, FileCode, AlertCircle, CheckCircle2
+  Edit, Trash2, Code, Copy, CheckCircle, FileCode, AlertCircle, CheckCircle2,
+  BarChart3, History
 } from 'lucide-react';
 import { formatPercentage, formatRelativeTime, calculateLift } from '@/lib/utils';
-import type { Test, TestStats } from '@/types/Test';
+import { describeSampleRatio } from '@/lib/srm';
+import { describeParamForwarding } from '@/lib/params';
+import { describeTargetingRule } from '@/lib/targeting';
+import { describeCombination, getBaselineCombination } from '@/lib/multivariate';
+import type { Test, TestStats, BayesianAnalysis, SRMResult, SequentialAnalysis, DailyStats, MultivariateAnalysis, FunnelAnalysis, GuardrailReport } from '@/types/Test';
 
 export default function TestDashboard() {
   const params = useParams();
@@ -21,6 +38,13 @@ export default function TestDashboard() {
 
   const [test, setTest] = useState<Test | null>(null);
   const [stats, setStats] = useState<TestStats | null>(null);
+  const [bayesian, setBayesian] = useState<BayesianAnalysis | null>(null);
+  const [srm, setSrm] = useState<SRMResult | null>(null);
+  const [sequential, setSequential] = useState<SequentialAnalysis | null>(null);
+  const [timeSeries, setTimeSeries] = useState<DailyStats[]>([]);
+  const [multivariate, setMultivariate] = useState<MultivariateAnalysis | null>(null);
+  const [funnel, setFunnel] = useState<FunnelAnalysis | null>(null);
+  const [guardrails, setGuardrails] = useState<GuardrailReport | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -33,6 +57,7 @@ export default function TestDashboard() {
   const [verifying, setVerifying] = useState(false);
   const [verificationResult, setVerificationResult] = useState<any>(null);
   const [deleting, setDeleting] = useState(false);
+  const [tab, setTab] = useState<'results' | 'history'>('results');
 
   const fetchData = async (refresh = false) => {
     try {
@@ -56,6 +81,13 @@ export default function TestDashboard() {
       const data = await response.json();
       setTest(data.test);
       setStats(data.stats);
+      setBayesian(data.bayesian || null);
+      setSrm(data.srm || null);
+      setSequential(data.sequential || null);
+      setTimeSeries(data.timeSeries || []);
+      setMultivariate(data.multivariate || null);
+      setFunnel(data.funnel || null);
+      setGuardrails(data.guardrails || null);
       setError(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
@@ -178,14 +210,30 @@ export default function TestDashboard() {
             Entry Path: {test.entryPath}
           </p>
           <div className="flex items-center gap-3 mt-2">
+            <StatusBadge status={getTestStatus(test)} />
             <p className="text-xs text-muted-foreground">
               Last updated: {formatRelativeTime(stats.lastUpdated)}
             </p>
+            {test.guardrailBreachedAt && (
+              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200">
+                Guardrail Breached
+              </span>
+            )}
             {test.autoOptimize && (
               <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
                 Thompson Sampling Active
               </span>
             )}
+            {test.deliveryMode === 'proxy' && (
+              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200">
+                Reverse Proxy
+              </span>
+            )}
+            {test.countingMode === 'edge' && (
+              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200">
+                Edge Counting
+              </span>
+            )}
           </div>
         </div>
         <div className="flex gap-2">
@@ -229,342 +277,524 @@ export default function TestDashboard() {
         </div>
       </div>
 
-      {/* Deployment Checklist */}
-      <Card className="border-blue-500 bg-blue-50 dark:bg-blue-950">
-        <CardHeader>
-          <CardTitle className="text-lg">🚀 Deployment Checklist</CardTitle>
-          <CardDescription>Follow these steps to activate your test</CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-3">
-          <div className="space-y-2">
-            <p className="font-medium text-sm">1. Click &quot;View Codes&quot; button above</p>
-            <p className="font-medium text-sm">2. Copy Worker code and deploy to Cloudflare Workers</p>
-            <p className="font-medium text-sm">3. Configure Worker route (e.g., yourdomain.com{test.entryPath}*)</p>
-            <p className="font-medium text-sm">4. Add KV binding: Variable name <code className="bg-white px-1 rounded">AB_TESTS</code></p>
-            <p className="font-medium text-sm">5. Copy tracking snippet to your conversion/thank-you page</p>
-            <p className="font-medium text-sm">6. Test with: <code className="bg-white px-1 rounded">?__edgesplit_force=control</code></p>
-            <p className="font-medium text-sm">7. Click &quot;Verify Installation&quot; to confirm everything works</p>
-          </div>
-          <div className="pt-2 border-t">
-            <p className="text-xs text-muted-foreground">
-              💡 <strong>Tip:</strong> Use <code className="bg-white px-1 rounded">?__edgesplit_force=variant_a</code> to test each variant
-            </p>
-          </div>
-        </CardContent>
-      </Card>
+      {/* Tabs */}
+      <div className="flex gap-2">
+        <Button
+          variant={tab === 'results' ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => setTab('results')}
+        >
+          <BarChart3 className="w-4 h-4 mr-2" />
+          Results
+        </Button>
+        <Button
+          variant={tab === 'history' ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => setTab('history')}
+        >
+          <History className="w-4 h-4 mr-2" />
+          History
+        </Button>
+      </div>
 
-      {/* Optimization Mode Info */}
-      {test.autoOptimize && (
-        <Card className="border-purple-500 bg-purple-50 dark:bg-purple-950">
-          <CardHeader>
-            <CardTitle className="text-lg">⚡ Adaptive Traffic Allocation</CardTitle>
-            <CardDescription>
-              This test uses Thompson Sampling to automatically send more traffic to better-performing variants
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <p className="text-sm text-muted-foreground">
-              The configured percentages are ignored. Traffic is dynamically allocated based on conversion performance using Bayesian optimization.
-            </p>
-          </CardContent>
-        </Card>
-      )}
+      {tab === 'history' ? (
+        <AuditHistory testId={testId} />
+      ) : (
+        <>
+        {/* Lifecycle */}
+        <TestStatusControls test={test} suggestedWinner={stats.winner} onChange={setTest} />
+
+        {/* One-click deployment */}
+        <DeploymentCard testId={testId} />
+
+        {/* Guardrails */}
+        {guardrails && <GuardrailCard report={guardrails} />}
+
+        {/* Sample Ratio Mismatch Warning */}
+        {srm?.mismatch && (
+          <Card className="border-red-500 bg-red-50 dark:bg-red-950">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-red-700 dark:text-red-300">
+                <AlertCircle className="w-5 h-5" />
+                Sample Ratio Mismatch
+              </CardTitle>
+              <CardDescription>
+                Observed traffic does not match the configured split. Results are unreliable until this is fixed.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <p className="text-sm">{describeSampleRatio(srm)}</p>
+              <p className="text-xs text-muted-foreground">
+                Common causes: the Worker route does not cover every entry URL, a variant page is missing GA4, or redirects drop the bucket cookie.
+              </p>
+            </CardContent>
+          </Card>
+        )}
 
-      {/* Verification Results */}
-      {verificationResult && (
-        <Card className={verificationResult.overall ? 'border-green-500 bg-green-50 dark:bg-green-950' : 'border-yellow-500 bg-yellow-50 dark:bg-yellow-950'}>
+        {/* Deployment Checklist */}
+        <Card className="border-blue-500 bg-blue-50 dark:bg-blue-950">
           <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              {verificationResult.overall ? (
-                <>
-                  <CheckCircle2 className="w-5 h-5 text-green-600" />
-                  Installation Verified
-                </>
-              ) : (
-                <>
-                  <AlertCircle className="w-5 h-5 text-yellow-600" />
-                  Installation Issues Detected
-                </>
-              )}
-            </CardTitle>
-            <CardDescription>
-              {!verificationResult.overall && (
-                <>⚠️ This checks your deployed worker. Click &quot;View Codes&quot; below to deploy first.</>
-              )}
-            </CardDescription>
+            <CardTitle className="text-lg">🚀 Deployment Checklist</CardTitle>
+            <CardDescription>Follow these steps to activate your test</CardDescription>
           </CardHeader>
           <CardContent className="space-y-3">
-            <div className="flex items-start gap-2">
-              {verificationResult.checks.workerInstalled ? (
-                <CheckCircle2 className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
-              ) : (
-                <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
-              )}
-              <div>
-                <p className="font-medium">Worker Code</p>
-                <p className="text-sm text-muted-foreground">{verificationResult.checks.workerMessage}</p>
-              </div>
-            </div>
-            <div className="flex items-start gap-2">
-              {verificationResult.checks.trackingInstalled ? (
-                <CheckCircle2 className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
-              ) : (
-                <AlertCircle className="w-5 h-5 text-yellow-600 flex-shrink-0 mt-0.5" />
-              )}
-              <div>
-                <p className="font-medium">Tracking Snippet</p>
-                <p className="text-sm text-muted-foreground">{verificationResult.checks.trackingMessage}</p>
-              </div>
+            <div className="space-y-2">
+              <p className="font-medium text-sm">1. Click &quot;View Codes&quot; button above</p>
+              <p className="font-medium text-sm">2. Copy Worker code and deploy to Cloudflare Workers</p>
+              <p className="font-medium text-sm">3. Configure Worker route (e.g., yourdomain.com{test.entryPath}*)</p>
+              <p className="font-medium text-sm">4. Add KV binding: Variable name <code className="bg-white px-1 rounded">AB_TESTS</code></p>
+              <p className="font-medium text-sm">5. Copy tracking snippet to your conversion/thank-you page</p>
+              <p className="font-medium text-sm">6. Test with: <code className="bg-white px-1 rounded">?__edgesplit_force=control</code></p>
+              <p className="font-medium text-sm">7. Click &quot;Verify Installation&quot; to confirm everything works</p>
+              <p className="font-medium text-sm">8. Click &quot;Start&quot; to go live (drafts send everyone to control)</p>
             </div>
-            <div className="flex items-start gap-2">
-              {verificationResult.checks.recentActivity ? (
-                <CheckCircle2 className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
-              ) : (
-                <AlertCircle className="w-5 h-5 text-gray-400 flex-shrink-0 mt-0.5" />
-              )}
-              <div>
-                <p className="font-medium">Recent Activity</p>
-                <p className="text-sm text-muted-foreground">{verificationResult.checks.activityMessage}</p>
-              </div>
+            <div className="pt-2 border-t">
+              <p className="text-xs text-muted-foreground">
+                💡 <strong>Tip:</strong> Use <code className="bg-white px-1 rounded">?__edgesplit_force=variant_a</code> to test each variant
+              </p>
             </div>
           </CardContent>
         </Card>
-      )}
 
-      {/* Code Display */}
-      {showCodes && (
-        <>
-          <Card>
+        {/* Optimization Mode Info */}
+        {test.autoOptimize && (
+          <Card className="border-purple-500 bg-purple-50 dark:bg-purple-950">
             <CardHeader>
-              <div className="flex items-center justify-between">
-                <div>
-                  <CardTitle className="flex items-center gap-2">
-                    <FileCode className="w-5 h-5" />
-                    Cloudflare Worker Code
-                  </CardTitle>
-                  <CardDescription>
-                    Deploy this code to your Cloudflare Worker
-                  </CardDescription>
-                </div>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => copyToClipboard(workerCode, 'worker')}
-                >
-                  {copiedWorker ? (
-                    <>
-                      <CheckCircle className="w-4 h-4 mr-2" />
-                      Copied!
-                    </>
-                  ) : (
-                    <>
-                      <Copy className="w-4 h-4 mr-2" />
-                      Copy
-                    </>
-                  )}
-                </Button>
-              </div>
+              <CardTitle className="text-lg">⚡ Adaptive Traffic Allocation</CardTitle>
+              <CardDescription>
+                This test uses Thompson Sampling to automatically send more traffic to better-performing variants
+              </CardDescription>
             </CardHeader>
             <CardContent>
-              <Textarea
-                value={workerCode}
-                readOnly
-                rows={20}
-                className="font-mono text-xs"
-              />
+              <p className="text-sm text-muted-foreground">
+                The configured percentages are ignored. Traffic is dynamically allocated based on conversion performance using Bayesian optimization.
+              </p>
             </CardContent>
           </Card>
+        )}
 
-          <Card>
+        {/* Verification Results */}
+        {verificationResult && (
+          <Card className={verificationResult.overall ? 'border-green-500 bg-green-50 dark:bg-green-950' : 'border-yellow-500 bg-yellow-50 dark:bg-yellow-950'}>
             <CardHeader>
-              <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                {verificationResult.overall ? (
+                  <>
+                    <CheckCircle2 className="w-5 h-5 text-green-600" />
+                    Installation Verified
+                  </>
+                ) : (
+                  <>
+                    <AlertCircle className="w-5 h-5 text-yellow-600" />
+                    Installation Issues Detected
+                  </>
+                )}
+              </CardTitle>
+              <CardDescription>
+                {!verificationResult.overall && (
+                  <>⚠️ This checks your deployed worker. Click &quot;View Codes&quot; below to deploy first.</>
+                )}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex items-start gap-2">
+                {verificationResult.checks.workerInstalled ? (
+                  <CheckCircle2 className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
+                ) : (
+                  <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+                )}
+                <div>
+                  <p className="font-medium">Worker Code</p>
+                  <p className="text-sm text-muted-foreground">{verificationResult.checks.workerMessage}</p>
+                </div>
+              </div>
+              <div className="flex items-start gap-2">
+                {verificationResult.checks.trackingInstalled ? (
+                  <CheckCircle2 className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
+                ) : (
+                  <AlertCircle className="w-5 h-5 text-yellow-600 flex-shrink-0 mt-0.5" />
+                )}
                 <div>
-                  <CardTitle className="flex items-center gap-2">
-                    <Code className="w-5 h-5" />
-                    Tracking Snippet
-                  </CardTitle>
-                  <CardDescription>
-                    Add this to your conversion/thank you page
-                  </CardDescription>
+                  <p className="font-medium">Tracking Snippet</p>
+                  <p className="text-sm text-muted-foreground">{verificationResult.checks.trackingMessage}</p>
                 </div>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => copyToClipboard(trackingSnippet, 'snippet')}
-                >
-                  {copiedSnippet ? (
-                    <>
-                      <CheckCircle className="w-4 h-4 mr-2" />
-                      Copied!
-                    </>
+              </div>
+              <div className="flex items-start gap-2">
+                {verificationResult.checks.recentActivity ? (
+                  <CheckCircle2 className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
+                ) : (
+                  <AlertCircle className="w-5 h-5 text-gray-400 flex-shrink-0 mt-0.5" />
+                )}
+                <div>
+                  <p className="font-medium">Recent Activity</p>
+                  <p className="text-sm text-muted-foreground">{verificationResult.checks.activityMessage}</p>
+                </div>
+              </div>
+              {verificationResult.checks.sampleRatioMessage && (
+                <div className="flex items-start gap-2">
+                  {verificationResult.checks.sampleRatioMismatch ? (
+                    <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
                   ) : (
-                    <>
-                      <Copy className="w-4 h-4 mr-2" />
-                      Copy
-                    </>
+                    <CheckCircle2 className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
                   )}
-                </Button>
-              </div>
-            </CardHeader>
-            <CardContent>
-              <Textarea
-                value={trackingSnippet}
-                readOnly
-                rows={12}
-                className="font-mono text-xs"
-              />
+                  <div>
+                    <p className="font-medium">Traffic Split</p>
+                    <p className="text-sm text-muted-foreground">{verificationResult.checks.sampleRatioMessage}</p>
+                  </div>
+                </div>
+              )}
             </CardContent>
           </Card>
+        )}
+
+        {/* Code Display */}
+        {showCodes && (
+          <>
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle className="flex items-center gap-2">
+                      <FileCode className="w-5 h-5" />
+                      Cloudflare Worker Code
+                    </CardTitle>
+                    <CardDescription>
+                      Deploy this code to your Cloudflare Worker
+                    </CardDescription>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => copyToClipboard(workerCode, 'worker')}
+                  >
+                    {copiedWorker ? (
+                      <>
+                        <CheckCircle className="w-4 h-4 mr-2" />
+                        Copied!
+                      </>
+                    ) : (
+                      <>
+                        <Copy className="w-4 h-4 mr-2" />
+                        Copy
+                      </>
+                    )}
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <Textarea
+                  value={workerCode}
+                  readOnly
+                  rows={20}
+                  className="font-mono text-xs"
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle className="flex items-center gap-2">
+                      <Code className="w-5 h-5" />
+                      Tracking Snippet
+                    </CardTitle>
+                    <CardDescription>
+                      Add this to your conversion/thank you page
+                    </CardDescription>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => copyToClipboard(trackingSnippet, 'snippet')}
+                  >
+                    {copiedSnippet ? (
+                      <>
+                        <CheckCircle className="w-4 h-4 mr-2" />
+                        Copied!
+                      </>
+                    ) : (
+                      <>
+                        <Copy className="w-4 h-4 mr-2" />
+                        Copy
+                      </>
+                    )}
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <Textarea
+                  value={trackingSnippet}
+                  readOnly
+                  rows={12}
+                  className="font-mono text-xs"
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Setup Instructions</CardTitle>
+                <CardDescription>Follow these steps to deploy your test</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <pre className="whitespace-pre-wrap text-sm font-mono bg-muted p-4 rounded-lg overflow-x-auto">
+                  {setupInstructions}
+                </pre>
+              </CardContent>
+            </Card>
+          </>
+        )}
+
+        {/* Multivariate Factor Analysis */}
+        {multivariate && test.multivariate && (
+          <MultivariateAnalysisCard analysis={multivariate} factors={test.multivariate.factors} />
+        )}
+
+        {/* Revenue */}
+        {stats.revenue && <RevenueCard revenue={stats.revenue} />}
+
+        {/* Funnel */}
+        {funnel && <FunnelChart funnel={funnel} />}
 
-          <Card>
+        {/* Sequential Analysis */}
+        {sequential && <SequentialAnalysisCard analysis={sequential} />}
+
+        {/* Winner Card */}
+        {stats.winner && (
+          <Card className="border-green-500 bg-green-50 dark:bg-green-950">
             <CardHeader>
-              <CardTitle>Setup Instructions</CardTitle>
-              <CardDescription>Follow these steps to deploy your test</CardDescription>
+              <CardTitle className="flex items-center gap-2">
+                <TrendingUp className="w-5 h-5 text-green-600" />
+                Current Winner
+              </CardTitle>
             </CardHeader>
             <CardContent>
-              <pre className="whitespace-pre-wrap text-sm font-mono bg-muted p-4 rounded-lg overflow-x-auto">
-                {setupInstructions}
-              </pre>
+              <div className="space-y-2">
+                <p className="text-2xl font-bold">
+                  {stats.winner === 'control' ? 'Control' : stats.winner.toUpperCase()}
+                </p>
+                <p className="text-muted-foreground">
+                  {stats.lift > 0 ? '+' : ''}{formatPercentage(stats.lift)} lift vs{' '}
+                  {stats.winner === 'control' ? 'variants' : 'control'}
+                </p>
+                <p className="text-sm font-medium text-green-700 dark:text-green-300">
+                  Significant at {Math.round((stats.confidenceLevel ?? 0.95) * 100)}% confidence
+                </p>
+              </div>
             </CardContent>
           </Card>
-        </>
-      )}
-
-      {/* Winner Card */}
-      {stats.winner && (
-        <Card className="border-green-500 bg-green-50 dark:bg-green-950">
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <TrendingUp className="w-5 h-5 text-green-600" />
-              Current Winner
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-2">
-              <p className="text-2xl font-bold">
-                {stats.winner === 'control' ? 'Control' : stats.winner.toUpperCase()}
-              </p>
-              <p className="text-muted-foreground">
-                {stats.lift > 0 ? '+' : ''}{formatPercentage(stats.lift)} lift vs{' '}
-                {stats.winner === 'control' ? 'variants' : 'control'}
-              </p>
-            </div>
-          </CardContent>
-        </Card>
-      )}
-
-      {/* Control Stats */}
-      <div>
-        <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
-          <Eye className="w-5 h-5" />
-          Control ({test.controlPercentage}%)
-        </h2>
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-          <StatCard
-            title="Views"
-            value={stats.controlViews}
-            subtitle="Total impressions"
-          />
-          <StatCard
-            title="Conversions"
-            value={stats.controlConversions}
-            subtitle="Total completions"
-          />
-          <StatCard
-            title="Conversion Rate"
-            value={formatPercentage(stats.controlRate)}
-            subtitle="Conversions / Views"
-            variant={stats.winner === 'control' ? 'success' : 'default'}
-          />
-        </div>
-      </div>
-
-      {/* Variant Stats */}
-      {test.variants.map((variant) => {
-        const variantStats = stats.variantStats[variant.id];
-        if (!variantStats) return null;
+        )}
 
-        const lift = calculateLift(stats.controlRate, variantStats.rate);
-
-        return (
-          <div key={variant.id}>
-            <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
-              <Target className="w-5 h-5" />
-              {variant.id.charAt(0).toUpperCase() + variant.id.slice(1)} ({variant.percentage}%)
-            </h2>
-            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-              <StatCard
-                title="Views"
-                value={variantStats.views}
-                subtitle="Total impressions"
-              />
-              <StatCard
-                title="Conversions"
-                value={variantStats.conversions}
-                subtitle="Total completions"
-              />
+        {/* Control Stats */}
+        <div>
+          <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+            <Eye className="w-5 h-5" />
+            Control ({test.controlPercentage}%)
+          </h2>
+          {test.multivariate && (
+            <p className="text-sm text-muted-foreground -mt-2 mb-4">
+              {describeCombination(test.multivariate.factors, getBaselineCombination(test.multivariate.factors))}
+            </p>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <StatCard
+              title="Views"
+              value={stats.controlViews}
+              subtitle="Total impressions"
+            />
+            <StatCard
+              title="Conversions"
+              value={stats.controlConversions}
+              subtitle="Total completions"
+            />
+            <StatCard
+              title="Conversion Rate"
+              value={formatPercentage(stats.controlRate)}
+              subtitle="Conversions / Views"
+              variant={stats.winner === 'control' ? 'success' : 'default'}
+            />
+          </div>
+          {bayesian?.arms.control && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
               <StatCard
-                title="Conversion Rate"
-                value={formatPercentage(variantStats.rate)}
-                subtitle="Conversions / Views"
-                variant={stats.winner === variant.id ? 'success' : 'default'}
+                title="Chance to Be Best"
+                value={formatPercentage(bayesian.arms.control.probabilityToBeBest * 100, 1)}
+                subtitle="Posterior probability"
               />
               <StatCard
-                title="Lift vs Control"
-                value={formatPercentage(lift)}
-                subtitle="Relative performance"
-                trend={lift > 0 ? 'up' : lift < 0 ? 'down' : 'neutral'}
-                trendValue={formatPercentage(Math.abs(lift))}
-                variant={lift > 5 ? 'success' : lift < -5 ? 'warning' : 'default'}
+                title="Expected Loss"
+                value={formatPercentage(bayesian.arms.control.expectedLoss, 3)}
+                subtitle="Rate given up if chosen"
               />
             </div>
-          </div>
-        );
-      })}
-
-      {/* Test Configuration */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Test Configuration</CardTitle>
-          <CardDescription>View your test setup details</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-3">
-            <div>
-              <span className="font-medium">Test ID:</span>
-              <span className="ml-2 text-muted-foreground font-mono text-sm">{test.id}</span>
-            </div>
-            <div>
-              <span className="font-medium">Control URL:</span>
-              <span className="ml-2 text-muted-foreground text-sm">{test.controlUrl}</span>
+          )}
+        </div>
+
+        {/* Variant Stats */}
+        {test.variants.map((variant) => {
+          const variantStats = stats.variantStats[variant.id];
+          if (!variantStats) return null;
+
+          const lift = calculateLift(stats.controlRate, variantStats.rate);
+          const significance = variantStats.significance;
+          const posterior = bayesian?.arms[variant.id];
+
+          return (
+            <div key={variant.id}>
+              <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+                <Target className="w-5 h-5" />
+                {variant.id.charAt(0).toUpperCase() + variant.id.slice(1)} ({variant.percentage}%)
+              </h2>
+              {test.multivariate && variant.combination && (
+                <p className="text-sm text-muted-foreground -mt-2 mb-4">
+                  {describeCombination(test.multivariate.factors, variant.combination)}
+                </p>
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+                <StatCard
+                  title="Views"
+                  value={variantStats.views}
+                  subtitle="Total impressions"
+                />
+                <StatCard
+                  title="Conversions"
+                  value={variantStats.conversions}
+                  subtitle="Total completions"
+                />
+                <StatCard
+                  title="Conversion Rate"
+                  value={formatPercentage(variantStats.rate)}
+                  subtitle="Conversions / Views"
+                  variant={stats.winner === variant.id ? 'success' : 'default'}
+                />
+                <StatCard
+                  title="Lift vs Control"
+                  value={formatPercentage(lift)}
+                  subtitle="Relative performance"
+                  trend={lift > 0 ? 'up' : lift < 0 ? 'down' : 'neutral'}
+                  trendValue={formatPercentage(Math.abs(lift))}
+                  variant={lift > 5 ? 'success' : lift < -5 ? 'warning' : 'default'}
+                />
+                <StatCard
+                  title="Significance"
+                  value={significance
+                    ? significance.significant
+                      ? `${Math.round(significance.confidenceLevel * 100)}%`
+                      : 'Not yet'
+                    : '—'}
+                  subtitle={significance
+                    ? `p = ${significance.pValue.toFixed(4)} · lift ${formatPercentage(significance.liftInterval[0], 1)} to ${formatPercentage(significance.liftInterval[1], 1)}`
+                    : 'Refresh to compute'}
+                  variant={significance?.significant ? (lift > 0 ? 'success' : 'destructive') : 'default'}
+                />
+              </div>
+              {posterior && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+                  <StatCard
+                    title="Chance to Beat Control"
+                    value={formatPercentage((posterior.probabilityToBeatControl ?? 0) * 100, 1)}
+                    subtitle="Posterior probability"
+                    variant={(posterior.probabilityToBeatControl ?? 0) >= 0.95 ? 'success' : 'default'}
+                  />
+                  <StatCard
+                    title="Chance to Be Best"
+                    value={formatPercentage(posterior.probabilityToBeBest * 100, 1)}
+                    subtitle="Posterior probability"
+                  />
+                  <StatCard
+                    title="Expected Loss"
+                    value={formatPercentage(posterior.expectedLoss, 3)}
+                    subtitle="Rate given up if chosen"
+                  />
+                </div>
+              )}
             </div>
-            {test.variants.map((variant) => (
-              <div key={variant.id}>
-                <span className="font-medium">
-                  {variant.id.charAt(0).toUpperCase() + variant.id.slice(1)} URL:
+          );
+        })}
+
+        {/* Trends */}
+        <TimeSeriesChart
+          series={timeSeries}
+          buckets={['control', ...test.variants.map((v) => v.id)]}
+        />
+
+        {/* Sample Size & Duration */}
+        <SampleSizePanel testId={testId} observedBaseline={stats.controlRate} />
+
+        {/* Test Configuration */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Test Configuration</CardTitle>
+            <CardDescription>View your test setup details</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              <div>
+                <span className="font-medium">Test ID:</span>
+                <span className="ml-2 text-muted-foreground font-mono text-sm">{test.id}</span>
+              </div>
+              <div>
+                <span className="font-medium">Control URL:</span>
+                <span className="ml-2 text-muted-foreground text-sm">{test.controlUrl}</span>
+              </div>
+              {test.variants.map((variant) => (
+                <div key={variant.id}>
+                  <span className="font-medium">
+                    {variant.id.charAt(0).toUpperCase() + variant.id.slice(1)} URL:
+                  </span>
+                  <span className="ml-2 text-muted-foreground text-sm">{variant.url}</span>
+                </div>
+              ))}
+              <div>
+                <span className="font-medium">Visitor Assignment:</span>
+                <span className="ml-2 text-muted-foreground text-sm">
+                  {test.bucketing?.mode === 'deterministic'
+                    ? `Deterministic (visitor ID from ${test.bucketing.visitorIdHeader ? `${test.bucketing.visitorIdHeader} header, falling back to cookie` : 'cookie'})`
+                    : 'Random'}
+                </span>
+              </div>
+              {test.layer && (
+                <div>
+                  <span className="font-medium">Layer:</span>
+                  <span className="ml-2 text-muted-foreground text-sm">
+                    {test.layer.layerId} - {test.layer.percentage}% of layer traffic (slice {test.layer.start}-{test.layer.end})
+                  </span>
+                </div>
+              )}
+              <div>
+                <span className="font-medium">Audience:</span>
+                <span className="ml-2 text-muted-foreground text-sm">
+                  {test.targeting && test.targeting.length > 0
+                    ? test.targeting.map(describeTargetingRule).join(' AND ')
+                    : 'All visitors'}
+                </span>
+              </div>
+              <div>
+                <span className="font-medium">Query Parameters:</span>
+                <span className="ml-2 text-muted-foreground text-sm">{describeParamForwarding(test)}</span>
+              </div>
+              <div>
+                <span className="font-medium">GA4 Measurement ID:</span>
+                <span className="ml-2 text-muted-foreground text-sm">{test.ga4.measurementId}</span>
+              </div>
+              <div>
+                <span className="font-medium">View Event:</span>
+                <span className="ml-2 text-muted-foreground font-mono text-sm">
+                  {test.eventNames.view}
+                </span>
+              </div>
+              <div>
+                <span className="font-medium">Conversion Event:</span>
+                <span className="ml-2 text-muted-foreground font-mono text-sm">
+                  {test.eventNames.conversion}
                 </span>
-                <span className="ml-2 text-muted-foreground text-sm">{variant.url}</span>
               </div>
-            ))}
-            <div>
-              <span className="font-medium">GA4 Measurement ID:</span>
-              <span className="ml-2 text-muted-foreground text-sm">{test.ga4.measurementId}</span>
-            </div>
-            <div>
-              <span className="font-medium">View Event:</span>
-              <span className="ml-2 text-muted-foreground font-mono text-sm">
-                {test.eventNames.view}
-              </span>
-            </div>
-            <div>
-              <span className="font-medium">Conversion Event:</span>
-              <span className="ml-2 text-muted-foreground font-mono text-sm">
-                {test.eventNames.conversion}
-              </span>
             </div>
-          </div>
-        </CardContent>
-      </Card>
+          </CardContent>
+        </Card>
+        </>
+      )}
     </div>
   );
 }
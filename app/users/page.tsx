@@ -0,0 +1,228 @@
+'use client';
+
+import { useEffect, useState, type FormEvent } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { NativeSelect } from '@/components/ui/native-select';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { KeyRound, Plus, Trash2, Users } from 'lucide-react';
+import { formatRelativeTime } from '@/lib/utils';
+import type { User, UserRole } from '@/types/Test';
+
+const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  viewer: 'Viewer — read tests and results',
+  editor: 'Editor — create, edit, deploy and run tests',
+  admin: 'Admin — settings and user management',
+};
+
+export default function UsersPage() {
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [role, setRole] = useState<UserRole>('viewer');
+  const [saving, setSaving] = useState(false);
+
+  const loadUsers = async () => {
+    try {
+      const response = await fetch('/api/users', { cache: 'no-store' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load users');
+      }
+
+      setUsers(data.users);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  const request = async (url: string, init: RequestInit, fallback: string) => {
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.errors?.join(', ') || data.error || fallback);
+      }
+
+      await loadUsers();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      return false;
+    }
+  };
+
+  const createUser = async (e: FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    const created = await request(
+      '/api/users',
+      { method: 'POST', body: JSON.stringify({ email, password, role }) },
+      'Failed to create user'
+    );
+    if (created) {
+      setEmail('');
+      setPassword('');
+      setRole('viewer');
+    }
+
+    setSaving(false);
+  };
+
+  const changeRole = (user: User, newRole: UserRole) =>
+    request(
+      `/api/users/${user.id}`,
+      { method: 'PATCH', body: JSON.stringify({ role: newRole }) },
+      'Failed to change role'
+    );
+
+  const resetPassword = (user: User) => {
+    const newPassword = prompt(`New password for ${user.email}:`);
+    if (!newPassword) return;
+
+    request(
+      `/api/users/${user.id}`,
+      { method: 'PATCH', body: JSON.stringify({ password: newPassword }) },
+      'Failed to reset password'
+    );
+  };
+
+  const deleteUser = (user: User) => {
+    if (!confirm(`Delete ${user.email}? They will be signed out immediately.`)) return;
+
+    request(`/api/users/${user.id}`, { method: 'DELETE' }, 'Failed to delete user');
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <LoadingSpinner size="lg" text="Loading users..." />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6 max-w-4xl space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Users</h1>
+        <p className="text-muted-foreground mt-2">
+          Manage who can sign in to EdgeSplit and what they can do
+        </p>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="w-5 h-5" />
+            Accounts
+          </CardTitle>
+          <CardDescription>
+            Role changes apply on the user&apos;s next request
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-muted-foreground">
+                  <th className="py-2 pr-4 font-medium">Email</th>
+                  <th className="py-2 pr-4 font-medium">Role</th>
+                  <th className="py-2 pr-4 font-medium">Created</th>
+                  <th className="py-2 font-medium" />
+                </tr>
+              </thead>
+              <tbody>
+                {users.map((user) => (
+                  <tr key={user.id} className="border-b last:border-0">
+                    <td className="py-2 pr-4">{user.email}</td>
+                    <td className="py-2 pr-4">
+                      <NativeSelect
+                        value={user.role}
+                        onChange={(e) => changeRole(user, e.target.value as UserRole)}
+                        className="w-32"
+                        aria-label={`Role for ${user.email}`}
+                      >
+                        <option value="viewer">Viewer</option>
+                        <option value="editor">Editor</option>
+                        <option value="admin">Admin</option>
+                      </NativeSelect>
+                    </td>
+                    <td className="py-2 pr-4 text-muted-foreground">{formatRelativeTime(user.createdAt)}</td>
+                    <td className="py-2 text-right whitespace-nowrap">
+                      <Button variant="ghost" size="sm" onClick={() => resetPassword(user)} title="Reset password">
+                        <KeyRound className="w-4 h-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => deleteUser(user)} title="Delete user">
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Add User</CardTitle>
+          <CardDescription>Passwords need at least 10 characters</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={createUser} className="flex flex-col md:flex-row gap-2">
+            <Input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="name@example.com"
+              aria-label="Email"
+              required
+            />
+            <Input
+              type="password"
+              autoComplete="new-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Password"
+              aria-label="Password"
+              required
+            />
+            <NativeSelect
+              value={role}
+              onChange={(e) => setRole(e.target.value as UserRole)}
+              className="md:w-72"
+              aria-label="Role"
+            >
+              {(Object.keys(ROLE_DESCRIPTIONS) as UserRole[]).map((option) => (
+                <option key={option} value={option}>{ROLE_DESCRIPTIONS[option]}</option>
+              ))}
+            </NativeSelect>
+            <Button type="submit" variant="outline" disabled={saving}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+'use client';
+
+import { useEffect, useState, type FormEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { KeyRound, Plus, Trash2 } from 'lucide-react';
+import { cn, formatRelativeTime } from '@/lib/utils';
+import type { ApiKey, ApiKeyScope } from '@/types/Test';
+
+const SCOPE_DESCRIPTIONS: Record<ApiKeyScope, string> = {
+  'tests:read': 'Read tests, stats and reports',
+  'tests:write': 'Create, edit, deploy, start, pause, conclude and delete tests (includes read)',
+  'sync:run': 'Trigger GA4 syncs',
+  'settings:manage': 'Read and change these settings',
+};
+
+export function ApiKeyManager() {
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['tests:read']);
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadApiKeys = async () => {
+    try {
+      const response = await fetch('/api/settings/api-keys', { cache: 'no-store' });
+      const data = await response.json();
+      setApiKeys(data.apiKeys || []);
+    } catch (err) {
+      console.error('Error loading API keys:', err);
+    }
+  };
+
+  useEffect(() => {
+    loadApiKeys();
+  }, []);
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes(scopes.includes(scope) ? scopes.filter((s) => s !== scope) : [...scopes, scope]);
+  };
+
+  const createApiKey = async (e: FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    setNewKey(null);
+
+    try {
+      const response = await fetch('/api/settings/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, scopes }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.errors?.join(', ') || data.error || 'Failed to create API key');
+      }
+
+      setNewKey(data.key);
+      setName('');
+      setScopes(['tests:read']);
+      await loadApiKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const revokeApiKey = async (apiKey: ApiKey) => {
+    if (!confirm(`Revoke API key "${apiKey.name}"? Scripts using it will stop working.`)) return;
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/settings/api-keys/${apiKey.id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to revoke API key');
+      }
+
+      await loadApiKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="w-5 h-5" />
+          API Keys
+        </CardTitle>
+        <CardDescription>
+          For CI pipelines and scripts. Send the key as <code>Authorization: Bearer es_...</code> on any API route its scopes allow.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {apiKeys.map((apiKey) => (
+          <div
+            key={apiKey.id}
+            className={cn('flex items-center justify-between gap-4 text-sm', apiKey.revokedAt && 'text-muted-foreground line-through')}
+          >
+            <div>
+              <div className="font-medium">
+                {apiKey.name} <code className="text-xs">{apiKey.prefix}…</code>
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {apiKey.scopes.join(', ')} · created by {apiKey.createdBy} {formatRelativeTime(apiKey.createdAt)}
+                {apiKey.lastUsedAt ? ` · last used ${formatRelativeTime(apiKey.lastUsedAt)}` : ' · never used'}
+                {apiKey.revokedAt && ` · revoked ${formatRelativeTime(apiKey.revokedAt)}`}
+              </div>
+            </div>
+            {!apiKey.revokedAt && (
+              <Button variant="ghost" size="sm" onClick={() => revokeApiKey(apiKey)} title="Revoke key">
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+
+        {newKey && (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg space-y-2">
+            <p className="text-sm text-green-800">
+              Copy this key now. It is stored hashed and won&apos;t be shown again.
+            </p>
+            <code className="block text-xs break-all select-all">{newKey}</code>
+          </div>
+        )}
+
+        <form onSubmit={createApiKey} className="space-y-3">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Key name (e.g. GitHub Actions)"
+            required
+          />
+          <div className="grid gap-2 md:grid-cols-2">
+            {(Object.keys(SCOPE_DESCRIPTIONS) as ApiKeyScope[]).map((scope) => (
+              <label key={scope} className="flex items-start gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={scopes.includes(scope)}
+                  onChange={() => toggleScope(scope)}
+                />
+                <span>
+                  <code>{scope}</code>
+                  <span className="block text-xs text-muted-foreground">{SCOPE_DESCRIPTIONS[scope]}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+          <Button type="submit" variant="outline" disabled={saving || scopes.length === 0}>
+            <Plus className="w-4 h-4 mr-2" />
+            Create API Key
+          </Button>
+        </form>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
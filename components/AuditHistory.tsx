@@ -0,0 +1,121 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { History } from 'lucide-react';
+import { formatDate, formatRelativeTime } from '@/lib/utils';
+import type { AuditAction, AuditEntry } from '@/types/Test';
+
+interface AuditHistoryProps {
+  testId: string;
+}
+
+const actionLabels: Record<AuditAction, string> = {
+  'test.create': 'Created the test',
+  'test.update': 'Edited the test',
+  'test.delete': 'Deleted the test',
+  'test.start': 'Started the test',
+  'test.pause': 'Paused the test',
+  'test.conclude': 'Concluded the test',
+  'test.archive': 'Archived the test',
+  'test.deploy': 'Deployed the Worker',
+  'layer.create': 'Created a layer',
+  'layer.delete': 'Deleted a layer',
+  'settings.save': 'Saved settings',
+  'settings.rotate_key': 'Rotated the encryption key',
+  'apikey.create': 'Created an API key',
+  'apikey.revoke': 'Revoked an API key',
+  'user.create': 'Created a user',
+  'user.update': 'Updated a user',
+  'user.delete': 'Deleted a user',
+  'sync.run': 'Synced GA4 stats',
+};
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+export function AuditHistory({ testId }: AuditHistoryProps) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [actor, setActor] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const params = new URLSearchParams({ testId });
+    if (actor.trim()) params.set('actor', actor.trim());
+
+    setLoading(true);
+    fetch(`/api/audit?${params}`, { cache: 'no-store' })
+      .then((response) => response.json())
+      .then((data) => {
+        if (data.error) throw new Error(data.error);
+        setEntries(data.entries || []);
+        setError(null);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load history'))
+      .finally(() => setLoading(false));
+  }, [testId, actor]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <History className="w-5 h-5" />
+              Change History
+            </CardTitle>
+            <CardDescription>Every change to this test, newest first</CardDescription>
+          </div>
+          <Input
+            value={actor}
+            onChange={(e) => setActor(e.target.value)}
+            placeholder="Filter by email"
+            className="max-w-xs"
+          />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {!loading && !error && entries.length === 0 && (
+          <p className="text-sm text-muted-foreground">No changes recorded yet.</p>
+        )}
+
+        {entries.map((entry) => (
+          <div key={entry.id} className="border-b pb-4 last:border-b-0 last:pb-0">
+            <div className="flex items-center justify-between gap-4 text-sm">
+              <div>
+                <span className="font-medium">{actionLabels[entry.action] || entry.action}</span>
+                <span className="text-muted-foreground"> by {entry.actor.email}</span>
+              </div>
+              <span className="text-xs text-muted-foreground" title={formatDate(entry.timestamp)}>
+                {formatRelativeTime(entry.timestamp)}
+              </span>
+            </div>
+            <div className="text-xs text-muted-foreground">
+              <code>{entry.route}</code>
+            </div>
+
+            {entry.changes && entry.changes.length > 0 && (
+              <table className="w-full mt-2 text-xs">
+                <tbody>
+                  {entry.changes.map((change) => (
+                    <tr key={change.path} className="align-top">
+                      <td className="py-1 pr-4 font-mono whitespace-nowrap">{change.path}</td>
+                      <td className="py-1 pr-4 font-mono break-all text-red-700">{formatValue(change.before)}</td>
+                      <td className="py-1 font-mono break-all text-green-700">{formatValue(change.after)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,102 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { UploadCloud, CheckCircle2, AlertCircle } from 'lucide-react';
+import { formatRelativeTime } from '@/lib/utils';
+import type { DeploymentStatus } from '@/types/Test';
+
+interface DeploymentCardProps {
+  testId: string;
+}
+
+const stepLabels = {
+  script: 'uploading the Worker script',
+  zone: 'looking up the Cloudflare zone',
+  route: 'creating the Worker route',
+};
+
+export function DeploymentCard({ testId }: DeploymentCardProps) {
+  const [deployment, setDeployment] = useState<DeploymentStatus | null>(null);
+  const [deploying, setDeploying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/tests/${testId}/deploy`)
+      .then((response) => response.json())
+      .then((data) => setDeployment(data.deployment || null))
+      .catch((err) => console.error('Error loading deployment status:', err));
+  }, [testId]);
+
+  const deploy = async () => {
+    setDeploying(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/tests/${testId}/deploy`, { method: 'POST' });
+      const data = await response.json();
+
+      if (data.deployment) {
+        setDeployment(data.deployment);
+      } else if (!response.ok) {
+        throw new Error(data.errors?.join(', ') || data.error || 'Failed to deploy worker');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setDeploying(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <UploadCloud className="w-5 h-5" />
+              Worker Deployment
+            </CardTitle>
+            <CardDescription>
+              Upload the Worker, bind the AB_TESTS namespace and add the route using your Cloudflare credentials
+            </CardDescription>
+          </div>
+          <Button onClick={deploy} disabled={deploying}>
+            <UploadCloud className={`w-4 h-4 mr-2 ${deploying ? 'animate-pulse' : ''}`} />
+            {deploying ? 'Deploying...' : deployment ? 'Redeploy' : 'Deploy'}
+          </Button>
+        </div>
+      </CardHeader>
+      {(deployment || error) && (
+        <CardContent className="space-y-2 text-sm">
+          {error && <p className="text-destructive">{error}</p>}
+          {deployment && (
+            <>
+              <div className="flex items-center gap-2">
+                {deployment.state === 'deployed' ? (
+                  <>
+                    <CheckCircle2 className="w-4 h-4 text-green-600" />
+                    <span>
+                      Deployed <code>{deployment.scriptName}</code> on <code>{deployment.routePattern}</code>
+                    </span>
+                  </>
+                ) : (
+                  <>
+                    <AlertCircle className="w-4 h-4 text-red-600" />
+                    <span>
+                      Failed while {deployment.failedStep ? stepLabels[deployment.failedStep] : 'deploying'}: {deployment.error}
+                    </span>
+                  </>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Last attempt {formatRelativeTime(deployment.deployedAt)}
+              </p>
+            </>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
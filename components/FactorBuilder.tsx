@@ -0,0 +1,76 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Plus, X } from 'lucide-react';
+
+// Levels are edited as comma-separated text; the first level is the baseline
+export interface FactorDraft {
+  key: string;
+  name: string;
+  levels: string;
+}
+
+interface FactorBuilderProps {
+  factors: FactorDraft[];
+  onChange: (factors: FactorDraft[]) => void;
+}
+
+export function FactorBuilder({ factors, onChange }: FactorBuilderProps) {
+  const addFactor = () => {
+    onChange([...factors, { key: '', name: '', levels: '' }]);
+  };
+
+  const removeFactor = (index: number) => {
+    onChange(factors.filter((_, i) => i !== index));
+  };
+
+  const updateFactor = (index: number, update: Partial<FactorDraft>) => {
+    const updated = [...factors];
+    updated[index] = { ...updated[index], ...update };
+    onChange(updated);
+  };
+
+  return (
+    <div className="space-y-3">
+      {factors.map((factor, index) => (
+        <div key={index} className="flex flex-col md:flex-row gap-2 md:items-center">
+          {index > 0 && <span className="text-xs font-medium text-muted-foreground md:w-8">×</span>}
+          <Input
+            value={factor.name}
+            onChange={(e) => updateFactor(index, { name: e.target.value })}
+            placeholder="Headline"
+            className="md:w-36"
+            aria-label="Factor name"
+          />
+          <Input
+            value={factor.key}
+            onChange={(e) => updateFactor(index, { key: e.target.value })}
+            placeholder="headline"
+            className="md:w-32 font-mono"
+            aria-label="Parameter"
+          />
+          <Input
+            value={factor.levels}
+            onChange={(e) => updateFactor(index, { levels: e.target.value })}
+            placeholder="original, bold, question"
+            aria-label="Levels"
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => removeFactor(index)}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+
+      <Button type="button" variant="outline" size="sm" onClick={addFactor}>
+        <Plus className="w-4 h-4 mr-2" />
+        Add Factor
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Filter } from 'lucide-react';
+import { formatNumber, formatPercentage } from '@/lib/utils';
+import type { FunnelAnalysis } from '@/types/Test';
+
+interface FunnelChartProps {
+  funnel: FunnelAnalysis;
+}
+
+function armLabel(bucket: string): string {
+  return bucket.charAt(0).toUpperCase() + bucket.slice(1);
+}
+
+export function FunnelChart({ funnel }: FunnelChartProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Filter className="w-5 h-5" />
+          Funnel
+        </CardTitle>
+        <CardDescription>
+          Bars are the share of views reaching each step; the percentage on the right is the step-to-step rate
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {funnel.arms.map((arm) => (
+            <div key={arm.bucket} className="space-y-2">
+              <h4 className="font-semibold">{armLabel(arm.bucket)}</h4>
+
+              <div className="space-y-1">
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>Views</span>
+                  <span>{formatNumber(arm.views)}</span>
+                </div>
+                <div className="h-3 w-full rounded bg-primary/70" />
+              </div>
+
+              {arm.steps.map((step) => (
+                <div key={step.id} className="space-y-1">
+                  <div className="flex justify-between text-xs">
+                    <span>
+                      {step.name}
+                      <span className="ml-2 text-muted-foreground">{formatNumber(step.count)}</span>
+                    </span>
+                    <span className="text-muted-foreground">{formatPercentage(step.stepRate, 1)} of previous</span>
+                  </div>
+                  <div className="h-3 w-full rounded bg-muted overflow-hidden">
+                    <div
+                      className="h-full bg-primary/70"
+                      style={{ width: `${Math.min(step.overallRate, 100)}%` }}
+                      title={`${formatPercentage(step.overallRate)} of views`}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
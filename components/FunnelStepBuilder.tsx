@@ -0,0 +1,78 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ArrowUp, Plus, X } from 'lucide-react';
+import { MAX_FUNNEL_STEPS } from '@/lib/funnel';
+
+interface FunnelStepBuilderProps {
+  steps: string[];
+  onChange: (steps: string[]) => void;
+}
+
+export function FunnelStepBuilder({ steps, onChange }: FunnelStepBuilderProps) {
+  const addStep = () => {
+    onChange([...steps, '']);
+  };
+
+  const removeStep = (index: number) => {
+    onChange(steps.filter((_, i) => i !== index));
+  };
+
+  const updateStep = (index: number, name: string) => {
+    const updated = [...steps];
+    updated[index] = name;
+    onChange(updated);
+  };
+
+  const moveUp = (index: number) => {
+    const updated = [...steps];
+    [updated[index - 1], updated[index]] = [updated[index], updated[index - 1]];
+    onChange(updated);
+  };
+
+  return (
+    <div className="space-y-3">
+      {steps.map((step, index) => (
+        <div key={index} className="flex gap-2 items-center">
+          <span className="text-xs font-medium text-muted-foreground w-6">{index + 1}.</span>
+          <Input
+            value={step}
+            onChange={(e) => updateStep(index, e.target.value)}
+            placeholder={['Opt-in', 'Webinar attendance', 'Purchase'][index] || 'Step name'}
+            aria-label={`Step ${index + 1} name`}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => moveUp(index)}
+            disabled={index === 0}
+            title="Move up"
+          >
+            <ArrowUp className="w-4 h-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => removeStep(index)}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={addStep}
+        disabled={steps.length >= MAX_FUNNEL_STEPS}
+      >
+        <Plus className="w-4 h-4 mr-2" />
+        Add Step
+      </Button>
+    </div>
+  );
+}
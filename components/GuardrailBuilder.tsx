@@ -0,0 +1,90 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { NativeSelect } from '@/components/ui/native-select';
+import { Plus, X } from 'lucide-react';
+import { MAX_GUARDRAILS } from '@/lib/guardrails';
+import type { GuardrailHarm } from '@/types/Test';
+
+export interface GuardrailDraft {
+  name: string;
+  harm: GuardrailHarm;
+  tolerance: number;
+}
+
+interface GuardrailBuilderProps {
+  guardrails: GuardrailDraft[];
+  onChange: (guardrails: GuardrailDraft[]) => void;
+}
+
+export function GuardrailBuilder({ guardrails, onChange }: GuardrailBuilderProps) {
+  const addGuardrail = () => {
+    onChange([...guardrails, { name: '', harm: 'increase', tolerance: 10 }]);
+  };
+
+  const removeGuardrail = (index: number) => {
+    onChange(guardrails.filter((_, i) => i !== index));
+  };
+
+  const updateGuardrail = (index: number, update: Partial<GuardrailDraft>) => {
+    const updated = [...guardrails];
+    updated[index] = { ...updated[index], ...update };
+    onChange(updated);
+  };
+
+  return (
+    <div className="space-y-3">
+      {guardrails.map((guardrail, index) => (
+        <div key={index} className="flex flex-col md:flex-row gap-2 md:items-center">
+          <Input
+            value={guardrail.name}
+            onChange={(e) => updateGuardrail(index, { name: e.target.value })}
+            placeholder="Refund requests"
+            aria-label="Guardrail name"
+          />
+          <NativeSelect
+            value={guardrail.harm}
+            onChange={(e) => updateGuardrail(index, { harm: e.target.value as GuardrailHarm })}
+            className="md:w-48"
+            aria-label="Harmful direction"
+          >
+            <option value="increase">Harmful if it rises</option>
+            <option value="decrease">Harmful if it falls</option>
+          </NativeSelect>
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min="0"
+              max="100"
+              value={guardrail.tolerance}
+              onChange={(e) => updateGuardrail(index, { tolerance: Number(e.target.value) })}
+              className="w-20"
+              aria-label="Tolerance %"
+            />
+            <span className="text-sm text-muted-foreground whitespace-nowrap">% tolerance</span>
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => removeGuardrail(index)}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={addGuardrail}
+        disabled={guardrails.length >= MAX_GUARDRAILS}
+      >
+        <Plus className="w-4 h-4 mr-2" />
+        Add Guardrail
+      </Button>
+    </div>
+  );
+}
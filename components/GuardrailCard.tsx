@@ -0,0 +1,64 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ShieldAlert, ShieldCheck } from 'lucide-react';
+import { cn, formatPercentage, formatRelativeTime } from '@/lib/utils';
+import type { GuardrailReport } from '@/types/Test';
+
+interface GuardrailCardProps {
+  report: GuardrailReport;
+}
+
+export function GuardrailCard({ report }: GuardrailCardProps) {
+  return (
+    <Card className={cn(report.breached && 'border-red-500 bg-red-50 dark:bg-red-950')}>
+      <CardHeader>
+        <CardTitle className={cn('flex items-center gap-2 text-lg', report.breached && 'text-red-700 dark:text-red-300')}>
+          {report.breached ? <ShieldAlert className="w-5 h-5" /> : <ShieldCheck className="w-5 h-5" />}
+          {report.breached ? 'Guardrail Breached' : 'Guardrails'}
+        </CardTitle>
+        <CardDescription>
+          {report.breached
+            ? `A variant is significantly worse than control on a guardrail metric, beyond its tolerance.${report.autoPaused ? ' The test was paused automatically.' : ''}`
+            : 'No variant is significantly worse than control beyond the tolerance.'}
+          {' '}Checked {formatRelativeTime(report.evaluatedAt)}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="py-2 pr-4 font-medium">Guardrail</th>
+                <th className="py-2 pr-4 font-medium">Variant</th>
+                <th className="py-2 pr-4 font-medium text-right">Control</th>
+                <th className="py-2 pr-4 font-medium text-right">Variant</th>
+                <th className="py-2 pr-4 font-medium text-right">Change</th>
+                <th className="py-2 font-medium text-right">p-value</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.results.map((result) => (
+                <tr
+                  key={`${result.guardrailId}:${result.variantId}`}
+                  className={cn('border-b last:border-0', result.breached && 'text-red-700 font-medium')}
+                >
+                  <td className="py-2 pr-4">{result.name}</td>
+                  <td className="py-2 pr-4">{result.variantId}</td>
+                  <td className="py-2 pr-4 text-right">{formatPercentage(result.controlRate)}</td>
+                  <td className="py-2 pr-4 text-right">{formatPercentage(result.variantRate)}</td>
+                  <td className="py-2 pr-4 text-right">{formatPercentage(result.relativeChange, 1)}</td>
+                  <td className="py-2 text-right">{result.pValue.toFixed(4)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-muted-foreground mt-2">
+          Rates are events per 100 views. p-values are always-valid (mSPRT), so checking every sync doesn&apos;t inflate
+          false alarms{report.alpha !== undefined && `; a guardrail is breached below ${report.alpha.toFixed(4)} (Bonferroni over every guardrail and variant)`}.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
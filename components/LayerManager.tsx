@@ -0,0 +1,138 @@
+'use client';
+
+import { useEffect, useState, type FormEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Layers, Plus, Trash2 } from 'lucide-react';
+import type { LayerSummary } from '@/types/Test';
+
+export function LayerManager() {
+  const [layers, setLayers] = useState<LayerSummary[]>([]);
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadLayers = async () => {
+    try {
+      const response = await fetch('/api/layers', { cache: 'no-store' });
+      const data = await response.json();
+      setLayers(data.layers || []);
+    } catch (err) {
+      console.error('Error loading layers:', err);
+    }
+  };
+
+  useEffect(() => {
+    loadLayers();
+  }, []);
+
+  const createLayer = async (e: FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/layers', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.errors?.join(', ') || data.error || 'Failed to create layer');
+      }
+
+      setName('');
+      await loadLayers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteLayer = async (layer: LayerSummary) => {
+    if (!confirm(`Delete layer "${layer.name}"?`)) return;
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/layers/${layer.id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete layer');
+      }
+
+      await loadLayers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Layers className="w-5 h-5" />
+          Experiment Layers
+        </CardTitle>
+        <CardDescription>
+          Tests in the same layer split its visitors between them, so overlapping tests never enroll the same visitor
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {layers.map((layer) => (
+          <div key={layer.id} className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium">{layer.name}</span>
+              <div className="flex items-center gap-2">
+                <span className="text-muted-foreground">{layer.remaining}% free</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteLayer(layer)}
+                  disabled={layer.tests.length > 0}
+                  title={layer.tests.length > 0 ? 'Remove the layer from its tests first' : 'Delete layer'}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+            <div className="relative h-3 w-full rounded bg-muted overflow-hidden">
+              {layer.tests.map((test) => (
+                <div
+                  key={test.id}
+                  className="absolute h-full bg-primary/70 border-r border-background"
+                  style={{ left: `${test.start}%`, width: `${test.end - test.start}%` }}
+                  title={`${test.name}: ${test.end - test.start}%`}
+                />
+              ))}
+            </div>
+            {layer.tests.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {layer.tests.map((test) => `${test.name} (${test.end - test.start}%)`).join(' · ')}
+              </p>
+            )}
+          </div>
+        ))}
+
+        <form onSubmit={createLayer} className="flex gap-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="New layer name (e.g. Checkout funnel)"
+            required
+          />
+          <Button type="submit" variant="outline" disabled={saving}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Layer
+          </Button>
+        </form>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
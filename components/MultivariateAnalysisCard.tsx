@@ -0,0 +1,95 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Grid3x3 } from 'lucide-react';
+import { cn, formatNumber, formatPercentage } from '@/lib/utils';
+import type { MultivariateAnalysis, Factor } from '@/types/Test';
+
+interface MultivariateAnalysisCardProps {
+  analysis: MultivariateAnalysis;
+  factors: Factor[];
+}
+
+export function MultivariateAnalysisCard({ analysis, factors }: MultivariateAnalysisCardProps) {
+  const factorName = (key: string) => factors.find((factor) => factor.key === key)?.name || key;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Grid3x3 className="w-5 h-5" />
+          Factor Analysis
+        </CardTitle>
+        <CardDescription>
+          Main effects pool every combination that shares a level; lift is relative to the factor&apos;s baseline (first) level
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {analysis.mainEffects.map((effect) => (
+          <div key={effect.factor}>
+            <h4 className="font-semibold mb-2">{effect.name}</h4>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-muted-foreground">
+                  <th className="py-1 pr-4 font-medium">Level</th>
+                  <th className="py-1 pr-4 font-medium text-right">Views</th>
+                  <th className="py-1 pr-4 font-medium text-right">Rate</th>
+                  <th className="py-1 pr-4 font-medium text-right">Lift</th>
+                  <th className="py-1 font-medium text-right">p-value</th>
+                </tr>
+              </thead>
+              <tbody>
+                {effect.levels.map((level, index) => (
+                  <tr key={level.level} className={cn('border-b last:border-0', level.significant && (level.lift > 0 ? 'text-green-700' : 'text-red-700'))}>
+                    <td className="py-1 pr-4">
+                      {level.level}
+                      {index === 0 && <span className="ml-2 text-xs text-muted-foreground">baseline</span>}
+                    </td>
+                    <td className="py-1 pr-4 text-right">{formatNumber(level.views)}</td>
+                    <td className="py-1 pr-4 text-right">{formatPercentage(level.rate)}</td>
+                    <td className="py-1 pr-4 text-right">{index === 0 ? '—' : formatPercentage(level.lift, 1)}</td>
+                    <td className="py-1 text-right">{level.pValue === null ? '—' : level.pValue.toFixed(4)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ))}
+
+        {analysis.interactions.length > 0 && (
+          <div>
+            <h4 className="font-semibold mb-1">Interactions</h4>
+            <p className="text-xs text-muted-foreground mb-2">
+              How much combining two levels adds (or removes) beyond their separate effects, in percentage points of conversion rate
+            </p>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-muted-foreground">
+                  <th className="py-1 pr-4 font-medium">Combination</th>
+                  <th className="py-1 pr-4 font-medium text-right">Interaction</th>
+                  <th className="py-1 font-medium text-right">p-value</th>
+                </tr>
+              </thead>
+              <tbody>
+                {analysis.interactions.map((interaction) => (
+                  <tr
+                    key={`${interaction.factors.join('-')}:${interaction.levels.join('-')}`}
+                    className={cn('border-b last:border-0', interaction.significant && 'font-medium')}
+                  >
+                    <td className="py-1 pr-4">
+                      {factorName(interaction.factors[0])} = {interaction.levels[0]} × {factorName(interaction.factors[1])} = {interaction.levels[1]}
+                    </td>
+                    <td className="py-1 pr-4 text-right">
+                      {interaction.effect > 0 ? '+' : ''}{interaction.effect.toFixed(2)} pp
+                    </td>
+                    <td className="py-1 text-right">{interaction.pValue.toFixed(4)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
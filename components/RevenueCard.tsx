@@ -0,0 +1,71 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { DollarSign } from 'lucide-react';
+import { cn, formatPercentage } from '@/lib/utils';
+import type { RevenueStats, RevenueArmStats } from '@/types/Test';
+
+interface RevenueCardProps {
+  revenue: RevenueStats;
+}
+
+export function RevenueCard({ revenue }: RevenueCardProps) {
+  const formatMoney = (amount: number) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: revenue.currency }).format(amount);
+
+  const arms: [string, RevenueArmStats][] = [
+    ['Control', revenue.control],
+    ...Object.entries(revenue.variants).map(([variantId, arm]): [string, RevenueArmStats] => [
+      variantId.charAt(0).toUpperCase() + variantId.slice(1),
+      arm,
+    ]),
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <DollarSign className="w-5 h-5" />
+          Revenue
+        </CardTitle>
+        <CardDescription>
+          Revenue per visitor counts everyone who saw the arm, so it captures both how many buy and how much they spend. Variants are compared to control with Welch&apos;s t-test.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="py-2 pr-4 font-medium">Arm</th>
+                <th className="py-2 pr-4 font-medium text-right">Revenue</th>
+                <th className="py-2 pr-4 font-medium text-right">Per visitor</th>
+                <th className="py-2 pr-4 font-medium text-right">Avg. order value</th>
+                <th className="py-2 pr-4 font-medium text-right">Lift</th>
+                <th className="py-2 font-medium text-right">p-value</th>
+              </tr>
+            </thead>
+            <tbody>
+              {arms.map(([label, arm]) => (
+                <tr
+                  key={label}
+                  className={cn(
+                    'border-b last:border-0',
+                    arm.significance?.significant && ((arm.lift ?? 0) > 0 ? 'text-green-700' : 'text-red-700')
+                  )}
+                >
+                  <td className="py-2 pr-4">{label}</td>
+                  <td className="py-2 pr-4 text-right">{formatMoney(arm.revenue)}</td>
+                  <td className="py-2 pr-4 text-right">{formatMoney(arm.revenuePerVisitor)}</td>
+                  <td className="py-2 pr-4 text-right">{formatMoney(arm.averageOrderValue)}</td>
+                  <td className="py-2 pr-4 text-right">{arm.lift === undefined ? '—' : formatPercentage(arm.lift, 1)}</td>
+                  <td className="py-2 text-right">{arm.significance ? arm.significance.pValue.toFixed(4) : '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
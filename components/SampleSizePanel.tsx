@@ -0,0 +1,168 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Calculator } from 'lucide-react';
+import { formatNumber, formatDate } from '@/lib/utils';
+import type { SampleSizeEstimate } from '@/types/Test';
+
+interface SampleSizePanelProps {
+  testId: string;
+  observedBaseline?: number; // Observed control conversion rate, in percent
+}
+
+export function SampleSizePanel({ testId, observedBaseline }: SampleSizePanelProps) {
+  const [baseline, setBaseline] = useState(observedBaseline ? Number(observedBaseline.toFixed(2)) : 5);
+  const [mde, setMde] = useState(10);
+  const [alpha, setAlpha] = useState(0.05);
+  const [power, setPower] = useState(0.8);
+  const [estimate, setEstimate] = useState<SampleSizeEstimate | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const calculate = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const query = new URLSearchParams({
+        baseline: String(baseline),
+        mde: String(mde),
+        alpha: String(alpha),
+        power: String(power),
+      });
+      const response = await fetch(`/api/tests/${testId}/sample-size?${query.toString()}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.errors?.join(', ') || data.error || 'Failed to estimate sample size');
+      }
+
+      setEstimate(data.estimate);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    calculate();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [testId]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Calculator className="w-5 h-5" />
+          Sample Size &amp; Duration
+        </CardTitle>
+        <CardDescription>
+          How many views each arm needs to reliably detect the lift you care about
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="baseline">Baseline rate (%)</Label>
+            <Input
+              id="baseline"
+              type="number"
+              step="0.1"
+              min="0"
+              max="100"
+              value={baseline}
+              onChange={(e) => setBaseline(Number(e.target.value))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="mde">Min. detectable lift (%)</Label>
+            <Input
+              id="mde"
+              type="number"
+              step="1"
+              min="0"
+              value={mde}
+              onChange={(e) => setMde(Number(e.target.value))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="alpha">Alpha</Label>
+            <Input
+              id="alpha"
+              type="number"
+              step="0.01"
+              min="0"
+              max="1"
+              value={alpha}
+              onChange={(e) => setAlpha(Number(e.target.value))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="power">Power</Label>
+            <Input
+              id="power"
+              type="number"
+              step="0.05"
+              min="0"
+              max="1"
+              value={power}
+              onChange={(e) => setPower(Number(e.target.value))}
+            />
+          </div>
+        </div>
+
+        <Button type="button" variant="outline" onClick={calculate} disabled={loading}>
+          {loading ? 'Calculating...' : 'Calculate'}
+        </Button>
+
+        {error && (
+          <p className="text-sm text-destructive">{error}</p>
+        )}
+
+        {estimate && !error && (
+          <div className="space-y-3 pt-2 border-t">
+            <div className="space-y-1">
+              {Object.keys(estimate.requiredViews).map((bucket) => (
+                <div key={bucket} className="flex justify-between text-sm">
+                  <span className="font-medium">
+                    {bucket.charAt(0).toUpperCase() + bucket.slice(1)}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {estimate.currentViews
+                      ? `${formatNumber(estimate.currentViews[bucket] || 0)} / `
+                      : ''}
+                    {formatNumber(estimate.requiredViews[bucket])} views
+                  </span>
+                </div>
+              ))}
+            </div>
+            <p className="text-sm">
+              <span className="font-medium">Total required:</span>{' '}
+              {formatNumber(estimate.totalRequiredViews)} views
+            </p>
+            {estimate.remainingDays !== null && estimate.dailyViews !== null ? (
+              <p className="text-sm">
+                <span className="font-medium">Estimated time remaining:</span>{' '}
+                {estimate.remainingDays === 0
+                  ? 'Sample size reached'
+                  : `${estimate.remainingDays} day${estimate.remainingDays !== 1 ? 's' : ''} at ~${formatNumber(Math.round(estimate.dailyViews))} views/day`}
+                {estimate.remainingDays > 0 && estimate.estimatedCompletionAt && (
+                  <span className="text-muted-foreground"> (around {formatDate(estimate.estimatedCompletionAt)})</span>
+                )}
+              </p>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Duration estimate will appear once the test has traffic.
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Activity } from 'lucide-react';
+import { cn, formatPercentage, formatRelativeTime } from '@/lib/utils';
+import type { SequentialAnalysis } from '@/types/Test';
+
+interface SequentialAnalysisCardProps {
+  analysis: SequentialAnalysis;
+}
+
+export function SequentialAnalysisCard({ analysis }: SequentialAnalysisCardProps) {
+  const { recommendation } = analysis;
+  const stop = recommendation.action === 'stop';
+
+  return (
+    <Card className={cn(stop ? 'border-green-500 bg-green-50 dark:bg-green-950' : 'border-border')}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Activity className="w-5 h-5" />
+          Sequential Analysis: {stop ? 'Stop now' : 'Keep running'}
+        </CardTitle>
+        <CardDescription>{recommendation.reason}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {Object.keys(analysis.variants).map((variantId) => {
+          const result = analysis.variants[variantId];
+          return (
+            <div key={variantId} className="flex items-center justify-between text-sm">
+              <span className="font-medium">
+                {variantId.charAt(0).toUpperCase() + variantId.slice(1)}
+              </span>
+              <span className="text-muted-foreground">
+                p = {result.alwaysValidPValue.toFixed(4)}
+                {result.confidenceSequence && (
+                  <>
+                    {' '}· difference {formatPercentage(result.confidenceSequence[0], 2)} to{' '}
+                    {formatPercentage(result.confidenceSequence[1], 2)}
+                  </>
+                )}
+                {!result.confidenceSequence && ' · waiting for enough conversions'}
+              </span>
+            </div>
+          );
+        })}
+        <p className="text-xs text-muted-foreground pt-2 border-t">
+          {analysis.snapshotCount} sync snapshot{analysis.snapshotCount !== 1 ? 's' : ''} recorded
+          {analysis.lastSnapshotAt && `, latest ${formatRelativeTime(analysis.lastSnapshotAt)}`}.
+          Always-valid at {Math.round((1 - analysis.alpha) * 100)}% confidence, no matter how often you check.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
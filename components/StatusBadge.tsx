@@ -0,0 +1,31 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import type { TestStatus } from '@/types/Test';
+
+interface StatusBadgeProps {
+  status: TestStatus;
+  className?: string;
+}
+
+const statusStyles: Record<TestStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-200',
+  running: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  paused: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  concluded: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  archived: 'bg-gray-200 text-gray-500 dark:bg-gray-700 dark:text-gray-400',
+};
+
+export function StatusBadge({ status, className }: StatusBadgeProps) {
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize',
+        statusStyles[status],
+        className
+      )}
+    >
+      {status}
+    </span>
+  );
+}
@@ -0,0 +1,107 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { NativeSelect } from '@/components/ui/native-select';
+import { Plus, X } from 'lucide-react';
+import { TARGETING_ATTRIBUTES } from '@/lib/targeting';
+import type { TargetingAttribute, TargetingOperator } from '@/types/Test';
+
+// Values are edited as comma-separated text and normalized on submit
+export interface TargetingRuleDraft {
+  attribute: TargetingAttribute;
+  operator: TargetingOperator;
+  values: string;
+}
+
+interface TargetingRuleBuilderProps {
+  rules: TargetingRuleDraft[];
+  onChange: (rules: TargetingRuleDraft[]) => void;
+}
+
+export function TargetingRuleBuilder({ rules, onChange }: TargetingRuleBuilderProps) {
+  const addRule = () => {
+    onChange([...rules, { attribute: 'country', operator: 'is', values: '' }]);
+  };
+
+  const removeRule = (index: number) => {
+    onChange(rules.filter((_, i) => i !== index));
+  };
+
+  const updateRule = (index: number, update: Partial<TargetingRuleDraft>) => {
+    const updated = [...rules];
+    updated[index] = { ...updated[index], ...update };
+    onChange(updated);
+  };
+
+  return (
+    <div className="space-y-3">
+      {rules.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No rules: every visitor to the entry URL is enrolled.
+        </p>
+      )}
+
+      {rules.map((rule, index) => {
+        const attribute = TARGETING_ATTRIBUTES[rule.attribute];
+
+        return (
+          <div key={index} className="flex flex-col md:flex-row gap-2 md:items-center">
+            {index > 0 && <span className="text-xs font-medium text-muted-foreground md:w-8">AND</span>}
+            <NativeSelect
+              value={rule.attribute}
+              onChange={(e) => updateRule(index, { attribute: e.target.value as TargetingAttribute, values: '' })}
+              className="md:w-44"
+              aria-label="Attribute"
+            >
+              {(Object.keys(TARGETING_ATTRIBUTES) as TargetingAttribute[]).map((key) => (
+                <option key={key} value={key}>{TARGETING_ATTRIBUTES[key].label}</option>
+              ))}
+            </NativeSelect>
+            <NativeSelect
+              value={rule.operator}
+              onChange={(e) => updateRule(index, { operator: e.target.value as TargetingOperator })}
+              className="md:w-28"
+              aria-label="Operator"
+            >
+              <option value="is">is</option>
+              <option value="is_not">is not</option>
+            </NativeSelect>
+            {attribute.allowedValues ? (
+              <NativeSelect
+                value={rule.values}
+                onChange={(e) => updateRule(index, { values: e.target.value })}
+                aria-label="Value"
+              >
+                <option value="">Select...</option>
+                {attribute.allowedValues.map((value) => (
+                  <option key={value} value={value}>{value}</option>
+                ))}
+              </NativeSelect>
+            ) : (
+              <Input
+                value={rule.values}
+                onChange={(e) => updateRule(index, { values: e.target.value })}
+                placeholder={attribute.placeholder}
+                aria-label="Values"
+              />
+            )}
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => removeRule(index)}
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        );
+      })}
+
+      <Button type="button" variant="outline" size="sm" onClick={addRule}>
+        <Plus className="w-4 h-4 mr-2" />
+        Add Rule
+      </Button>
+    </div>
+  );
+}
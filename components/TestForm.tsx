@@ -1,12 +1,22 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { NativeSelect } from '@/components/ui/native-select';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Plus, X } from 'lucide-react';
-import type { CreateTestRequest } from '@/types/Test';
+import { TargetingRuleBuilder, type TargetingRuleDraft } from '@/components/TargetingRuleBuilder';
+import { FactorBuilder, type FactorDraft } from '@/components/FactorBuilder';
+import { FunnelStepBuilder } from '@/components/FunnelStepBuilder';
+import { GuardrailBuilder, type GuardrailDraft } from '@/components/GuardrailBuilder';
+import { DEFAULT_PARAM_ALLOWLIST } from '@/lib/params';
+import { normalizeTargetingValues } from '@/lib/targeting';
+import { applyMultivariateArms, validateMultivariate, MAX_COMBINATIONS } from '@/lib/multivariate';
+import { validateFunnelSteps } from '@/lib/funnel';
+import { validateGuardrails } from '@/lib/guardrails';
+import type { CreateTestRequest, AnalysisMode, CountingMode, DeliveryMode, ParamForwardingMode, BucketingMode, LayerSummary, TestType, MultivariateConfig, MultivariateUrlMode } from '@/types/Test';
 
 interface TestFormProps {
   onSuccess?: (testId: string, fullResponse?: any) => void;
@@ -20,6 +30,17 @@ interface Variant {
   percentage: number;
 }
 
+// <input type="datetime-local"> works in local time without a timezone suffix
+function toLocalInputValue(timestamp?: number): string {
+  if (!timestamp) return '';
+  const date = new Date(timestamp);
+  return new Date(timestamp - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+function fromLocalInputValue(value: string): number | undefined {
+  return value ? new Date(value).getTime() : undefined;
+}
+
 export function TestForm({ onSuccess, onSubmit, initialData, submitLabel = 'Create Test' }: TestFormProps) {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -31,7 +52,66 @@ export function TestForm({ onSuccess, onSubmit, initialData, submitLabel = 'Crea
   const [variants, setVariants] = useState<Variant[]>(
     initialData?.variants || [{ url: '', percentage: 50 }]
   );
+  const [testType, setTestType] = useState<TestType>(initialData?.type || 'ab');
+  const [factors, setFactors] = useState<FactorDraft[]>(
+    initialData?.multivariate?.factors.map(factor => ({ ...factor, levels: factor.levels.join(', ') })) ||
+      [{ key: '', name: '', levels: '' }, { key: '', name: '', levels: '' }]
+  );
+  const [multivariateUrlMode, setMultivariateUrlMode] = useState<MultivariateUrlMode>(initialData?.multivariate?.urlMode || 'params');
+  const [multivariateBaseUrl, setMultivariateBaseUrl] = useState(initialData?.multivariate?.baseUrl || '');
   const [autoOptimize, setAutoOptimize] = useState(initialData?.autoOptimize || false);
+  const [analysisMode, setAnalysisMode] = useState<AnalysisMode>(initialData?.analysisMode || 'fixed');
+  const [countingMode, setCountingMode] = useState<CountingMode>(initialData?.countingMode || 'ga4');
+  const [deliveryMode, setDeliveryMode] = useState<DeliveryMode>(initialData?.deliveryMode || 'redirect');
+  const [paramMode, setParamMode] = useState<ParamForwardingMode>(initialData?.paramForwarding?.mode || 'all');
+  const [paramAllowlist, setParamAllowlist] = useState(
+    (initialData?.paramForwarding?.allowlist || DEFAULT_PARAM_ALLOWLIST).join(', ')
+  );
+  const [bucketingMode, setBucketingMode] = useState<BucketingMode>(initialData?.bucketing?.mode || 'random');
+  const [visitorIdHeader, setVisitorIdHeader] = useState(initialData?.bucketing?.visitorIdHeader || '');
+  const [targetingRules, setTargetingRules] = useState<TargetingRuleDraft[]>(
+    (initialData?.targeting || []).map(rule => ({ ...rule, values: rule.values.join(', ') }))
+  );
+  const [layers, setLayers] = useState<LayerSummary[]>([]);
+  const [funnelSteps, setFunnelSteps] = useState<string[]>(
+    (initialData?.funnelSteps || []).map(step => step.name)
+  );
+  const [trackRevenue, setTrackRevenue] = useState(!!initialData?.revenue);
+  const [currency, setCurrency] = useState(initialData?.revenue?.currency || 'USD');
+  const [guardrails, setGuardrails] = useState<GuardrailDraft[]>(initialData?.guardrails || []);
+  const [guardrailAutoPause, setGuardrailAutoPause] = useState(initialData?.guardrailAutoPause || false);
+  const [layerId, setLayerId] = useState(initialData?.layer?.layerId || '');
+  const [layerPercentage, setLayerPercentage] = useState(initialData?.layer?.percentage || 50);
+  const [startAt, setStartAt] = useState(toLocalInputValue(initialData?.startAt));
+  const [endAt, setEndAt] = useState(toLocalInputValue(initialData?.endAt));
+
+  useEffect(() => {
+    fetch('/api/layers', { cache: 'no-store' })
+      .then((response) => response.json())
+      .then((data) => setLayers(data.layers || []))
+      .catch((err) => console.error('Error loading layers:', err));
+  }, []);
+
+  // Capacity this test can use, counting its own slice when editing
+  const getLayerCapacity = (layer: LayerSummary) =>
+    layer.remaining + (initialData?.layer?.layerId === layer.id ? initialData.layer.percentage : 0);
+
+  const selectedLayer = layers.find((layer) => layer.id === layerId);
+
+  const multivariateConfig: MultivariateConfig = {
+    factors: factors.map(factor => ({
+      key: factor.key.trim(),
+      name: factor.name.trim() || factor.key.trim(),
+      levels: factor.levels.split(',').map(level => level.trim()).filter(Boolean),
+    })),
+    urlMode: multivariateUrlMode,
+    baseUrl: multivariateBaseUrl.trim(),
+  };
+  const multivariateErrors = testType === 'multivariate' ? validateMultivariate(multivariateConfig) : [];
+  const funnelStepNames = funnelSteps.map(step => step.trim()).filter(Boolean);
+  const funnelErrors = validateFunnelSteps(funnelStepNames.map(name => ({ name })));
+  const guardrailErrors = validateGuardrails(guardrails);
+  const combinationCount = multivariateConfig.factors.reduce((count, factor) => count * factor.levels.length, 1);
 
   const addVariant = () => {
     setVariants([...variants, { url: '', percentage: 0 }]);
@@ -50,21 +130,48 @@ export function TestForm({ onSuccess, onSubmit, initialData, submitLabel = 'Crea
   const handleSubmit = async (e: React.FormEvent) => {
     console.log('=== FORM SUBMISSION STARTED ===');
     console.log('Event:', e);
-    console.log('Form data:', { name, entryPath, controlUrl, controlPercentage, variants, autoOptimize });
+    console.log('Form data:', { name, entryPath, controlUrl, controlPercentage, variants, autoOptimize, analysisMode });
     
     e.preventDefault();
     setLoading(true);
     setError(null);
 
     try {
-      const data: CreateTestRequest = {
+      let data: CreateTestRequest = {
         name,
         entryPath,
         controlUrl,
         controlPercentage,
         variants: variants.filter(v => v.url.trim() !== ''),
         autoOptimize,
+        analysisMode,
+        countingMode,
+        deliveryMode,
+        paramForwarding: paramMode === 'allowlist'
+          ? { mode: paramMode, allowlist: paramAllowlist.split(',').map(p => p.trim()).filter(Boolean) }
+          : { mode: paramMode },
+        bucketing: {
+          mode: bucketingMode,
+          salt: initialData?.bucketing?.salt,
+          visitorIdHeader: visitorIdHeader.trim() || undefined,
+        },
+        targeting: targetingRules.map(rule => ({
+          attribute: rule.attribute,
+          operator: rule.operator,
+          values: normalizeTargetingValues(rule.attribute, rule.values.split(',')),
+        })),
+        funnelSteps: funnelStepNames.map(name => ({ name })),
+        revenue: trackRevenue ? { currency: currency.trim().toUpperCase() } : undefined,
+        guardrails,
+        guardrailAutoPause,
+        layer: layerId ? { layerId, percentage: layerPercentage } : undefined,
+        startAt: fromLocalInputValue(startAt),
+        endAt: fromLocalInputValue(endAt),
       };
+      if (testType === 'multivariate') {
+        // Control and variants come from the factors (the server regenerates them the same way)
+        data = applyMultivariateArms({ ...data, type: 'multivariate', multivariate: multivariateConfig });
+      }
 
       // Use custom onSubmit handler if provided (for edit mode)
       if (onSubmit) {
@@ -88,7 +195,7 @@ export function TestForm({ onSuccess, onSubmit, initialData, submitLabel = 'Crea
       console.log('Response data:', result);
 
       if (!response.ok) {
-        throw new Error(result.error || 'Failed to create test');
+        throw new Error(result.errors?.join(', ') || result.error || 'Failed to create test');
       }
 
       console.log('Test created successfully, calling onSuccess with testId:', result.testId);
@@ -107,6 +214,8 @@ export function TestForm({ onSuccess, onSubmit, initialData, submitLabel = 'Crea
   };
 
   const totalPercentage = controlPercentage + variants.reduce((sum, v) => sum + v.percentage, 0);
+  // Multivariate tests split traffic evenly across combinations, so only A/B splits need checking
+  const invalidSplit = testType === 'ab' && Math.abs(totalPercentage - 100) > 0.01;
 
   return (
     <Card className="w-full max-w-3xl mx-auto">
@@ -147,93 +256,147 @@ export function TestForm({ onSuccess, onSubmit, initialData, submitLabel = 'Crea
             </p>
           </div>
 
-          {/* Control URL */}
+          {/* Test Type */}
           <div className="space-y-2">
-            <Label htmlFor="controlUrl">Control URL</Label>
-            <Input
-              id="controlUrl"
-              value={controlUrl}
-              onChange={(e) => setControlUrl(e.target.value)}
-              placeholder="https://go.example.com/pageA"
-              required
-            />
-            <div className="flex items-center gap-4">
-              <Label htmlFor="controlPercentage" className="text-sm">
-                Traffic %
-              </Label>
+            <Label htmlFor="testType">Test Type</Label>
+            <NativeSelect
+              id="testType"
+              value={testType}
+              onChange={(e) => setTestType(e.target.value as TestType)}
+            >
+              <option value="ab">A/B (control and variant URLs)</option>
+              <option value="multivariate">Multivariate (every combination of several factors)</option>
+            </NativeSelect>
+          </div>
+
+          {testType === 'ab' ? (
+            <>
+            {/* Control URL */}
+            <div className="space-y-2">
+              <Label htmlFor="controlUrl">Control URL</Label>
               <Input
-                id="controlPercentage"
-                type="number"
-                min="0"
-                max="100"
-                value={controlPercentage}
-                onChange={(e) => setControlPercentage(Number(e.target.value))}
-                className="w-24"
+                id="controlUrl"
+                value={controlUrl}
+                onChange={(e) => setControlUrl(e.target.value)}
+                placeholder="https://go.example.com/pageA"
+                required
               />
+              <div className="flex items-center gap-4">
+                <Label htmlFor="controlPercentage" className="text-sm">
+                  Traffic %
+                </Label>
+                <Input
+                  id="controlPercentage"
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={controlPercentage}
+                  onChange={(e) => setControlPercentage(Number(e.target.value))}
+                  className="w-24"
+                />
+              </div>
             </div>
-          </div>
 
-          {/* Variants */}
-          <div className="space-y-4">
-            <div className="flex items-center justify-between">
-              <Label>Variants</Label>
-              <Button
-                type="button"
-                variant="outline"
-                size="sm"
-                onClick={addVariant}
-              >
-                <Plus className="w-4 h-4 mr-2" />
-                Add Variant
-              </Button>
-            </div>
+            {/* Variants */}
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <Label>Variants</Label>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={addVariant}
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Variant
+                </Button>
+              </div>
 
-            {variants.map((variant, index) => (
-              <div key={index} className="flex gap-2 items-end">
-                <div className="flex-1 space-y-2">
-                  <Input
-                    value={variant.url}
-                    onChange={(e) => updateVariant(index, 'url', e.target.value)}
-                    placeholder="https://training.example.com/"
-                    required
-                  />
-                </div>
-                <div className="w-24 space-y-2">
-                  <Input
-                    type="number"
-                    min="0"
-                    max="100"
-                    value={variant.percentage}
-                    onChange={(e) => updateVariant(index, 'percentage', Number(e.target.value))}
-                  />
+              {variants.map((variant, index) => (
+                <div key={index} className="flex gap-2 items-end">
+                  <div className="flex-1 space-y-2">
+                    <Input
+                      value={variant.url}
+                      onChange={(e) => updateVariant(index, 'url', e.target.value)}
+                      placeholder="https://training.example.com/"
+                      required
+                    />
+                  </div>
+                  <div className="w-24 space-y-2">
+                    <Input
+                      type="number"
+                      min="0"
+                      max="100"
+                      value={variant.percentage}
+                      onChange={(e) => updateVariant(index, 'percentage', Number(e.target.value))}
+                    />
+                  </div>
+                  {variants.length > 1 && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeVariant(index)}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  )}
                 </div>
-                {variants.length > 1 && (
-                  <Button
-                    type="button"
-                    variant="ghost"
-                    size="icon"
-                    onClick={() => removeVariant(index)}
-                  >
-                    <X className="w-4 h-4" />
-                  </Button>
+              ))}
+
+              <div className="text-sm font-medium">
+                Total: <span className={Math.abs(totalPercentage - 100) <= 0.01 ? 'text-green-600' : 'text-destructive'}>{totalPercentage}%</span>
+                {Math.abs(totalPercentage - 100) > 0.01 && (
+                  <span className="text-destructive ml-2 font-bold">
+                    ⚠️ Must equal 100% to submit
+                  </span>
+                )}
+                {Math.abs(totalPercentage - 100) <= 0.01 && (
+                  <span className="text-green-600 ml-2">
+                    ✓ Ready to submit
+                  </span>
                 )}
               </div>
-            ))}
-
-            <div className="text-sm font-medium">
-              Total: <span className={Math.abs(totalPercentage - 100) <= 0.01 ? 'text-green-600' : 'text-destructive'}>{totalPercentage}%</span>
-              {Math.abs(totalPercentage - 100) > 0.01 && (
-                <span className="text-destructive ml-2 font-bold">
-                  ⚠️ Must equal 100% to submit
-                </span>
-              )}
-              {Math.abs(totalPercentage - 100) <= 0.01 && (
-                <span className="text-green-600 ml-2">
-                  ✓ Ready to submit
-                </span>
-              )}
             </div>
-          </div>
+            </>
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="multivariateUrlMode">Combination URLs</Label>
+                <NativeSelect
+                  id="multivariateUrlMode"
+                  value={multivariateUrlMode}
+                  onChange={(e) => setMultivariateUrlMode(e.target.value as MultivariateUrlMode)}
+                >
+                  <option value="params">Add levels as query parameters (?headline=bold&amp;price=49)</option>
+                  <option value="template">Fill {'{parameter}'} placeholders in a URL template</option>
+                </NativeSelect>
+                <Input
+                  id="multivariateBaseUrl"
+                  value={multivariateBaseUrl}
+                  onChange={(e) => setMultivariateBaseUrl(e.target.value)}
+                  placeholder={multivariateUrlMode === 'template'
+                    ? 'https://go.example.com/{headline}/{price}'
+                    : 'https://go.example.com/landing'}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Factors</Label>
+                <p className="text-sm text-muted-foreground">
+                  Name, URL parameter and comma-separated levels. The first level of each factor is the baseline, and the all-baseline combination is control.
+                </p>
+                <FactorBuilder factors={factors} onChange={setFactors} />
+              </div>
+
+              <p className={`text-sm ${multivariateErrors.length > 0 ? 'text-destructive' : 'text-muted-foreground'}`}>
+                {multivariateErrors.length > 0
+                  ? multivariateErrors.join('. ')
+                  : `${combinationCount} combinations (max ${MAX_COMBINATIONS}), each getting ${(100 / combinationCount).toFixed(2)}% of traffic.`}
+              </p>
+            </div>
+          )}
 
           {/* Optimization Settings */}
           <div className="space-y-4 pt-4 border-t">
@@ -256,11 +419,285 @@ export function TestForm({ onSuccess, onSubmit, initialData, submitLabel = 'Crea
                   {autoOptimize && (
                     <span className="block mt-1 text-primary font-medium">
                       Traffic percentages will be ignored - allocation is dynamic based on performance.
+                      {testType === 'multivariate' && ' Unequal traffic across combinations biases the factor analysis.'}
                     </span>
                   )}
                 </p>
               </div>
             </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="bucketingMode">Visitor Assignment</Label>
+              <NativeSelect
+                id="bucketingMode"
+                value={bucketingMode}
+                onChange={(e) => setBucketingMode(e.target.value as BucketingMode)}
+              >
+                <option value="random">Random (sticky via bucket cookie)</option>
+                <option value="deterministic">Deterministic (hash of a stable visitor ID)</option>
+              </NativeSelect>
+              {bucketingMode === 'deterministic' && (
+                <Input
+                  id="visitorIdHeader"
+                  value={visitorIdHeader}
+                  onChange={(e) => setVisitorIdHeader(e.target.value)}
+                  placeholder="Visitor ID header (optional, e.g. X-User-Id)"
+                />
+              )}
+              <p className="text-sm text-muted-foreground">
+                {bucketingMode === 'deterministic'
+                  ? 'The same visitor always lands in the same arm, even after clearing cookies, when the ID comes from a header your edge sets. Otherwise a first-party ID cookie is used.'
+                  : 'Each new visitor is assigned at random and kept in their arm by a cookie.'}
+                {autoOptimize && ' Thompson Sampling only uses this while it gathers initial data.'}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="analysisMode">Statistical Analysis</Label>
+              <NativeSelect
+                id="analysisMode"
+                value={analysisMode}
+                onChange={(e) => setAnalysisMode(e.target.value as AnalysisMode)}
+              >
+                <option value="fixed">Fixed horizon (decide once, at the planned sample size)</option>
+                <option value="sequential">Sequential (safe to check results at any time)</option>
+              </NativeSelect>
+              <p className="text-sm text-muted-foreground">
+                {analysisMode === 'sequential'
+                  ? 'Every sync is recorded and always-valid p-values are used, so peeking at the dashboard does not inflate false positives.'
+                  : 'Classic significance test. Only trust the result once the planned sample size is reached.'}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="deliveryMode">Delivery</Label>
+              <NativeSelect
+                id="deliveryMode"
+                value={deliveryMode}
+                onChange={(e) => setDeliveryMode(e.target.value as DeliveryMode)}
+              >
+                <option value="redirect">302 redirect to the variant URL</option>
+                <option value="proxy">Reverse proxy (serve the variant under the entry URL)</option>
+              </NativeSelect>
+              <p className="text-sm text-muted-foreground">
+                {deliveryMode === 'proxy'
+                  ? 'The Worker fetches the variant page and streams it back, so visitors and search engines only ever see the entry URL. Relative links are rewritten to the variant origin.'
+                  : 'Visitors are redirected, so the variant URL is visible in the address bar and costs an extra round trip.'}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="paramMode">Query Parameter Forwarding</Label>
+              <NativeSelect
+                id="paramMode"
+                value={paramMode}
+                onChange={(e) => setParamMode(e.target.value as ParamForwardingMode)}
+              >
+                <option value="all">Forward all parameters</option>
+                <option value="allowlist">Forward only allowed parameters</option>
+                <option value="none">Drop all parameters</option>
+              </NativeSelect>
+              {paramMode === 'allowlist' && (
+                <Input
+                  id="paramAllowlist"
+                  value={paramAllowlist}
+                  onChange={(e) => setParamAllowlist(e.target.value)}
+                  placeholder="utm_*, gclid, fbclid"
+                />
+              )}
+              <p className="text-sm text-muted-foreground">
+                Carries UTM tags and click IDs (gclid, fbclid, ...) from the entry URL to the destination so ad attribution keeps working.
+                {paramMode === 'allowlist' && ' Comma-separated; a trailing * matches by prefix.'}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="countingMode">Event Counting</Label>
+              <NativeSelect
+                id="countingMode"
+                value={countingMode}
+                onChange={(e) => setCountingMode(e.target.value as CountingMode)}
+              >
+                <option value="ga4">Google Analytics 4</option>
+                <option value="edge">Edge (counted by the Worker)</option>
+              </NativeSelect>
+              <p className="text-sm text-muted-foreground">
+                {countingMode === 'edge'
+                  ? 'The Worker counts views itself and the tracking snippet reports conversions to it directly. Real-time, unsampled, and GA4 becomes optional.'
+                  : 'Views and conversions are read from GA4, which can lag and may be sampled or thresholded.'}
+              </p>
+            </div>
+          </div>
+
+          {/* Revenue */}
+          <div className="space-y-4 pt-4 border-t">
+            <div className="flex items-start space-x-3">
+              <input
+                type="checkbox"
+                id="trackRevenue"
+                checked={trackRevenue}
+                onChange={(e) => setTrackRevenue(e.target.checked)}
+                className="mt-1 h-4 w-4 rounded border-gray-300"
+              />
+              <div className="flex-1">
+                <Label htmlFor="trackRevenue" className="cursor-pointer">
+                  Track Revenue
+                </Label>
+                <p className="text-sm text-muted-foreground mt-1">
+                  Conversions carry the order value, and the dashboard compares revenue per visitor and average order value, not just conversion rate.
+                  {trackRevenue && countingMode === 'ga4' && ' Requires a value_squared custom metric in GA4 (see the setup instructions).'}
+                </p>
+              </div>
+            </div>
+            {trackRevenue && (
+              <div className="space-y-2 md:w-48">
+                <Label htmlFor="currency">Currency</Label>
+                <Input
+                  id="currency"
+                  value={currency}
+                  onChange={(e) => setCurrency(e.target.value)}
+                  placeholder="USD"
+                  maxLength={3}
+                />
+              </div>
+            )}
+          </div>
+
+          {/* Targeting */}
+          <div className="space-y-4 pt-4 border-t">
+            <div>
+              <h3 className="font-semibold">Audience Targeting (optional)</h3>
+              <p className="text-sm text-muted-foreground mt-1">
+                Only visitors matching every rule are enrolled. Everyone else is sent to control and not counted.
+              </p>
+            </div>
+            <TargetingRuleBuilder rules={targetingRules} onChange={setTargetingRules} />
+          </div>
+
+          {/* Funnel */}
+          <div className="space-y-4 pt-4 border-t">
+            <div>
+              <h3 className="font-semibold">Funnel Steps (optional)</h3>
+              <p className="text-sm text-muted-foreground mt-1">
+                Events after the view, in order, such as opt-in, webinar attendance and purchase. Each step gets its own tracking snippet and the dashboard shows where every arm drops off. Renaming a step starts its count over.
+              </p>
+            </div>
+            <FunnelStepBuilder steps={funnelSteps} onChange={setFunnelSteps} />
+            {funnelErrors.length > 0 && (
+              <p className="text-sm text-destructive">{funnelErrors.join('. ')}</p>
+            )}
+          </div>
+
+          {/* Guardrails */}
+          <div className="space-y-4 pt-4 border-t">
+            <div>
+              <h3 className="font-semibold">Guardrails (optional)</h3>
+              <p className="text-sm text-muted-foreground mt-1">
+                Events a winning variant must not make worse, such as refund requests or unsubscribes. Every sync flags the test when a variant is significantly worse than control by more than the tolerance.
+              </p>
+            </div>
+            <GuardrailBuilder guardrails={guardrails} onChange={setGuardrails} />
+            {guardrailErrors.length > 0 && (
+              <p className="text-sm text-destructive">{guardrailErrors.join('. ')}</p>
+            )}
+            {guardrails.length > 0 && (
+              <div className="flex items-center space-x-3">
+                <input
+                  type="checkbox"
+                  id="guardrailAutoPause"
+                  checked={guardrailAutoPause}
+                  onChange={(e) => setGuardrailAutoPause(e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300"
+                />
+                <Label htmlFor="guardrailAutoPause" className="cursor-pointer">
+                  Pause the test automatically when a guardrail is breached
+                </Label>
+              </div>
+            )}
+          </div>
+
+          {/* Layer */}
+          <div className="space-y-4 pt-4 border-t">
+            <div>
+              <h3 className="font-semibold">Experiment Layer (optional)</h3>
+              <p className="text-sm text-muted-foreground mt-1">
+                Tests in the same layer never share a visitor. Each one enrolls its own share of the layer&apos;s traffic and everyone else is sent to control.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="layerId">Layer</Label>
+                <NativeSelect
+                  id="layerId"
+                  value={layerId}
+                  onChange={(e) => setLayerId(e.target.value)}
+                >
+                  <option value="">No layer</option>
+                  {layers.map((layer) => (
+                    <option key={layer.id} value={layer.id}>
+                      {layer.name} ({getLayerCapacity(layer)}% free)
+                    </option>
+                  ))}
+                </NativeSelect>
+              </div>
+              {layerId && (
+                <div className="space-y-2">
+                  <Label htmlFor="layerPercentage">Share of layer traffic %</Label>
+                  <Input
+                    id="layerPercentage"
+                    type="number"
+                    min="1"
+                    max="100"
+                    value={layerPercentage}
+                    onChange={(e) => setLayerPercentage(Number(e.target.value))}
+                  />
+                </div>
+              )}
+            </div>
+            {selectedLayer && (
+              <p className={`text-sm ${layerPercentage > getLayerCapacity(selectedLayer) ? 'text-destructive' : 'text-muted-foreground'}`}>
+                {getLayerCapacity(selectedLayer)}% of {selectedLayer.name} is still free
+                {selectedLayer.tests.length > 0 && ` (used by ${selectedLayer.tests.map((test) => test.name).join(', ')})`}.
+              </p>
+            )}
+            {layers.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                No layers yet. Create one under Experiment Layers on the home page.
+              </p>
+            )}
+          </div>
+
+          {/* Schedule */}
+          <div className="space-y-4 pt-4 border-t">
+            <div>
+              <h3 className="font-semibold">Schedule (optional)</h3>
+              <p className="text-sm text-muted-foreground mt-1">
+                The test starts and concludes automatically at these times. Outside the window every visitor is sent to control.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="startAt">Start</Label>
+                <Input
+                  id="startAt"
+                  type="datetime-local"
+                  value={startAt}
+                  onChange={(e) => setStartAt(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="endAt">End</Label>
+                <Input
+                  id="endAt"
+                  type="datetime-local"
+                  value={endAt}
+                  min={startAt || undefined}
+                  onChange={(e) => setEndAt(e.target.value)}
+                />
+              </div>
+            </div>
           </div>
 
           {error && (
@@ -272,9 +709,9 @@ export function TestForm({ onSuccess, onSubmit, initialData, submitLabel = 'Crea
           <Button 
             type="submit" 
             className="w-full" 
-            disabled={loading || Math.abs(totalPercentage - 100) > 0.01}
+            disabled={loading || invalidSplit || multivariateErrors.length > 0 || funnelErrors.length > 0 || guardrailErrors.length > 0}
             onClick={() => {
-              if (Math.abs(totalPercentage - 100) > 0.01) {
+              if (invalidSplit) {
                 console.log('Button disabled - percentages must equal 100%. Current total:', totalPercentage);
                 alert(`Button is disabled. Percentages must equal 100%. Current total: ${totalPercentage}%`);
               }
@@ -0,0 +1,133 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { NativeSelect } from '@/components/ui/native-select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Play, Pause, Flag, Archive } from 'lucide-react';
+import { StatusBadge } from '@/components/StatusBadge';
+import { getTestStatus, getAvailableActions, type LifecycleAction } from '@/lib/lifecycle';
+import { formatDate, formatRelativeTime } from '@/lib/utils';
+import type { Test } from '@/types/Test';
+
+interface TestStatusControlsProps {
+  test: Test;
+  suggestedWinner?: string | null;
+  onChange: (test: Test) => void;
+}
+
+const statusDescriptions = {
+  draft: 'Not live yet. The Worker sends every visitor to control until you start the test.',
+  running: 'Visitors are being bucketed and tracked.',
+  paused: 'Everyone is sent to control and no new visitors are bucketed.',
+  concluded: 'Everyone is sent to the declared winner.',
+  archived: 'Everyone is sent to control and stats are no longer synced.',
+};
+
+export function TestStatusControls({ test, suggestedWinner, onChange }: TestStatusControlsProps) {
+  const status = getTestStatus(test);
+  const actions = getAvailableActions(test);
+  const buckets = ['control', ...test.variants.map((v) => v.id)];
+
+  const [winner, setWinner] = useState(suggestedWinner || 'control');
+  const [pending, setPending] = useState<LifecycleAction | null>(null);
+
+  const runAction = async (action: LifecycleAction) => {
+    if (action === 'archive' && !confirm('Archive this test? Visitors will be sent to control.')) {
+      return;
+    }
+
+    setPending(action);
+    try {
+      const response = await fetch(`/api/tests/${test.id}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(action === 'conclude' ? { winner } : {}),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.errors?.join(', ') || data.error || `Failed to ${action} test`);
+      }
+
+      onChange(data.test);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : `Failed to ${action} test`);
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          Test Status
+          <StatusBadge status={status} />
+        </CardTitle>
+        <CardDescription>
+          {statusDescriptions[status]}
+          {status === 'concluded' && test.concludedWinner && (
+            <> Winner: <strong>{test.concludedWinner}</strong>.</>
+          )}
+          {(test.startAt || test.endAt) && (
+            <span className="block text-xs mt-1">
+              Scheduled
+              {test.startAt && <> from {formatDate(test.startAt)}</>}
+              {test.endAt && <> until {formatDate(test.endAt)}</>}
+            </span>
+          )}
+          {test.statusChangedAt && (
+            <span className="block text-xs mt-1">
+              Changed {formatRelativeTime(test.statusChangedAt)}
+            </span>
+          )}
+        </CardDescription>
+      </CardHeader>
+      {actions.length > 0 && (
+        <CardContent>
+          <div className="flex flex-wrap items-center gap-2">
+            {actions.includes('start') && (
+              <Button onClick={() => runAction('start')} disabled={pending !== null}>
+                <Play className="w-4 h-4 mr-2" />
+                {status === 'paused' ? 'Resume' : 'Start'}
+              </Button>
+            )}
+            {actions.includes('pause') && (
+              <Button variant="outline" onClick={() => runAction('pause')} disabled={pending !== null}>
+                <Pause className="w-4 h-4 mr-2" />
+                Pause
+              </Button>
+            )}
+            {actions.includes('conclude') && (
+              <div className="flex items-center gap-2">
+                <NativeSelect
+                  value={winner}
+                  onChange={(e) => setWinner(e.target.value)}
+                  className="w-40"
+                  aria-label="Winner"
+                >
+                  {buckets.map((bucket) => (
+                    <option key={bucket} value={bucket}>
+                      {bucket.charAt(0).toUpperCase() + bucket.slice(1)}
+                    </option>
+                  ))}
+                </NativeSelect>
+                <Button variant="outline" onClick={() => runAction('conclude')} disabled={pending !== null}>
+                  <Flag className="w-4 h-4 mr-2" />
+                  Conclude
+                </Button>
+              </div>
+            )}
+            {actions.includes('archive') && (
+              <Button variant="ghost" onClick={() => runAction('archive')} disabled={pending !== null}>
+                <Archive className="w-4 h-4 mr-2" />
+                Archive
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,192 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { LineChart } from 'lucide-react';
+import { wilsonInterval } from '@/lib/significance';
+import type { DailyStats } from '@/types/Test';
+
+interface TimeSeriesChartProps {
+  series: DailyStats[];
+  buckets: string[]; // Arms to plot, control first
+}
+
+interface Point {
+  date: string;
+  rate: number;
+  lower: number;
+  upper: number;
+}
+
+const COLORS = ['#2563eb', '#16a34a', '#ea580c', '#9333ea', '#db2777', '#0891b2'];
+
+const WIDTH = 800;
+const HEIGHT = 260;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 48 };
+
+/**
+ * Build daily or cumulative conversion rates (with 95% Wilson bands) for a single arm
+ */
+function buildPoints(series: DailyStats[], bucket: string, cumulative: boolean): Point[] {
+  let views = 0;
+  let conversions = 0;
+
+  return series.map((day) => {
+    const counts = day.buckets[bucket] || { views: 0, conversions: 0 };
+    views = cumulative ? views + counts.views : counts.views;
+    conversions = cumulative ? conversions + counts.conversions : counts.conversions;
+
+    const [lower, upper] = wilsonInterval(conversions, views);
+    return {
+      date: day.date,
+      rate: views > 0 ? (conversions / views) * 100 : 0,
+      lower,
+      upper,
+    };
+  });
+}
+
+export function TimeSeriesChart({ series, buckets }: TimeSeriesChartProps) {
+  const [cumulative, setCumulative] = useState(true);
+
+  const lines = buckets.map((bucket, index) => ({
+    bucket,
+    color: COLORS[index % COLORS.length],
+    points: buildPoints(series, bucket, cumulative),
+  }));
+
+  const maxRate = Math.max(
+    1,
+    ...lines.flatMap((line) => line.points.map((point) => point.upper))
+  );
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (index: number) =>
+    PADDING.left + (series.length > 1 ? (index / (series.length - 1)) * plotWidth : plotWidth / 2);
+  const y = (rate: number) => PADDING.top + plotHeight - (rate / maxRate) * plotHeight;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <LineChart className="w-5 h-5" />
+              Conversion Rate Over Time
+            </CardTitle>
+            <CardDescription>
+              Shaded bands show the 95% confidence interval for each arm
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant={cumulative ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setCumulative(true)}
+            >
+              Cumulative
+            </Button>
+            <Button
+              variant={cumulative ? 'outline' : 'default'}
+              size="sm"
+              onClick={() => setCumulative(false)}
+            >
+              Daily
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {series.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No daily data yet. Refresh the dashboard once GA4 has recorded events.
+          </p>
+        ) : (
+          <>
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+              {/* Axes */}
+              <line
+                x1={PADDING.left}
+                y1={PADDING.top + plotHeight}
+                x2={WIDTH - PADDING.right}
+                y2={PADDING.top + plotHeight}
+                stroke="currentColor"
+                strokeOpacity={0.2}
+              />
+              {[0, 0.5, 1].map((fraction) => (
+                <g key={fraction}>
+                  <line
+                    x1={PADDING.left}
+                    y1={y(maxRate * fraction)}
+                    x2={WIDTH - PADDING.right}
+                    y2={y(maxRate * fraction)}
+                    stroke="currentColor"
+                    strokeOpacity={0.08}
+                  />
+                  <text
+                    x={PADDING.left - 6}
+                    y={y(maxRate * fraction) + 4}
+                    textAnchor="end"
+                    className="fill-muted-foreground text-[10px]"
+                  >
+                    {(maxRate * fraction).toFixed(1)}%
+                  </text>
+                </g>
+              ))}
+              <text
+                x={PADDING.left}
+                y={HEIGHT - 8}
+                className="fill-muted-foreground text-[10px]"
+              >
+                {series[0].date}
+              </text>
+              <text
+                x={WIDTH - PADDING.right}
+                y={HEIGHT - 8}
+                textAnchor="end"
+                className="fill-muted-foreground text-[10px]"
+              >
+                {series[series.length - 1].date}
+              </text>
+
+              {/* Confidence bands */}
+              {lines.map((line) => (
+                <polygon
+                  key={`${line.bucket}-band`}
+                  fill={line.color}
+                  fillOpacity={0.12}
+                  points={[
+                    ...line.points.map((point, i) => `${x(i)},${y(point.upper)}`),
+                    ...line.points.map((point, i) => `${x(i)},${y(point.lower)}`).reverse(),
+                  ].join(' ')}
+                />
+              ))}
+
+              {/* Rate lines */}
+              {lines.map((line) => (
+                <polyline
+                  key={`${line.bucket}-line`}
+                  fill="none"
+                  stroke={line.color}
+                  strokeWidth={2}
+                  points={line.points.map((point, i) => `${x(i)},${y(point.rate)}`).join(' ')}
+                />
+              ))}
+            </svg>
+
+            <div className="flex flex-wrap gap-4 mt-3">
+              {lines.map((line) => (
+                <div key={line.bucket} className="flex items-center gap-2 text-sm">
+                  <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: line.color }} />
+                  {line.bucket.charAt(0).toUpperCase() + line.bucket.slice(1)}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
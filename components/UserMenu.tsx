@@ -0,0 +1,53 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+import { LogOut, User as UserIcon, Users } from 'lucide-react';
+import type { User } from '@/types/Test';
+
+export function UserMenu() {
+  const pathname = usePathname();
+  const [user, setUser] = useState<User | null>(null);
+
+  useEffect(() => {
+    if (pathname === '/login' || pathname === '/logout') {
+      setUser(null);
+      return;
+    }
+
+    fetch('/api/auth/me', { cache: 'no-store' })
+      .then((response) => {
+        // The session expired or the account was removed
+        if (response.status === 401) {
+          window.location.href = `/login?next=${encodeURIComponent(pathname)}`;
+          return null;
+        }
+        return response.json();
+      })
+      .then((data) => setUser(data?.user || null))
+      .catch((err) => console.error('Error loading user:', err));
+  }, [pathname]);
+
+  if (!user) return null;
+
+  return (
+    <div className="flex items-center gap-4 text-sm">
+      <span className="flex items-center gap-1 text-muted-foreground">
+        <UserIcon className="w-4 h-4" />
+        {user.email}
+        <span className="rounded bg-muted px-1.5 py-0.5 text-xs capitalize">{user.role}</span>
+      </span>
+      {user.role === 'admin' && (
+        <Link href="/users" className="flex items-center gap-1 hover:underline">
+          <Users className="w-4 h-4" />
+          Users
+        </Link>
+      )}
+      <Link href="/logout" className="flex items-center gap-1 hover:underline">
+        <LogOut className="w-4 h-4" />
+        Log out
+      </Link>
+    </div>
+  );
+}
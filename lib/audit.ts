@@ -0,0 +1,148 @@
+import { randomUUID } from 'crypto';
+import type { NextRequest } from 'next/server';
+import type { AuditAction, AuditChange, AuditEntry, User } from '@/types/Test';
+import { appendAuditEntry, getAuditIndex, AUDIT_INDEX_SIZE } from './kv';
+import { CRON_USER } from './auth';
+
+/**
+ * Audit trail of configuration changes
+ *
+ * Every route that changes a test, a layer, the settings, users or API keys,
+ * and every sync a person or API key triggers, appends an entry with who did it, when, through which
+ * route, and a field-by-field diff of the object before and after. Entries
+ * are never updated or deleted, so deleting a test keeps its history. The
+ * scheduled cron sync isn't recorded: at ~96 runs a day it would push real
+ * changes out of the bounded recent index.
+ */
+
+export const DEFAULT_AUDIT_LIMIT = 100;
+export const MAX_AUDIT_LIMIT = AUDIT_INDEX_SIZE;
+
+// Fields whose values must never reach the audit log, wherever they appear
+const SECRET_KEYS = ['gaApiSecret', 'privateKey', 'cfApiToken', 'apiSecret', 'passwordHash', 'keyHash'];
+const REDACTED = '[redacted]';
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Field-level differences between two values. Objects and arrays are compared
+ * key by key (arrays by index), so a changed split shows up as
+ * `variants.0.percentage: 50 -> 30` rather than a whole new variants list.
+ */
+export function diffObjects(before: unknown, after: unknown, path = ''): AuditChange[] {
+  const bothObjects = (isPlainObject(before) && isPlainObject(after)) || (Array.isArray(before) && Array.isArray(after));
+
+  if (bothObjects) {
+    const left = before as Record<string, unknown>;
+    const right = after as Record<string, unknown>;
+    const keys = Array.from(new Set([...Object.keys(left), ...Object.keys(right)]));
+
+    return keys.flatMap(key => diffObjects(left[key], right[key], path ? `${path}.${key}` : key));
+  }
+
+  if (JSON.stringify(before) === JSON.stringify(after)) return [];
+
+  const change: AuditChange = { path };
+  if (before !== undefined) change.before = before;
+  if (after !== undefined) change.after = after;
+  return [change];
+}
+
+/**
+ * Replace secret fields at any depth. A diff records a whole object when it
+ * only exists on one side (e.g. the first time a service account is saved),
+ * so matching change paths alone isn't enough.
+ */
+function redactValue(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactValue);
+  if (!isPlainObject(value)) return value;
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, inner]) => [key, SECRET_KEYS.includes(key) ? REDACTED : redactValue(inner)])
+  );
+}
+
+/**
+ * Hide secret values while keeping the fact that they changed
+ */
+export function redactSecrets(changes: AuditChange[]): AuditChange[] {
+  return changes.map(change => {
+    const secret = SECRET_KEYS.includes(change.path.split('.').pop()!);
+    const redact = (value: unknown) => (secret ? REDACTED : redactValue(value));
+
+    return {
+      path: change.path,
+      ...(change.before !== undefined && { before: redact(change.before) }),
+      ...(change.after !== undefined && { after: redact(change.after) }),
+    };
+  });
+}
+
+interface AuditRecord {
+  action: AuditAction;
+  testId?: string;
+  targetId?: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * Append an audit entry for a request. Failures are logged rather than
+ * thrown so a KV hiccup doesn't undo a change that has already been saved.
+ */
+export async function recordAudit(
+  request: NextRequest,
+  actor: User,
+  { action, testId, targetId, before, after }: AuditRecord
+): Promise<void> {
+  if (actor.id === CRON_USER.id) return;
+
+  const entry: AuditEntry = {
+    id: randomUUID(),
+    timestamp: Date.now(),
+    actor: { id: actor.id, email: actor.email },
+    action,
+    route: `${request.method} ${request.nextUrl.pathname}`,
+    testId,
+    targetId,
+  };
+
+  if (before !== undefined || after !== undefined) {
+    entry.changes = redactSecrets(diffObjects(before, after));
+  }
+
+  try {
+    await appendAuditEntry(entry);
+  } catch (error) {
+    console.error(`Error recording audit entry for ${action}:`, error);
+  }
+}
+
+interface AuditQuery {
+  testId?: string;
+  actor?: string;
+  testsOnly?: boolean; // Skip settings, user and API key entries
+  limit?: number;
+}
+
+/**
+ * Recent audit entries, newest first. `actor` matches the actor's ID or email.
+ * Filtering by test reads that test's own index, so its history reaches back
+ * MAX_AUDIT_LIMIT entries however busy the rest of the log is.
+ */
+export async function getAuditLog(
+  { testId, actor, testsOnly = false, limit = DEFAULT_AUDIT_LIMIT }: AuditQuery = {}
+): Promise<AuditEntry[]> {
+  const needle = actor?.toLowerCase();
+
+  const entries = await getAuditIndex(testId);
+
+  return entries
+    .filter(entry =>
+      (!testsOnly || !!entry.testId) &&
+      (!needle || entry.actor.id === actor || entry.actor.email.toLowerCase() === needle)
+    )
+    .slice(0, Math.min(Math.max(limit, 1), MAX_AUDIT_LIMIT));
+}
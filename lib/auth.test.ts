@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { createApiKey, listApiKeys, verifyApiKey } from './auth';
+import { getApiKey, getKVStore, saveApiKey } from './kv';
+import type { User } from '@/types/Test';
+
+const admin = { id: 'admin1', email: 'admin@example.com', role: 'admin' } as User;
+
+describe('verifyApiKey', () => {
+  it('records the last use without rewriting the key index', async () => {
+    const { apiKey, key } = await createApiKey('CI', ['sync:run'], admin);
+    const index = await getKVStore().get('api_keys_index');
+
+    expect((await verifyApiKey(key))?.id).toBe(apiKey.id);
+    expect(await getKVStore().get('api_keys_index')).toBe(index);
+
+    const [listed] = (await listApiKeys()).filter(candidate => candidate.id === apiKey.id);
+    expect(listed.lastUsedAt).toBeGreaterThan(0);
+  });
+
+  it('rejects a key once it is revoked', async () => {
+    const { apiKey, key } = await createApiKey('Deploy', ['sync:run'], admin);
+    await verifyApiKey(key);
+
+    await saveApiKey({ ...(await getApiKey(apiKey.id))!, revokedAt: Date.now() });
+    expect(await verifyApiKey(key)).toBeNull();
+    expect((await getApiKey(apiKey.id))?.revokedAt).toBeDefined();
+  });
+});
@@ -0,0 +1,378 @@
+import { createHash, randomBytes, randomUUID, scryptSync, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import type { ApiKey, ApiKeyScope, StoredApiKey, StoredUser, User, UserRole } from '@/types/Test';
+import { getUsers, getUser, saveUser, getSession, saveSession, deleteSession, getApiKeys, saveApiKey, getApiKeyLastUsed, saveApiKeyLastUsed } from './kv';
+import { verifyCronRequest } from './cron';
+import { env } from './env';
+
+/**
+ * Authentication and role-based access
+ *
+ * Users live in KV with scrypt password hashes. Signing in creates a random
+ * session token that is kept in an httpOnly cookie; KV only stores its
+ * SHA-256 hash. Every API route is wrapped in withAuth with the minimum role
+ * it needs:
+ *
+ * - viewer: read tests, stats and reports
+ * - editor: create, edit, deploy and run tests
+ * - admin:  settings and user management
+ *
+ * Scripts authenticate with an API key in `Authorization: Bearer es_...`.
+ * Keys carry scopes instead of a role; each route's role maps to the scope a
+ * key needs (see ROLE_SCOPES), and user management never accepts keys.
+ */
+
+export const SESSION_COOKIE = 'edgesplit_session';
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+export const MIN_PASSWORD_LENGTH = 10;
+export const USER_ROLES: UserRole[] = ['viewer', 'editor', 'admin'];
+
+// The scheduled sync authenticates with CRON_SECRET instead of a session
+export const CRON_USER: User = { id: 'cron', email: 'cron', role: 'editor', createdAt: 0 };
+
+const SCRYPT_KEY_LENGTH = 64;
+
+export const API_KEY_PREFIX = 'es_';
+export const API_KEY_SCOPES: ApiKeyScope[] = ['tests:read', 'tests:write', 'sync:run', 'settings:manage'];
+
+// The scope an API key needs for a route guarded by each role
+const ROLE_SCOPES: Record<UserRole, ApiKeyScope> = {
+  viewer: 'tests:read',
+  editor: 'tests:write',
+  admin: 'settings:manage',
+};
+
+// Record an API key's last use at most once per hour
+const LAST_USED_RESOLUTION_MS = 60 * 60 * 1000;
+
+/**
+ * Whether a user's role includes the required role (roles are ordered viewer < editor < admin)
+ */
+export function hasRole(user: Pick<User, 'role'>, required: UserRole): boolean {
+  return USER_ROLES.indexOf(user.role) >= USER_ROLES.indexOf(required);
+}
+
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16).toString('hex');
+  const hash = scryptSync(password, salt, SCRYPT_KEY_LENGTH).toString('hex');
+  return `scrypt$${salt}$${hash}`;
+}
+
+export function verifyPassword(password: string, passwordHash: string): boolean {
+  const [scheme, salt, hash] = passwordHash.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(password, salt, expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Compare secrets without leaking their content through timing
+ */
+export function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Public view of a stored user (never expose the password hash)
+ */
+export function toPublicUser({ id, email, role, createdAt }: StoredUser): User {
+  return { id, email, role, createdAt };
+}
+
+/**
+ * Validate new user input, returning a list of errors
+ */
+export function validateUserInput(
+  data: { email?: string; password?: string; role?: string },
+  { requirePassword = true }: { requirePassword?: boolean } = {}
+): string[] {
+  const errors: string[] = [];
+
+  if (data.email !== undefined && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(data.email)) {
+    errors.push('Email must be a valid email address');
+  }
+  if (requirePassword || data.password) {
+    if (!data.password || data.password.length < MIN_PASSWORD_LENGTH) {
+      errors.push(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+  }
+  if (data.role !== undefined && !USER_ROLES.includes(data.role as UserRole)) {
+    errors.push(`Role must be one of: ${USER_ROLES.join(', ')}`);
+  }
+
+  return errors;
+}
+
+export async function findUserByEmail(email: string): Promise<StoredUser | null> {
+  const normalized = email.trim().toLowerCase();
+  const users = await getUsers();
+  return users.find(user => user.email === normalized) || null;
+}
+
+export async function createUser(email: string, password: string, role: UserRole): Promise<StoredUser> {
+  const user: StoredUser = {
+    id: randomUUID(),
+    email: email.trim().toLowerCase(),
+    role,
+    passwordHash: hashPassword(password),
+    createdAt: Date.now(),
+  };
+
+  await saveUser(user);
+  return user;
+}
+
+/**
+ * Check credentials. While no users exist, the ADMIN_EMAIL/ADMIN_PASSWORD
+ * pair from the environment creates the first admin.
+ */
+export async function authenticateUser(email: string, password: string): Promise<StoredUser | null> {
+  const user = await findUserByEmail(email);
+  if (user) {
+    return verifyPassword(password, user.passwordHash) ? user : null;
+  }
+
+  const { adminEmail, adminPassword } = env;
+  if (adminEmail && adminPassword && (await getUsers()).length === 0) {
+    if (email.trim().toLowerCase() === adminEmail.toLowerCase() && safeEqual(password, adminPassword)) {
+      return createUser(adminEmail, adminPassword, 'admin');
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Start a session and return the cookie token
+ */
+export async function createSession(userId: string): Promise<string> {
+  const token = randomBytes(32).toString('hex');
+  const now = Date.now();
+
+  await saveSession(hashToken(token), { userId, createdAt: now, expiresAt: now + SESSION_TTL_MS });
+  return token;
+}
+
+export async function destroySession(token: string): Promise<void> {
+  await deleteSession(hashToken(token));
+}
+
+/**
+ * User behind the request's session cookie, if the session is valid
+ */
+export async function getSessionUser(request: NextRequest): Promise<User | null> {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+
+  const tokenHash = hashToken(token);
+  const session = await getSession(tokenHash);
+  if (!session) return null;
+
+  if (session.expiresAt <= Date.now()) {
+    await deleteSession(tokenHash);
+    return null;
+  }
+
+  // Deleted users lose access immediately; role changes apply on the next request
+  const user = await getUser(session.userId);
+  return user ? toPublicUser(user) : null;
+}
+
+/**
+ * Whether a key grants a scope (tests:write includes tests:read)
+ */
+export function hasScope(scopes: ApiKeyScope[], required: ApiKeyScope): boolean {
+  return scopes.includes(required) || (required === 'tests:read' && scopes.includes('tests:write'));
+}
+
+/**
+ * Validate new API key input, returning a list of errors
+ */
+export function validateApiKeyInput(data: { name?: string; scopes?: string[] }): string[] {
+  const errors: string[] = [];
+
+  if (!data.name || !data.name.trim()) {
+    errors.push('Name is required');
+  }
+  if (!Array.isArray(data.scopes) || data.scopes.length === 0) {
+    errors.push('Select at least one scope');
+  } else {
+    const unknown = data.scopes.filter(scope => !API_KEY_SCOPES.includes(scope as ApiKeyScope));
+    if (unknown.length > 0) {
+      errors.push(`Unknown scopes: ${unknown.join(', ')}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Create an API key. The full key is only returned here; KV keeps its hash.
+ */
+export async function createApiKey(
+  name: string,
+  scopes: ApiKeyScope[],
+  createdBy: User
+): Promise<{ apiKey: StoredApiKey; key: string }> {
+  const id = randomBytes(4).toString('hex');
+  const key = `${API_KEY_PREFIX}${id}_${randomBytes(24).toString('hex')}`;
+
+  const apiKey: StoredApiKey = {
+    id,
+    name: name.trim(),
+    prefix: key.slice(0, API_KEY_PREFIX.length + id.length),
+    scopes,
+    createdBy: createdBy.email,
+    createdAt: Date.now(),
+    keyHash: hashToken(key),
+  };
+
+  await saveApiKey(apiKey);
+  return { apiKey, key };
+}
+
+/**
+ * Look up an active API key from its full value
+ */
+export async function verifyApiKey(key: string): Promise<StoredApiKey | null> {
+  if (!key.startsWith(API_KEY_PREFIX)) return null;
+
+  const keyHash = hashToken(key);
+  const apiKey = (await getApiKeys()).find(candidate => safeEqual(candidate.keyHash, keyHash));
+  if (!apiKey || apiKey.revokedAt) return null;
+
+  const now = Date.now();
+  const lastUsedAt = (await getApiKeyLastUsed(apiKey.id)) ?? apiKey.lastUsedAt;
+  if (!lastUsedAt || now - lastUsedAt > LAST_USED_RESOLUTION_MS) {
+    await saveApiKeyLastUsed(apiKey.id, now);
+    return { ...apiKey, lastUsedAt: now };
+  }
+
+  return { ...apiKey, lastUsedAt };
+}
+
+/**
+ * All API keys with their last use (stored apart from the index, see verifyApiKey)
+ */
+export async function listApiKeys(): Promise<StoredApiKey[]> {
+  return Promise.all((await getApiKeys()).map(async apiKey => ({
+    ...apiKey,
+    lastUsedAt: (await getApiKeyLastUsed(apiKey.id)) ?? apiKey.lastUsedAt,
+  })));
+}
+
+/**
+ * Public view of a stored API key (never expose the hash)
+ */
+export function toPublicApiKey({ id, name, prefix, scopes, createdBy, createdAt, lastUsedAt, revokedAt }: StoredApiKey): ApiKey {
+  return { id, name, prefix, scopes, createdBy, createdAt, lastUsedAt, revokedAt };
+}
+
+function getBearerToken(request: NextRequest): string | null {
+  const header = request.headers.get('authorization');
+  return header?.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : null;
+}
+
+export function setSessionCookie(response: NextResponse, token: string): void {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: SESSION_TTL_MS / 1000,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, path: '/', maxAge: 0 });
+}
+
+interface AuthOptions {
+  allowCron?: boolean; // Accept CRON_SECRET credentials (acts as CRON_USER, see lib/cron.ts)
+  scope?: ApiKeyScope | false; // Scope API keys need (defaults from the role); false rejects keys
+}
+
+/**
+ * Wrap a route handler so it only runs for users with at least the given role,
+ * or API keys with the matching scope. Responds 401 without a valid session or
+ * key and 403 when the role or scopes are too low.
+ */
+export function withAuth<C>(
+  role: UserRole,
+  handler: (request: NextRequest, context: C, user: User) => Promise<Response>,
+  options: AuthOptions = {}
+) {
+  return async (request: NextRequest, context: C): Promise<Response> => {
+    try {
+      if (options.allowCron) {
+        const cron = await verifyCronRequest(request);
+        if (cron && !cron.valid) {
+          return NextResponse.json(
+            { error: cron.error },
+            { status: 401 }
+          );
+        }
+        if (cron) {
+          return handler(request, context, CRON_USER);
+        }
+      }
+
+      const bearer = getBearerToken(request);
+      if (bearer) {
+        const apiKey = await verifyApiKey(bearer);
+        if (!apiKey) {
+          return NextResponse.json(
+            { error: options.allowCron && !bearer.startsWith(API_KEY_PREFIX) ? 'Invalid cron secret' : 'Invalid or revoked API key' },
+            { status: 401 }
+          );
+        }
+
+        const scope = options.scope === undefined ? ROLE_SCOPES[role] : options.scope;
+        if (!scope || !hasScope(apiKey.scopes, scope)) {
+          return NextResponse.json(
+            { error: scope ? `This action requires the ${scope} scope` : 'API keys cannot be used for this action' },
+            { status: 403 }
+          );
+        }
+
+        return handler(request, context, {
+          id: `apikey:${apiKey.id}`,
+          email: `API key "${apiKey.name}" (${apiKey.prefix})`,
+          role,
+          createdAt: apiKey.createdAt,
+        });
+      }
+
+      const user = await getSessionUser(request);
+      if (!user) {
+        return NextResponse.json(
+          { error: 'Authentication required' },
+          { status: 401 }
+        );
+      }
+
+      if (!hasRole(user, role)) {
+        return NextResponse.json(
+          { error: `This action requires the ${role} role` },
+          { status: 403 }
+        );
+      }
+
+      return handler(request, context, user);
+    } catch (error) {
+      console.error('Error checking authentication:', error);
+      return NextResponse.json(
+        { error: 'Failed to check authentication' },
+        { status: 500 }
+      );
+    }
+  };
+}
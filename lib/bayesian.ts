@@ -0,0 +1,127 @@
+import type { TestStats, BayesianAnalysis } from '@/types/Test';
+
+/**
+ * Bayesian analysis of A/B test results
+ *
+ * Uses the same Beta(conversions + 1, views - conversions + 1) posterior as the
+ * Thompson Sampling Worker, estimated with Monte Carlo draws.
+ */
+
+const DEFAULT_SAMPLES = 20000;
+
+/**
+ * Gamma distribution sampling using Marsaglia & Tsang method
+ */
+function gammaSample(shape: number, scale: number): number {
+  if (shape < 1) {
+    return gammaSample(shape + 1, scale) * Math.pow(Math.random(), 1 / shape);
+  }
+
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+
+  while (true) {
+    let x: number;
+    let v: number;
+    do {
+      x = normalSample();
+      v = 1 + c * x;
+    } while (v <= 0);
+
+    v = v * v * v;
+    const u = Math.random();
+
+    if (u < 1 - 0.0331 * x * x * x * x) {
+      return d * v * scale;
+    }
+
+    if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) {
+      return d * v * scale;
+    }
+  }
+}
+
+/**
+ * Normal distribution sampling using Box-Muller transform
+ */
+function normalSample(): number {
+  const u1 = Math.random() || Number.MIN_VALUE;
+  const u2 = Math.random();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+/**
+ * Beta distribution sampling
+ */
+export function betaSample(alpha: number, beta: number): number {
+  const x = gammaSample(alpha, 1);
+  const y = gammaSample(beta, 1);
+  return x / (x + y);
+}
+
+/**
+ * Estimate probability to beat control, probability to be best and expected loss for every arm
+ * Expected loss is expressed in conversion-rate percentage points, like the rates in TestStats.
+ */
+export function analyzeBayesian(stats: TestStats, samples: number = DEFAULT_SAMPLES): BayesianAnalysis {
+  const arms: Record<string, { views: number; conversions: number }> = {
+    control: { views: stats.controlViews, conversions: stats.controlConversions },
+  };
+  Object.keys(stats.variantStats).forEach(variantId => {
+    const { views, conversions } = stats.variantStats[variantId];
+    arms[variantId] = { views, conversions };
+  });
+
+  const armIds = Object.keys(arms);
+  const beatControl: Record<string, number> = {};
+  const best: Record<string, number> = {};
+  const loss: Record<string, number> = {};
+  armIds.forEach(id => {
+    beatControl[id] = 0;
+    best[id] = 0;
+    loss[id] = 0;
+  });
+
+  const draw: Record<string, number> = {};
+
+  for (let i = 0; i < samples; i++) {
+    let bestId = armIds[0];
+    let bestValue = -1;
+
+    for (const id of armIds) {
+      const { views, conversions } = arms[id];
+      const value = betaSample(conversions + 1, Math.max(views - conversions, 0) + 1);
+      draw[id] = value;
+
+      if (value > bestValue) {
+        bestValue = value;
+        bestId = id;
+      }
+    }
+
+    best[bestId]++;
+
+    for (const id of armIds) {
+      if (id !== 'control' && draw[id] > draw.control) {
+        beatControl[id]++;
+      }
+      loss[id] += bestValue - draw[id];
+    }
+  }
+
+  const result: BayesianAnalysis = {
+    samples,
+    arms: {},
+    computedAt: Date.now(),
+  };
+
+  armIds.forEach(id => {
+    result.arms[id] = {
+      probabilityToBeatControl: id === 'control' ? null : beatControl[id] / samples,
+      probabilityToBeBest: best[id] / samples,
+      expectedLoss: (loss[id] / samples) * 100,
+    };
+  });
+
+  return result;
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { bucketRoll, hashString, isInHoldout, isInLayerSlice, pickBucket } from './bucketing';
+import { generateWorkerCode } from './cloudflare';
+import type { Test } from '@/types/Test';
+
+const VISITORS = Array.from({ length: 20000 }, (_, i) => `visitor-${i}`);
+
+// Pearson chi-square statistic of observed counts against expected shares
+function chiSquare(counts: number[], shares: number[]): number {
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  return counts.reduce((sum, count, i) => {
+    const expected = total * shares[i];
+    return sum + (count - expected) ** 2 / expected;
+  }, 0);
+}
+
+function assignmentShares(controlPercentage: number, variants: Array<{ id: string; percentage: number }>) {
+  const arms = ['control', ...variants.map(variant => variant.id)];
+  const counts = arms.map(() => 0);
+
+  for (const visitorId of VISITORS) {
+    const bucket = pickBucket(bucketRoll('checkout', 'salt', visitorId), controlPercentage, variants);
+    counts[arms.indexOf(bucket)]++;
+  }
+
+  return counts;
+}
+
+describe('hashString', () => {
+  it('is stable across runs', () => {
+    // Pinned values: changing them reassigns every running test's visitors
+    expect(hashString('')).toBe(2872998923);
+    expect(hashString('a')).toBe(444641715);
+    expect(hashString('b')).toBe(2193908274);
+    expect(hashString('checkout:salt:visitor-1')).toBe(1587084336);
+  });
+
+  it('spreads similar inputs uniformly over 20 buckets', () => {
+    const counts = Array(20).fill(0);
+    for (const visitorId of VISITORS) {
+      counts[Math.floor(bucketRoll('checkout', 'salt', visitorId) / 5)]++;
+    }
+
+    // 99.9th percentile of chi-square with 19 degrees of freedom
+    expect(chiSquare(counts, Array(20).fill(1 / 20))).toBeLessThan(43.82);
+  });
+});
+
+describe('bucketRoll', () => {
+  it('returns the same position for the same visitor', () => {
+    for (const visitorId of VISITORS.slice(0, 100)) {
+      expect(bucketRoll('checkout', 'salt', visitorId)).toBe(bucketRoll('checkout', 'salt', visitorId));
+    }
+  });
+
+  it('stays within [0, 100)', () => {
+    for (const visitorId of VISITORS) {
+      const roll = bucketRoll('checkout', 'salt', visitorId);
+      expect(roll).toBeGreaterThanOrEqual(0);
+      expect(roll).toBeLessThan(100);
+    }
+  });
+
+  it('reshuffles visitors when the salt or test changes', () => {
+    const sameHalf = (other: (visitorId: string) => number) =>
+      VISITORS.filter(visitorId => (bucketRoll('checkout', 'salt', visitorId) < 50) === (other(visitorId) < 50)).length /
+      VISITORS.length;
+
+    // Independent positions agree on the half about 50% of the time
+    expect(sameHalf(visitorId => bucketRoll('checkout', 'new-salt', visitorId))).toBeCloseTo(0.5, 1);
+    expect(sameHalf(visitorId => bucketRoll('pricing', 'salt', visitorId))).toBeCloseTo(0.5, 1);
+  });
+});
+
+describe('pickBucket', () => {
+  const weightings: Array<[number, Array<{ id: string; percentage: number }>]> = [
+    [50, [{ id: 'variant1', percentage: 50 }]],
+    [90, [{ id: 'variant1', percentage: 10 }]],
+    [20, [{ id: 'variant1', percentage: 30 }, { id: 'variant2', percentage: 50 }]],
+    [25, [{ id: 'variant1', percentage: 25 }, { id: 'variant2', percentage: 25 }, { id: 'variant3', percentage: 25 }]],
+  ];
+
+  it.each(weightings)('matches a %d%% control split', (controlPercentage, variants) => {
+    const counts = assignmentShares(controlPercentage, variants);
+    const shares = [controlPercentage, ...variants.map(variant => variant.percentage)].map(p => p / 100);
+
+    // 99.9th percentile of chi-square with up to 3 degrees of freedom
+    expect(chiSquare(counts, shares)).toBeLessThan(16.27);
+  });
+
+  it('maps range boundaries onto the cumulative percentages', () => {
+    const variants = [{ id: 'variant1', percentage: 30 }, { id: 'variant2', percentage: 50 }];
+    expect(pickBucket(0, 20, variants)).toBe('control');
+    expect(pickBucket(19.999, 20, variants)).toBe('control');
+    expect(pickBucket(20, 20, variants)).toBe('variant1');
+    expect(pickBucket(50, 20, variants)).toBe('variant2');
+    expect(pickBucket(99.999, 20, variants)).toBe('variant2');
+  });
+
+  it('never assigns a zero-weight arm', () => {
+    const counts = assignmentShares(0, [{ id: 'variant1', percentage: 100 }, { id: 'variant2', percentage: 0 }]);
+    expect(counts).toEqual([0, VISITORS.length, 0]);
+  });
+});
+
+describe('generated Worker', () => {
+  // Evaluate the Worker's own copies of the bucketing functions
+  const source = generateWorkerCode({ id: 'checkout', name: 'Checkout', variants: [] } as unknown as Test)
+    .replace('export default {', 'const worker = {');
+  const worker = new Function(`${source}\nreturn { hashString, bucketRoll, pickBucket, isInLayerSlice, isInHoldout };`)();
+
+  it('assigns every visitor exactly like lib/bucketing.ts', () => {
+    const variants = [{ id: 'variant1', percentage: 30 }, { id: 'variant2', percentage: 50 }];
+    const slice = { layerId: 'checkout-layer', start: 20, end: 60 };
+
+    for (const visitorId of VISITORS) {
+      expect(worker.hashString(visitorId)).toBe(hashString(visitorId));
+
+      const roll = bucketRoll('checkout', 'salt', visitorId);
+      expect(worker.bucketRoll('checkout', 'salt', visitorId)).toBe(roll);
+      expect(worker.pickBucket(roll, 20, variants)).toBe(pickBucket(roll, 20, variants));
+      expect(worker.isInLayerSlice(slice, visitorId)).toBe(isInLayerSlice(slice, visitorId));
+      expect(worker.isInHoldout(5, visitorId)).toBe(isInHoldout(5, visitorId));
+    }
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Deterministic hash-based bucketing
+ *
+ * Hashes a stable visitor ID together with the test ID and a per-test salt
+ * into [0, 100) and maps it onto the configured percentage ranges, so the
+ * same visitor always lands in the same arm - even without the bucket
+ * cookie - and assignments can be reproduced offline. Changing the salt
+ * reshuffles every visitor. Experiment layers and the global holdout use the
+ * same hash to carve out visitors before a test assigns them.
+ *
+ * This is the canonical implementation: workers/template.ts imports it and
+ * generateWorkerCode in lib/cloudflare.ts inlines the same algorithm
+ * (bucketing.test.ts checks the two assign every visitor identically).
+ * Keep it free of imports so it can be bundled into a Worker.
+ */
+
+// First-party cookie holding the visitor ID when no ID header is configured
+export const VISITOR_ID_COOKIE = '__edgesplit_vid';
+
+// Bucket recorded for visitors in the global holdout (they always get the control experience)
+export const HOLDOUT_BUCKET = 'holdout';
+
+/**
+ * 32-bit FNV-1a hash with a murmur3 finalizer (the raw FNV output clusters on similar inputs)
+ */
+export function hashString(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+
+  return hash >>> 0;
+}
+
+/**
+ * Position of a visitor in [0, 100) for a given test
+ */
+export function bucketRoll(testId: string, salt: string, visitorId: string): number {
+  return (hashString(`${testId}:${salt}:${visitorId}`) / 0x100000000) * 100;
+}
+
+/**
+ * Whether a visitor falls in a test's slice of its layer. The layer roll
+ * leaves out the test ID, so every test in the layer sees the same position
+ * and tests with non-overlapping slices never share a visitor.
+ */
+export function isInLayerSlice(
+  slice: { layerId: string; start: number; end: number },
+  visitorId: string
+): boolean {
+  const roll = bucketRoll(slice.layerId, 'layer', visitorId);
+  return roll >= slice.start && roll < slice.end;
+}
+
+/**
+ * Whether a visitor belongs to the global holdout. The roll doesn't depend
+ * on the test, so a held-out visitor is held out of every test, and raising
+ * the percentage only adds visitors to the holdout.
+ */
+export function isInHoldout(percentage: number, visitorId: string): boolean {
+  return percentage > 0 && bucketRoll('global', HOLDOUT_BUCKET, visitorId) < percentage;
+}
+
+/**
+ * Map a roll in [0, 100) onto cumulative control/variant percentages
+ */
+export function pickBucket(
+  roll: number,
+  controlPercentage: number,
+  variants: Array<{ id: string; percentage: number }>
+): string {
+  let cumulative = controlPercentage;
+  if (roll < cumulative) {
+    return 'control';
+  }
+
+  for (const variant of variants) {
+    cumulative += variant.percentage;
+    if (roll < cumulative) {
+      return variant.id;
+    }
+  }
+
+  return 'control'; // Fallback (should never reach if percentages sum to 100)
+}
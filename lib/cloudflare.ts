@@ -1,5 +1,7 @@
 import type { Test } from '@/types/Test';
 import { env } from './env';
+import { SEEN_COOKIE_NAME } from './targeting';
+import { VISITOR_ID_COOKIE, HOLDOUT_BUCKET } from './bucketing';
 
 /**
  * Generate Cloudflare Worker code for A/B test routing
@@ -12,11 +14,13 @@ export function generateWorkerCode(test: Test): string {
  * EdgeSplit A/B Test Worker
  * Test: ${test.name}
  * Optimization: ${optimizationMode}
+ * Counting: ${test.countingMode === 'edge' ? 'Edge (Worker KV counters)' : 'GA4'}
+ * Delivery: ${test.deliveryMode === 'proxy' ? 'Reverse proxy (URL stays on the entry path)' : '302 redirect'}
  * Generated: ${new Date().toISOString()}
  */
 
 export default {
-  async fetch(request, env) {
+  async fetch(request, env, ctx) {
     const url = new URL(request.url);
     
     // Load test config from KV
@@ -27,29 +31,91 @@ export default {
     
     const testConfig = JSON.parse(testConfigJson);
     
+    // First-party conversion endpoint (used by the tracking snippet when counting at the edge)
+    if (url.pathname.endsWith('/__edgesplit/convert')) {
+      return handleConversion(request, env, ctx, testConfig);
+    }
+    
     // Check for debug mode (force variant via query param: ?__edgesplit_force=control or ?__edgesplit_force=variant_a)
     const forceVariant = url.searchParams.get('__edgesplit_force');
     if (forceVariant) {
       const validVariants = ['control', ...testConfig.variants.map(v => v.id)];
       if (validVariants.includes(forceVariant)) {
-        const targetUrl = getTargetUrl(forceVariant, testConfig);
-        const response = Response.redirect(targetUrl, 302);
+        const targetUrl = getTargetUrl(forceVariant, testConfig, url);
+        const response = await deliver(request, targetUrl, testConfig);
         const cookieValue = \`\${testConfig.id}=\${forceVariant}; Path=/; Max-Age=2592000; HttpOnly; Secure; SameSite=Lax\`;
         response.headers.set('Set-Cookie', cookieValue);
-        await sendGA4Event(testConfig, forceVariant, 'view', request);
+        await sendGA4Event(env, testConfig, forceVariant, 'view', request);
         return response;
       }
     }
     
+    // Only running tests bucket visitors
+    const now = Date.now();
+    let status = testConfig.status || 'running';
+    if (status === 'draft' && testConfig.startAt && now >= testConfig.startAt) {
+      // Scheduled start has passed; the sync cron updates the stored status shortly
+      status = 'running';
+    }
+    if (status !== 'running') {
+      // Paused, draft and archived tests send everyone to control; concluded tests to the winner
+      const fixedBucket = status === 'concluded' ? (testConfig.concludedWinner || 'control') : 'control';
+      return deliver(request, getTargetUrl(fixedBucket, testConfig, url), testConfig);
+    }
+    
+    // Outside the scheduled window: send to control without assigning a bucket
+    if ((testConfig.startAt && now < testConfig.startAt) || (testConfig.endAt && now >= testConfig.endAt)) {
+      return deliver(request, getTargetUrl('control', testConfig, url), testConfig);
+    }
+    
     // Check for existing bucket assignment
     const cookie = request.headers.get('Cookie') || '';
     const existingBucket = getBucket(cookie, '${test.id}');
     
     if (existingBucket) {
       // User already assigned - redirect to their bucket
-      const targetUrl = getTargetUrl(existingBucket, testConfig);
-      await sendGA4Event(testConfig, existingBucket, 'view', request);
-      return Response.redirect(targetUrl, 302);
+      const targetUrl = getTargetUrl(existingBucket, testConfig, url);
+      await recordView(env, ctx, testConfig, existingBucket, request);
+      return deliver(request, targetUrl, testConfig);
+    }
+    
+    // Audience targeting: visitors outside the audience go to control without a bucket and are not counted
+    if (!matchesTargeting(request, url, cookie, testConfig.targeting)) {
+      const response = await deliver(request, getTargetUrl('control', testConfig, url), testConfig);
+      response.headers.append('Set-Cookie', SEEN_COOKIE);
+      return response;
+    }
+    
+    // Deterministic bucketing, layers and the global holdout need a stable visitor ID (configured header or first-party cookie)
+    const holdoutPercentage = await loadHoldoutPercentage(env);
+    const visitor = holdoutPercentage > 0 || testConfig.layer || (testConfig.bucketing && testConfig.bucketing.mode === 'deterministic')
+      ? getVisitorId(request, cookie, testConfig.bucketing || {})
+      : null;
+    const visitorCookie = visitor && visitor.isNew
+      ? \`${VISITOR_ID_COOKIE}=\${visitor.id}; Path=/; Max-Age=31536000; HttpOnly; Secure; SameSite=Lax\`
+      : null;
+    
+    // Global holdout: applied after targeting so holdout and exposed visitors come from the same audience,
+    // and before any assignment. Held-out visitors see control and are counted in the '${HOLDOUT_BUCKET}' bucket
+    if (visitor && isInHoldout(holdoutPercentage, visitor.id)) {
+      const response = await deliver(request, getTargetUrl('control', testConfig, url), testConfig);
+      response.headers.append('Set-Cookie', \`\${testConfig.id}=${HOLDOUT_BUCKET}; Path=/; Max-Age=2592000; HttpOnly; Secure; SameSite=Lax\`);
+      response.headers.append('Set-Cookie', SEEN_COOKIE);
+      if (visitorCookie) {
+        response.headers.append('Set-Cookie', visitorCookie);
+      }
+      await recordView(env, ctx, testConfig, '${HOLDOUT_BUCKET}', request);
+      return response;
+    }
+    
+    // Layers: only visitors in this test's slice are enrolled, so they never see another test in the layer
+    if (testConfig.layer && !isInLayerSlice(testConfig.layer, visitor.id)) {
+      const response = await deliver(request, getTargetUrl('control', testConfig, url), testConfig);
+      response.headers.append('Set-Cookie', SEEN_COOKIE);
+      if (visitorCookie) {
+        response.headers.append('Set-Cookie', visitorCookie);
+      }
+      return response;
     }
     
     // New user - assign bucket
@@ -57,7 +123,7 @@ export default {
     
     if (testConfig.autoOptimize === true) {
       // Thompson Sampling: adaptive allocation based on performance
-      const stats = await loadStats(env, testConfig.id, testConfig.variants);
+      const stats = await loadStats(env, testConfig);
       
       // Check if we have enough data for Thompson Sampling (min 100 views per variant)
       const variantKeys = ['control', ...testConfig.variants.map(v => v.id)];
@@ -69,39 +135,336 @@ export default {
         bucket = chooseBucketTS(stats, variantKeys);
       } else {
         // Not enough data yet - use static allocation to gather data
-        bucket = assignBucket(testConfig);
+        bucket = assignBucket(testConfig, visitor && visitor.id);
       }
     } else {
       // Static allocation: use configured percentages
-      bucket = assignBucket(testConfig);
+      bucket = assignBucket(testConfig, visitor && visitor.id);
     }
     
-    const targetUrl = getTargetUrl(bucket, testConfig);
+    const targetUrl = getTargetUrl(bucket, testConfig, url);
     
     // Set cookie and redirect
-    const response = Response.redirect(targetUrl, 302);
+    const response = await deliver(request, targetUrl, testConfig);
     const cookieValue = \`\${testConfig.id}=\${bucket}; Path=/; Max-Age=2592000; HttpOnly; Secure; SameSite=Lax\`;
-    response.headers.set('Set-Cookie', cookieValue);
+    response.headers.append('Set-Cookie', cookieValue);
+    response.headers.append('Set-Cookie', SEEN_COOKIE);
+    if (visitorCookie) {
+      response.headers.append('Set-Cookie', visitorCookie);
+    }
     
-    // Send view event to GA4
-    await sendGA4Event(testConfig, bucket, 'view', request);
+    // Count the view (edge counters and/or GA4)
+    await recordView(env, ctx, testConfig, bucket, request);
     
     return response;
   }
 };
 
-function assignBucket(testConfig) {
-  const roll = Math.random() * 100;
+// Targeting functions
+
+const SEEN_COOKIE = '${SEEN_COOKIE_NAME}=1; Path=/; Max-Age=31536000; Secure; SameSite=Lax';
+
+function matchesTargeting(request, url, cookie, rules) {
+  // Every rule must match (AND)
+  return (rules || []).every(rule => {
+    const value = getTargetingValue(request, url, cookie, rule.attribute);
+    const matches = rule.values.some(expected => rule.attribute === 'referrer'
+      ? value === expected || value.endsWith('.' + expected)
+      : value === expected);
+    return rule.operator === 'is_not' ? !matches : matches;
+  });
+}
+
+function getTargetingValue(request, url, cookie, attribute) {
+  switch (attribute) {
+    case 'country':
+      return ((request.cf && request.cf.country) || '').toUpperCase();
+    case 'device':
+      return getDeviceClass(request.headers.get('User-Agent') || '');
+    case 'referrer': {
+      const referrer = request.headers.get('Referer');
+      if (!referrer) return 'direct';
+      try {
+        return new URL(referrer).hostname.toLowerCase().replace(/^www\\./, '');
+      } catch (error) {
+        return 'direct';
+      }
+    }
+    case 'utm_source':
+    case 'utm_campaign':
+      return (url.searchParams.get(attribute) || '').toLowerCase();
+    case 'visitor':
+      return cookie.includes('${SEEN_COOKIE_NAME}=') ? 'returning' : 'new';
+    default:
+      return '';
+  }
+}
+
+function getDeviceClass(userAgent) {
+  if (/iPad|Tablet|PlayBook|Silk|Android(?!.*Mobi)/i.test(userAgent)) return 'tablet';
+  if (/Mobi|iPhone|iPod|Android|BlackBerry|IEMobile|Opera Mini/i.test(userAgent)) return 'mobile';
+  return 'desktop';
+}
+
+// Delivery functions
+
+async function deliver(request, targetUrl, testConfig) {
+  if (testConfig.deliveryMode === 'proxy') {
+    return proxyToOrigin(request, targetUrl);
+  }
+  // Build the redirect by hand so headers (Set-Cookie) stay mutable
+  return new Response(null, { status: 302, headers: { Location: targetUrl } });
+}
+
+async function proxyToOrigin(request, targetUrl) {
+  const target = new URL(targetUrl);
+  
+  const headers = new Headers(request.headers);
+  headers.delete('Host');
+  
+  const originResponse = await fetch(target.toString(), {
+    method: request.method,
+    headers,
+    body: ['GET', 'HEAD'].includes(request.method) ? undefined : request.body,
+    redirect: 'manual',
+  });
+  
+  const response = new Response(originResponse.body, originResponse);
+  
+  // Relative redirects from the origin would otherwise resolve against the entry domain
+  const location = response.headers.get('Location');
+  if (location) {
+    response.headers.set('Location', new URL(location, target).toString());
+  }
+  
+  const contentType = response.headers.get('Content-Type') || '';
+  if (!contentType.includes('text/html')) {
+    return response;
+  }
+  
+  // Relative links would resolve against the entry URL, so point them at the origin
+  const rewriter = new HTMLRewriter();
+  for (const [selector, attribute] of PROXY_REWRITE_ATTRIBUTES) {
+    rewriter.on(selector, new AttributeRewriter(attribute, target));
+  }
+  return rewriter.transform(response);
+}
+
+const PROXY_REWRITE_ATTRIBUTES = [
+  ['a[href]', 'href'],
+  ['link[href]', 'href'],
+  ['script[src]', 'src'],
+  ['img[src]', 'src'],
+  ['img[srcset]', 'srcset'],
+  ['source[src]', 'src'],
+  ['source[srcset]', 'srcset'],
+  ['iframe[src]', 'src'],
+  ['form[action]', 'action'],
+];
+
+class AttributeRewriter {
+  constructor(attribute, baseUrl) {
+    this.attribute = attribute;
+    this.baseUrl = baseUrl;
+  }
+  
+  element(element) {
+    const value = element.getAttribute(this.attribute);
+    if (!value) return;
+    
+    const rewritten = this.attribute === 'srcset'
+      ? value.split(',').map(candidate => {
+          const [url, ...descriptor] = candidate.trim().split(/\\s+/);
+          return [absolutize(url, this.baseUrl), ...descriptor].join(' ');
+        }).join(', ')
+      : absolutize(value, this.baseUrl);
+    
+    element.setAttribute(this.attribute, rewritten);
+  }
+}
+
+function absolutize(value, baseUrl) {
+  // Leave absolute URLs, protocol-relative URLs, fragments and data:/mailto: links alone
+  if (/^(?:[a-z][a-z0-9+.-]*:|\\/\\/|#)/i.test(value)) {
+    return value;
+  }
+  try {
+    return new URL(value, baseUrl).toString();
+  } catch (error) {
+    return value;
+  }
+}
+
+// Edge counting functions
+
+async function recordView(env, ctx, testConfig, bucket, request) {
+  if (testConfig.countingMode === 'edge') {
+    ctx.waitUntil(recordEdgeEvent(env, testConfig.id, \`views_\${bucket}\`));
+  }
+  // GA4 stays a secondary sink whenever an API secret is configured
+  await sendGA4Event(env, testConfig, bucket, 'view', request);
+}
+
+function recordEdgeEvent(env, testId, counter, amount = 1) {
+  // KV has no atomic increment, so every event gets its own key and the sync folds them into totals
+  return env.AB_TESTS.put(\`edge_event:\${testId}:\${Date.now()}:\${counter}:\${amount}:\${crypto.randomUUID()}\`, '');
+}
+
+function getAllowedOrigins(testConfig, requestUrl) {
+  // Pages of the test itself: the entry, control and variant URLs
+  const origins = new Set([requestUrl.origin]);
+  for (const value of [testConfig.entryUrl, testConfig.controlUrl, ...testConfig.variants.map(v => v.url)]) {
+    try {
+      origins.add(new URL(value).origin);
+    } catch (error) {
+      // Relative or missing URL
+    }
+  }
+  return origins;
+}
+
+async function handleConversion(request, env, ctx, testConfig) {
+  const requestUrl = new URL(request.url);
+  const origin = request.headers.get('Origin');
+  
+  // Browsers always send Origin on cross-origin requests, so other sites can't report conversions
+  if (origin && !getAllowedOrigins(testConfig, requestUrl).has(origin)) {
+    return new Response(JSON.stringify({ success: false, error: 'Origin not allowed' }), {
+      status: 403,
+      headers: { 'Content-Type': 'application/json', 'Vary': 'Origin' },
+    });
+  }
+  
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': origin || requestUrl.origin,
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Credentials': 'true',
+    'Vary': 'Origin',
+  };
+  
+  if (request.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+  if (request.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405, headers: corsHeaders });
+  }
   
+  let body = {};
+  try {
+    body = JSON.parse((await request.text()) || '{}');
+  } catch (error) {
+    // Treat an unreadable body as a plain conversion
+  }
+  
+  // Only the visitor's own bucket cookie counts; a bucket in the body is ignored
+  const bucket = getBucket(request.headers.get('Cookie') || '', testConfig.id);
+  const validBuckets = ['control', ...testConfig.variants.map(v => v.id), '${HOLDOUT_BUCKET}'];
+  const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+  
+  if ((body.testId && body.testId !== testConfig.id) || !validBuckets.includes(bucket)) {
+    return new Response(JSON.stringify({ success: false, error: 'Unknown test or bucket' }), { status: 400, headers: jsonHeaders });
+  }
+  
+  // Funnel step and guardrail snippets send their ID; everything else is the primary conversion
+  if (body.step && !(testConfig.funnelSteps || []).some(step => step.id === body.step)) {
+    return new Response(JSON.stringify({ success: false, error: 'Unknown funnel step' }), { status: 400, headers: jsonHeaders });
+  }
+  if (body.guardrail && !(testConfig.guardrails || []).some(guardrail => guardrail.id === body.guardrail)) {
+    return new Response(JSON.stringify({ success: false, error: 'Unknown guardrail' }), { status: 400, headers: jsonHeaders });
+  }
+  
+  if (testConfig.countingMode === 'edge') {
+    const counter = body.step
+      ? \`steps_\${body.step}\`
+      : body.guardrail ? \`guardrails_\${body.guardrail}\` : 'conversions';
+    ctx.waitUntil(recordEdgeEvent(env, testConfig.id, \`\${counter}_\${bucket}\`));
+    
+    // Order value for revenue-tracked tests (sum and sum of squares give mean and variance)
+    const value = Number(body.value);
+    if (testConfig.revenue && !body.step && !body.guardrail && Number.isFinite(value) && value > 0) {
+      ctx.waitUntil(recordEdgeEvent(env, testConfig.id, \`revenue_\${bucket}\`, value));
+      ctx.waitUntil(recordEdgeEvent(env, testConfig.id, \`revenue_squares_\${bucket}\`, value * value));
+    }
+  }
+  
+  return new Response(JSON.stringify({ success: true }), { status: 200, headers: jsonHeaders });
+}
+
+function assignBucket(testConfig, visitorId) {
+  // Deterministic mode hashes the visitor ID so the same visitor always gets the same arm
+  const roll = visitorId && testConfig.bucketing && testConfig.bucketing.mode === 'deterministic'
+    ? bucketRoll(testConfig.id, testConfig.bucketing.salt || '', visitorId)
+    : Math.random() * 100;
+  
+  return pickBucket(roll, testConfig.controlPercentage, testConfig.variants);
+}
+
+// Deterministic bucketing, layer and holdout functions (same algorithm as lib/bucketing.ts)
+
+function getVisitorId(request, cookie, bucketing) {
+  if (bucketing.visitorIdHeader) {
+    const headerId = request.headers.get(bucketing.visitorIdHeader);
+    if (headerId) {
+      return { id: headerId, isNew: false };
+    }
+  }
+  
+  const match = cookie.match(/(?:^|;\\s*)${VISITOR_ID_COOKIE}=([^;]+)/);
+  if (match) {
+    return { id: match[1], isNew: false };
+  }
+  
+  return { id: crypto.randomUUID(), isNew: true };
+}
+
+function hashString(input) {
+  // 32-bit FNV-1a with a murmur3 finalizer
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  
+  return hash >>> 0;
+}
+
+function bucketRoll(testId, salt, visitorId) {
+  return (hashString(\`\${testId}:\${salt}:\${visitorId}\`) / 0x100000000) * 100;
+}
+
+function isInLayerSlice(layer, visitorId) {
+  // The layer roll leaves out the test ID so every test in the layer sees the same position
+  const roll = bucketRoll(layer.layerId, 'layer', visitorId);
+  return roll >= layer.start && roll < layer.end;
+}
+
+function isInHoldout(percentage, visitorId) {
+  // Independent of the test, so a held-out visitor is held out of every test
+  return percentage > 0 && bucketRoll('global', '${HOLDOUT_BUCKET}', visitorId) < percentage;
+}
+
+async function loadHoldoutPercentage(env) {
+  // Non-secret copy of AppConfig.holdoutPercentage, written when Settings are saved
+  const holdout = await env.AB_TESTS.get('holdout_config', 'json');
+  return holdout && holdout.percentage ? holdout.percentage : 0;
+}
+
+function pickBucket(roll, controlPercentage, variants) {
   // Use cumulative percentages to handle multiple variants correctly
-  let cumulative = testConfig.controlPercentage;
+  let cumulative = controlPercentage;
   
   if (roll < cumulative) {
     return 'control';
   }
   
-  // Iterate through variants and check cumulative percentages
-  for (const variant of testConfig.variants) {
+  for (const variant of variants) {
     cumulative += variant.percentage;
     if (roll < cumulative) {
       return variant.id;
@@ -153,11 +516,14 @@ function betaSample(alpha, beta) {
   return x / (x + y);
 }
 
-async function loadStats(env, testId, variants) {
+async function loadStats(env, testConfig) {
   const stats = {
     views: { control: 0 },
     conversions: { control: 0 }
   };
+  
+  // Counters the sync cron writes, from GA4 or from folded edge events
+  const testId = testConfig.id;
 
   const controlViews = await env.AB_TESTS.get(\`test:\${testId}:views_control\`);
   const controlConversions = await env.AB_TESTS.get(\`test:\${testId}:conversions_control\`);
@@ -165,7 +531,7 @@ async function loadStats(env, testId, variants) {
   stats.views.control = controlViews ? parseInt(controlViews, 10) : 0;
   stats.conversions.control = controlConversions ? parseInt(controlConversions, 10) : 0;
 
-  for (const variant of variants) {
+  for (const variant of testConfig.variants) {
     const variantViews = await env.AB_TESTS.get(\`test:\${testId}:views_\${variant.id}\`);
     const variantConversions = await env.AB_TESTS.get(\`test:\${testId}:conversions_\${variant.id}\`);
     
@@ -198,13 +564,44 @@ function chooseBucketTS(stats, variantKeys) {
   return best;
 }
 
-function getTargetUrl(bucket, testConfig) {
-  if (bucket === 'control') {
-    return testConfig.controlUrl;
+function getTargetUrl(bucket, testConfig, requestUrl) {
+  let destination = testConfig.controlUrl;
+  
+  if (bucket !== 'control') {
+    const variant = testConfig.variants.find(v => v.id === bucket);
+    destination = variant ? variant.url : testConfig.controlUrl;
+  }
+  
+  return requestUrl ? forwardParams(destination, requestUrl, testConfig.paramForwarding) : destination;
+}
+
+function forwardParams(destination, requestUrl, paramForwarding) {
+  // Tests saved before forwarding was configurable forward everything
+  const mode = paramForwarding ? paramForwarding.mode : 'all';
+  if (mode === 'none') {
+    return destination;
+  }
+  
+  const allowlist = (paramForwarding && paramForwarding.allowlist) || [];
+  const target = new URL(destination);
+  const existing = new Set(target.searchParams.keys());
+  
+  for (const [key, value] of requestUrl.searchParams) {
+    // Debug parameter only makes sense on the entry URL
+    if (key === '__edgesplit_force') continue;
+    // Parameters already on the destination URL win
+    if (existing.has(key)) continue;
+    if (mode === 'allowlist' && !isAllowedParam(key, allowlist)) continue;
+    target.searchParams.append(key, value);
   }
   
-  const variant = testConfig.variants.find(v => v.id === bucket);
-  return variant ? variant.url : testConfig.controlUrl;
+  return target.toString();
+}
+
+function isAllowedParam(key, allowlist) {
+  return allowlist.some(entry => entry.endsWith('*')
+    ? key.startsWith(entry.slice(0, -1))
+    : key === entry);
 }
 
 function getBucket(cookie, testId) {
@@ -213,13 +610,14 @@ function getBucket(cookie, testId) {
   return match ? match[1] : null;
 }
 
-async function sendGA4Event(testConfig, bucket, eventType, request) {
+async function sendGA4Event(env, testConfig, bucket, eventType, request) {
   const eventName = eventType === 'view' 
     ? testConfig.eventNames.view 
     : testConfig.eventNames.conversion;
   
   const measurementId = testConfig.ga4.measurementId;
-  const apiSecret = testConfig.ga4.apiSecret;
+  // Secret binding, so the Measurement Protocol secret never sits in KV
+  const apiSecret = env.GA4_API_SECRET;
   
   if (!apiSecret) {
     console.log('GA4 API secret not configured, skipping event');
@@ -290,6 +688,9 @@ In your Worker settings, ensure you have:
 - Variable name: \`AB_TESTS\`
 - KV namespace: Your KV namespace ID
 
+And add your GA4 Measurement Protocol secret as an encrypted secret named \`GA4_API_SECRET\`
+(\`wrangler secret put GA4_API_SECRET\`). It is not stored in the test config.
+
 ## 4. Using wrangler CLI (Alternative)
 
 \`\`\`bash
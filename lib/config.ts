@@ -7,13 +7,26 @@
  * Priority:
  * 1. KV Storage (editable via Settings page)
  * 2. Environment Variables (fallback)
+ *
+ * The GA4 API secret, service account private key and Cloudflare API token
+ * are envelope-encrypted in KV when CONFIG_ENCRYPTION_KEY is set (see lib/crypto.ts).
+ * Stored settings that can't be decrypted are an error, never a reason to fall
+ * back to the environment's (possibly different) credentials.
  */
 
-import { getKVStore } from './kv';
+import { getKVStore, getAllTests, saveTest } from './kv';
+import { decryptSecret, encryptSecret, rewrapSecret } from './crypto';
 import type { GoogleServiceAccount } from './env';
+import type { Test } from '@/types/Test';
 
 const CONFIG_KEY = '__app_config__';
 
+// Non-secret copy of the holdout settings that every Worker reads
+const HOLDOUT_CONFIG_KEY = 'holdout_config';
+
+// Largest holdout the Settings page accepts (a share of all visitors)
+export const MAX_HOLDOUT_PERCENTAGE = 100;
+
 export interface AppConfig {
   // GA4 Configuration
   gaMeasurementId: string;
@@ -27,31 +40,45 @@ export interface AppConfig {
   cfAccountId: string;
   cfApiToken: string;
   cfNamespaceId: string;
+
+  // Experimentation program
+  holdoutPercentage?: number; // Share of all visitors kept out of every test (0 disables the holdout)
 }
 
 /**
- * Load configuration from KV, falling back to environment variables
+ * Load configuration from KV, falling back to environment variables when none is stored
  */
 export async function loadConfig(): Promise<AppConfig> {
+  let stored: string | null = null;
   try {
     const kv = getKVStore();
-    const stored = await kv.get(CONFIG_KEY);
-    
-    if (stored) {
-      const config = JSON.parse(stored) as AppConfig;
-      // Ensure private key has proper newlines
-      if (config.googleServiceAccount?.privateKey) {
-        config.googleServiceAccount.privateKey = config.googleServiceAccount.privateKey.replace(/\\n/g, '\n');
-      }
-      console.log('✅ Loaded configuration from KV storage');
-      return config;
-    }
+    stored = await kv.get(CONFIG_KEY);
   } catch (error) {
     console.warn('⚠️  Failed to load config from KV, using environment variables:', error);
   }
 
-  // Fall back to environment variables
-  return loadConfigFromEnv();
+  if (!stored) {
+    // Fall back to environment variables
+    return loadConfigFromEnv();
+  }
+
+  let config: AppConfig;
+  try {
+    config = transformSecrets(JSON.parse(stored) as AppConfig, decryptSecret);
+  } catch (error) {
+    console.error('❌ Failed to decrypt configuration from KV:', error);
+    throw new Error(
+      `Stored settings could not be decrypted (${error instanceof Error ? error.message : 'unknown error'}). ` +
+      'Check CONFIG_ENCRYPTION_KEY and CONFIG_ENCRYPTION_PREVIOUS_KEYS.'
+    );
+  }
+
+  // Ensure private key has proper newlines
+  if (config.googleServiceAccount?.privateKey) {
+    config.googleServiceAccount.privateKey = config.googleServiceAccount.privateKey.replace(/\\n/g, '\n');
+  }
+  console.log('✅ Loaded configuration from KV storage');
+  return config;
 }
 
 /**
@@ -77,6 +104,7 @@ function loadConfigFromEnv(): AppConfig {
     cfAccountId: process.env.CLOUDFLARE_ACCOUNT_ID || '',
     cfApiToken: process.env.CLOUDFLARE_API_TOKEN || '',
     cfNamespaceId: process.env.CLOUDFLARE_KV_NAMESPACE_ID || '',
+    holdoutPercentage: Number(process.env.HOLDOUT_PERCENTAGE) || 0,
   };
 }
 
@@ -85,10 +113,61 @@ function loadConfigFromEnv(): AppConfig {
  */
 export async function saveConfig(config: AppConfig): Promise<void> {
   const kv = getKVStore();
-  await kv.put(CONFIG_KEY, JSON.stringify(config));
+  await kv.put(CONFIG_KEY, JSON.stringify(transformSecrets(config, encryptSecret)));
+  // The config above holds secrets, so Workers get the holdout from its own key
+  await kv.put(HOLDOUT_CONFIG_KEY, JSON.stringify({ percentage: config.holdoutPercentage || 0 }));
   console.log('✅ Configuration saved to KV storage');
 }
 
+/**
+ * Apply an encrypt/decrypt function to every secret field
+ */
+function transformSecrets(config: AppConfig, transform: (value: string) => string): AppConfig {
+  return {
+    ...config,
+    gaApiSecret: transform(config.gaApiSecret),
+    googleServiceAccount: {
+      ...config.googleServiceAccount,
+      privateKey: transform(config.googleServiceAccount?.privateKey || ''),
+    },
+    cfApiToken: transform(config.cfApiToken),
+  };
+}
+
+/**
+ * Re-wrap the stored secrets with the current CONFIG_ENCRYPTION_KEY (encrypting
+ * any that are still plaintext) and remove GA4 API secrets that older versions
+ * copied into test records. Run after changing the key, then drop the old key
+ * from CONFIG_ENCRYPTION_PREVIOUS_KEYS.
+ */
+export async function rotateConfigEncryption(): Promise<{ secretsRewrapped: number; testsCleaned: number }> {
+  const kv = getKVStore();
+  let secretsRewrapped = 0;
+
+  const stored = await kv.get(CONFIG_KEY);
+  if (stored) {
+    const config = JSON.parse(stored) as AppConfig;
+    const rotated = transformSecrets(config, value => {
+      const rewrapped = rewrapSecret(value);
+      if (rewrapped !== value) secretsRewrapped++;
+      return rewrapped;
+    });
+    await kv.put(CONFIG_KEY, JSON.stringify(rotated));
+  }
+
+  let testsCleaned = 0;
+  for (const test of await getAllTests()) {
+    const ga4: Test['ga4'] & { apiSecret?: string } = { ...test.ga4 };
+    if (ga4.apiSecret !== undefined) {
+      delete ga4.apiSecret;
+      await saveTest({ ...test, ga4 });
+      testsCleaned++;
+    }
+  }
+
+  return { secretsRewrapped, testsCleaned };
+}
+
 /**
  * Validate configuration
  */
@@ -137,6 +216,11 @@ export function validateConfig(config: Partial<AppConfig>): string[] {
     errors.push('Cloudflare KV Namespace ID is required');
   }
 
+  const holdout = config.holdoutPercentage ?? 0;
+  if (typeof holdout !== 'number' || !Number.isFinite(holdout) || holdout < 0 || holdout > MAX_HOLDOUT_PERCENTAGE) {
+    errors.push(`Holdout percentage must be between 0 and ${MAX_HOLDOUT_PERCENTAGE}`);
+  }
+
   return errors;
 }
 
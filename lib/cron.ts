@@ -0,0 +1,110 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import type { NextRequest } from 'next/server';
+import { getCronNonces, saveCronNonces, getRateLimit, saveRateLimit } from './kv';
+import { env } from './env';
+
+/**
+ * Scheduled sync authentication and rate limiting
+ *
+ * Schedulers prove they know CRON_SECRET in one of two ways:
+ *
+ * - `Authorization: Bearer <CRON_SECRET>`, which Vercel Cron sends automatically
+ * - An HMAC-SHA256 signature of `<timestamp>.<METHOD>.<path>` in
+ *   `X-EdgeSplit-Signature`, with the Unix time in ms in `X-EdgeSplit-Timestamp`.
+ *   Signatures expire after five minutes and are accepted only once.
+ *
+ * Every caller (cron, user or API key) is also limited to a few syncs per
+ * window so nobody can burn through the GA4 quota.
+ */
+
+export const CRON_SIGNATURE_HEADER = 'x-edgesplit-signature';
+export const CRON_TIMESTAMP_HEADER = 'x-edgesplit-timestamp';
+export const CRON_SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+// Cron runs every 15 minutes; the headroom allows retries and a few manual syncs
+export const SYNC_RATE_LIMIT = { limit: 4, windowMs: 15 * 60 * 1000 };
+
+export type CronVerification = { valid: true } | { valid: false; error: string };
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfter: number; // Seconds until the window resets
+}
+
+// Compare digests so the check takes the same time whatever the input length
+function digestEqual(a: string, b: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(a), digest(b));
+}
+
+export function signCronRequest(secret: string, timestamp: number, method: string, path: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${method.toUpperCase()}.${path}`).digest('hex');
+}
+
+/**
+ * Check a request's cron credentials. Returns null when it carries none, so
+ * the caller can fall back to session or API key authentication.
+ */
+export async function verifyCronRequest(request: NextRequest, now: number = Date.now()): Promise<CronVerification | null> {
+  const signature = request.headers.get(CRON_SIGNATURE_HEADER);
+  const header = request.headers.get('authorization');
+
+  if (!signature) {
+    return env.cronSecret && header && digestEqual(header, `Bearer ${env.cronSecret}`)
+      ? { valid: true }
+      : null;
+  }
+
+  if (!env.cronSecret) {
+    return { valid: false, error: 'CRON_SECRET is not configured' };
+  }
+
+  const timestamp = Number(request.headers.get(CRON_TIMESTAMP_HEADER));
+  if (!Number.isFinite(timestamp) || Math.abs(now - timestamp) > CRON_SIGNATURE_TOLERANCE_MS) {
+    return { valid: false, error: 'Signature timestamp is missing or outside the allowed window' };
+  }
+
+  const expected = signCronRequest(env.cronSecret, timestamp, request.method, request.nextUrl.pathname);
+  if (!digestEqual(signature, expected)) {
+    return { valid: false, error: 'Invalid signature' };
+  }
+
+  // Remember signatures until they expire; older ones fail the timestamp check anyway
+  const nonces = await getCronNonces();
+  if (nonces[signature]) {
+    return { valid: false, error: 'Signature has already been used' };
+  }
+
+  const fresh: Record<string, number> = { [signature]: timestamp };
+  for (const [used, usedAt] of Object.entries(nonces)) {
+    if (now - usedAt <= CRON_SIGNATURE_TOLERANCE_MS) {
+      fresh[used] = usedAt;
+    }
+  }
+  await saveCronNonces(fresh);
+
+  return { valid: true };
+}
+
+/**
+ * Count a request against a fixed-window limit for the caller
+ */
+export async function checkRateLimit(
+  bucket: string,
+  { limit, windowMs }: { limit: number; windowMs: number },
+  now: number = Date.now()
+): Promise<RateLimitResult> {
+  const current = await getRateLimit(bucket);
+  const window = current && now - current.windowStart < windowMs
+    ? current
+    : { windowStart: now, count: 0 };
+
+  const retryAfter = Math.ceil((window.windowStart + windowMs - now) / 1000);
+  if (window.count >= limit) {
+    return { allowed: false, remaining: 0, retryAfter };
+  }
+
+  await saveRateLimit(bucket, { windowStart: window.windowStart, count: window.count + 1 });
+  return { allowed: true, remaining: limit - window.count - 1, retryAfter };
+}
@@ -0,0 +1,126 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { env } from './env';
+
+/**
+ * Envelope encryption for secrets stored in KV
+ *
+ * Each secret is encrypted with its own random data key (AES-256-GCM), and
+ * the data key is encrypted ("wrapped") with the master key from
+ * CONFIG_ENCRYPTION_KEY. Values are stored as
+ *
+ *   enc:v1:<master key id>:<wrapped data key>:<ciphertext>
+ *
+ * so they can live inside ordinary JSON. Rotating the master key only
+ * re-wraps the data keys: keep the old key in CONFIG_ENCRYPTION_PREVIOUS_KEYS
+ * until the rotation routine has run (see rotateConfigEncryption in lib/config.ts).
+ */
+
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+function parseMasterKey(value: string, name: string): MasterKey {
+  const key = Buffer.from(value.trim(), 'base64');
+  if (key.length !== KEY_LENGTH) {
+    throw new Error(`${name} must be ${KEY_LENGTH} bytes, base64-encoded (generate one with: openssl rand -base64 32)`);
+  }
+  return { id: createHash('sha256').update(key).digest('hex').slice(0, 8), key };
+}
+
+/**
+ * The key new values are encrypted with, or null when encryption isn't configured
+ */
+function getCurrentKey(): MasterKey | null {
+  return env.encryptionKey ? parseMasterKey(env.encryptionKey, 'CONFIG_ENCRYPTION_KEY') : null;
+}
+
+function findKey(id: string): MasterKey {
+  const keys = [
+    ...(env.encryptionKey ? [parseMasterKey(env.encryptionKey, 'CONFIG_ENCRYPTION_KEY')] : []),
+    ...env.previousEncryptionKeys.map(key => parseMasterKey(key, 'CONFIG_ENCRYPTION_PREVIOUS_KEYS')),
+  ];
+
+  const match = keys.find(key => key.id === id);
+  if (!match) {
+    throw new Error(`No encryption key with id ${id}; add it to CONFIG_ENCRYPTION_PREVIOUS_KEYS`);
+  }
+  return match;
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, ciphertext, cipher.getAuthTag()]).toString('base64');
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+  const data = Buffer.from(sealed, 'base64');
+  const decipher = createDecipheriv('aes-256-gcm', key, data.subarray(0, IV_LENGTH));
+  decipher.setAuthTag(data.subarray(data.length - TAG_LENGTH));
+  return Buffer.concat([decipher.update(data.subarray(IV_LENGTH, data.length - TAG_LENGTH)), decipher.final()]);
+}
+
+function parseEnvelope(value: string): { keyId: string; wrappedKey: string; ciphertext: string } {
+  const [keyId, wrappedKey, ciphertext] = value.slice(ENCRYPTED_PREFIX.length).split(':');
+  if (!keyId || !wrappedKey || !ciphertext) {
+    throw new Error('Malformed encrypted value');
+  }
+  return { keyId, wrappedKey, ciphertext };
+}
+
+export function isEncryptionConfigured(): boolean {
+  return !!env.encryptionKey;
+}
+
+export function isEncrypted(value: string): boolean {
+  return value.startsWith(ENCRYPTED_PREFIX);
+}
+
+/**
+ * Encrypt a secret with a fresh data key. Returns the value unchanged when
+ * encryption isn't configured or it is already encrypted.
+ */
+export function encryptSecret(value: string): string {
+  const masterKey = getCurrentKey();
+  if (!masterKey || !value || isEncrypted(value)) return value;
+
+  const dataKey = randomBytes(KEY_LENGTH);
+  return `${ENCRYPTED_PREFIX}${masterKey.id}:${seal(masterKey.key, dataKey)}:${seal(dataKey, Buffer.from(value, 'utf8'))}`;
+}
+
+/**
+ * Decrypt a value written by encryptSecret (plaintext values pass through)
+ */
+export function decryptSecret(value: string): string {
+  if (!value || !isEncrypted(value)) return value;
+
+  const { keyId, wrappedKey, ciphertext } = parseEnvelope(value);
+  const dataKey = open(findKey(keyId).key, wrappedKey);
+  return open(dataKey, ciphertext).toString('utf8');
+}
+
+/**
+ * Re-wrap a value's data key with the current master key, encrypting
+ * plaintext values on the way. The secret itself is not re-encrypted.
+ */
+export function rewrapSecret(value: string): string {
+  const masterKey = getCurrentKey();
+  if (!masterKey) {
+    throw new Error('CONFIG_ENCRYPTION_KEY is not set');
+  }
+  if (!value) return value;
+  if (!isEncrypted(value)) return encryptSecret(value);
+
+  const { keyId, wrappedKey, ciphertext } = parseEnvelope(value);
+  if (keyId === masterKey.id) return value;
+
+  const dataKey = open(findKey(keyId).key, wrappedKey);
+  return `${ENCRYPTED_PREFIX}${masterKey.id}:${seal(masterKey.key, dataKey)}:${ciphertext}`;
+}
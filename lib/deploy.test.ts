@@ -0,0 +1,212 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { deployWorker, getRoutePattern, getWorkerScriptName, validateDeployment } from './deploy';
+import type { AppConfig } from './config';
+import type { Test } from '@/types/Test';
+
+const API = 'https://cf.test/client/v4';
+
+const config = {
+  gaApiSecret: 'ga-secret',
+  cfAccountId: 'account1',
+  cfApiToken: 'cf-token',
+  cfNamespaceId: 'namespace1',
+} as AppConfig;
+
+const test = {
+  id: 'Checkout',
+  name: 'Checkout',
+  entryDomain: 'go.example.com',
+  entryPath: '/checkout',
+  variants: [{ id: 'variant1', url: 'https://example.com/b', percentage: 50 }],
+} as unknown as Test;
+
+interface Call {
+  method: string;
+  path: string;
+  headers: Headers;
+  body?: BodyInit | null;
+}
+
+type Handler = (call: Call) => { status?: number; result?: unknown; errors?: string[] } | undefined;
+
+/**
+ * Stand-in for the Cloudflare API: each call is recorded and answered by the
+ * first handler that returns a response (404 if none does)
+ */
+function mockCloudflare(...handlers: Handler[]): Call[] {
+  const calls: Call[] = [];
+
+  vi.stubGlobal('fetch', vi.fn(async (url: string, init: RequestInit = {}) => {
+    const call: Call = {
+      method: init.method || 'GET',
+      path: url.slice(API.length),
+      headers: new Headers(init.headers),
+      body: init.body,
+    };
+    calls.push(call);
+
+    for (const handler of handlers) {
+      const reply = handler(call);
+      if (reply) {
+        const errors = (reply.errors || []).map(message => ({ code: 1000, message }));
+        return Response.json(
+          { success: errors.length === 0, errors, result: reply.result ?? null },
+          { status: reply.status || 200 }
+        );
+      }
+    }
+
+    return new Response('Not found', { status: 404, statusText: 'Not Found' });
+  }));
+
+  return calls;
+}
+
+const uploadOk: Handler = ({ method, path }) =>
+  method === 'PUT' && path.startsWith('/accounts/') ? { result: { id: 'checkout-router' } } : undefined;
+
+const zoneAt = (name: string): Handler => ({ path }) =>
+  path.startsWith('/zones?') ? { result: path === `/zones?name=${name}` ? [{ id: 'zone1', name }] : [] } : undefined;
+
+const routes = (existing: Array<{ id: string; pattern: string; script?: string }>): Handler => ({ method, path }) => {
+  if (path !== '/zones/zone1/workers/routes' && !path.startsWith('/zones/zone1/workers/routes/')) return undefined;
+  if (method === 'GET') return { result: existing };
+  if (method === 'POST') return { result: { id: 'route-new' } };
+  return { result: { id: path.split('/').pop() } };
+};
+
+describe('deployWorker', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('uploads the script, finds the zone and creates the route', async () => {
+    const calls = mockCloudflare(uploadOk, zoneAt('example.com'), routes([]));
+
+    const status = await deployWorker(test, config, { apiBaseUrl: API, now: 1000 });
+
+    expect(status).toEqual({
+      testId: 'Checkout',
+      state: 'deployed',
+      scriptName: 'checkout-router',
+      routePattern: 'go.example.com/checkout*',
+      deployedAt: 1000,
+      zoneId: 'zone1',
+      routeId: 'route-new',
+    });
+    expect(calls.map(call => `${call.method} ${call.path}`)).toEqual([
+      'PUT /accounts/account1/workers/scripts/checkout-router',
+      'GET /zones?name=go.example.com',
+      'GET /zones?name=example.com',
+      'GET /zones/zone1/workers/routes',
+      'POST /zones/zone1/workers/routes',
+    ]);
+    expect(calls.every(call => call.headers.get('Authorization') === 'Bearer cf-token')).toBe(true);
+    expect(JSON.parse(calls[4].body as string)).toEqual({ pattern: 'go.example.com/checkout*', script: 'checkout-router' });
+  });
+
+  it('uploads the Worker as a module with the KV and secret bindings', async () => {
+    const calls = mockCloudflare(uploadOk, zoneAt('example.com'), routes([]));
+
+    await deployWorker(test, config, { apiBaseUrl: API });
+
+    const form = calls[0].body as FormData;
+    const metadata = JSON.parse(await (form.get('metadata') as Blob).text());
+    expect(metadata.main_module).toBe('worker.js');
+    expect(metadata.bindings).toEqual([
+      { type: 'kv_namespace', name: 'AB_TESTS', namespace_id: 'namespace1' },
+      { type: 'secret_text', name: 'GA4_API_SECRET', text: 'ga-secret' },
+    ]);
+    expect(await (form.get('worker.js') as Blob).text()).toContain('export default {');
+  });
+
+  it('repoints an existing route that serves another script', async () => {
+    const calls = mockCloudflare(
+      uploadOk,
+      zoneAt('go.example.com'),
+      routes([{ id: 'route1', pattern: 'go.example.com/checkout*', script: 'old-router' }])
+    );
+
+    const status = await deployWorker(test, config, { apiBaseUrl: API });
+
+    expect(status.state).toBe('deployed');
+    expect(status.routeId).toBe('route1');
+    expect(calls.at(-1)).toMatchObject({ method: 'PUT', path: '/zones/zone1/workers/routes/route1' });
+  });
+
+  it('leaves a route that already serves the script alone', async () => {
+    const calls = mockCloudflare(
+      uploadOk,
+      zoneAt('go.example.com'),
+      routes([{ id: 'route1', pattern: 'go.example.com/checkout*', script: 'checkout-router' }])
+    );
+
+    const status = await deployWorker(test, config, { apiBaseUrl: API });
+
+    expect(status.routeId).toBe('route1');
+    expect(calls.filter(call => call.method !== 'GET')).toHaveLength(1);
+  });
+
+  it('reports a failed script upload with the API error', async () => {
+    const calls = mockCloudflare(({ path }) =>
+      path.startsWith('/accounts/') ? { status: 403, errors: ['Authentication error'] } : undefined
+    );
+
+    const status = await deployWorker(test, config, { apiBaseUrl: API });
+
+    expect(status.state).toBe('failed');
+    expect(status.failedStep).toBe('script');
+    expect(status.error).toBe('Cloudflare API error (403): Authentication error');
+    expect(calls).toHaveLength(1);
+  });
+
+  it('reports a missing zone after trying every parent domain', async () => {
+    const calls = mockCloudflare(uploadOk, ({ path }) => (path.startsWith('/zones?') ? { result: [] } : undefined));
+
+    const status = await deployWorker(test, config, { apiBaseUrl: API });
+
+    expect(status.failedStep).toBe('zone');
+    expect(status.error).toBe('No Cloudflare zone found for go.example.com');
+    expect(calls.map(call => call.path)).not.toContain('/zones?name=com');
+  });
+
+  it('reports a failed route update', async () => {
+    mockCloudflare(uploadOk, zoneAt('example.com'), ({ method, path }) => {
+      if (!path.startsWith('/zones/zone1/workers/routes')) return undefined;
+      return method === 'GET' ? { result: [] } : { status: 409, errors: ['Route already exists'] };
+    });
+
+    const status = await deployWorker(test, config, { apiBaseUrl: API });
+
+    expect(status.state).toBe('failed');
+    expect(status.failedStep).toBe('route');
+    expect(status.zoneId).toBe('zone1');
+    expect(status.error).toBe('Cloudflare API error (409): Route already exists');
+  });
+
+  it('reports non-JSON error pages by status', async () => {
+    mockCloudflare();
+
+    const status = await deployWorker(test, config, { apiBaseUrl: API });
+
+    expect(status.failedStep).toBe('script');
+    expect(status.error).toBe('Cloudflare API error (404): Not Found');
+  });
+});
+
+describe('validateDeployment', () => {
+  it('lists every missing setting', () => {
+    expect(validateDeployment({ ...test, entryDomain: undefined } as unknown as Test, {} as AppConfig)).toEqual([
+      'Cloudflare account ID is not configured',
+      'Cloudflare API token is not configured',
+      'Cloudflare KV namespace ID is not configured',
+      'Test has no entry domain to route',
+    ]);
+    expect(validateDeployment(test, config)).toEqual([]);
+  });
+
+  it('derives the script name and route pattern from the test', () => {
+    expect(getWorkerScriptName(test)).toBe('checkout-router');
+    expect(getRoutePattern(test)).toBe('go.example.com/checkout*');
+  });
+});
@@ -0,0 +1,225 @@
+import type { Test, DeploymentStatus, DeploymentStep } from '@/types/Test';
+import type { AppConfig } from './config';
+import { generateWorkerCode } from './cloudflare';
+
+/**
+ * Automated Worker deployment via the Cloudflare API
+ *
+ * Uploads the generated Worker as an ES module with the AB_TESTS KV binding and
+ * the GA4_API_SECRET secret, then creates (or repoints) the zone route for
+ * entryDomain + entryPath*.
+ * Set CLOUDFLARE_API_BASE_URL to run against a local mock of the API.
+ */
+
+export const DEFAULT_CLOUDFLARE_API_BASE_URL = 'https://api.cloudflare.com/client/v4';
+
+// Bump deliberately: newer dates can change runtime behavior of deployed Workers
+const COMPATIBILITY_DATE = '2024-01-01';
+
+const WORKER_MODULE_NAME = 'worker.js';
+
+export interface DeployOptions {
+  apiBaseUrl?: string;
+  now?: number;
+}
+
+interface CloudflareEnvelope<T> {
+  success: boolean;
+  errors?: Array<{ code: number; message: string }>;
+  result: T;
+}
+
+interface CloudflareRoute {
+  id: string;
+  pattern: string;
+  script?: string;
+}
+
+/**
+ * Name of the Worker script for a test (matches the manual setup instructions)
+ */
+export function getWorkerScriptName(test: Test): string {
+  return `${test.id}-router`.toLowerCase().replace(/[^a-z0-9_-]/g, '-').slice(0, 63);
+}
+
+/**
+ * Route pattern that sends the test's entry path (and anything below it) to the Worker
+ */
+export function getRoutePattern(test: Test): string {
+  return `${test.entryDomain}${test.entryPath}*`;
+}
+
+/**
+ * Validate that everything needed for an automated deployment is configured
+ */
+export function validateDeployment(test: Test, config: AppConfig): string[] {
+  const errors: string[] = [];
+
+  if (!config.cfAccountId) errors.push('Cloudflare account ID is not configured');
+  if (!config.cfApiToken) errors.push('Cloudflare API token is not configured');
+  if (!config.cfNamespaceId) errors.push('Cloudflare KV namespace ID is not configured');
+  if (!test.entryDomain) errors.push('Test has no entry domain to route');
+
+  return errors;
+}
+
+/**
+ * Deploy the Worker for a test and report what happened (never throws for API failures)
+ */
+export async function deployWorker(
+  test: Test,
+  config: AppConfig,
+  options: DeployOptions = {}
+): Promise<DeploymentStatus> {
+  const apiBaseUrl = (options.apiBaseUrl || process.env.CLOUDFLARE_API_BASE_URL || DEFAULT_CLOUDFLARE_API_BASE_URL)
+    .replace(/\/$/, '');
+
+  const status: DeploymentStatus = {
+    testId: test.id,
+    state: 'failed',
+    scriptName: getWorkerScriptName(test),
+    routePattern: getRoutePattern(test),
+    deployedAt: options.now ?? Date.now(),
+  };
+
+  const request = <T>(path: string, init: RequestInit = {}) =>
+    cloudflareRequest<T>(apiBaseUrl, config.cfApiToken, path, init);
+
+  let step: DeploymentStep = 'script';
+
+  try {
+    await uploadScript(request, test, config, status.scriptName);
+
+    step = 'zone';
+    status.zoneId = await findZoneId(request, test.entryDomain as string);
+
+    step = 'route';
+    status.routeId = await upsertRoute(request, status.zoneId, status.routePattern, status.scriptName);
+
+    status.state = 'deployed';
+  } catch (error) {
+    status.failedStep = step;
+    status.error = error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  return status;
+}
+
+/**
+ * Upload the generated Worker as an ES module bound to the AB_TESTS namespace,
+ * with the GA4 API secret as a secret binding
+ */
+async function uploadScript(
+  request: <T>(path: string, init?: RequestInit) => Promise<T>,
+  test: Test,
+  config: AppConfig,
+  scriptName: string
+): Promise<void> {
+  const metadata = {
+    main_module: WORKER_MODULE_NAME,
+    compatibility_date: COMPATIBILITY_DATE,
+    bindings: [
+      { type: 'kv_namespace', name: 'AB_TESTS', namespace_id: config.cfNamespaceId },
+      // Uploaded as a Worker secret rather than stored with the test config in KV
+      ...(config.gaApiSecret ? [{ type: 'secret_text', name: 'GA4_API_SECRET', text: config.gaApiSecret }] : []),
+    ],
+  };
+
+  const form = new FormData();
+  form.append('metadata', new Blob([JSON.stringify(metadata)], { type: 'application/json' }));
+  form.append(
+    WORKER_MODULE_NAME,
+    new Blob([generateWorkerCode(test)], { type: 'application/javascript+module' }),
+    WORKER_MODULE_NAME
+  );
+
+  await request(`/accounts/${config.cfAccountId}/workers/scripts/${scriptName}`, {
+    method: 'PUT',
+    body: form,
+  });
+}
+
+/**
+ * Find the zone that serves a hostname, walking up from the full name to the apex
+ * (e.g. go.example.com -> example.com)
+ */
+async function findZoneId(
+  request: <T>(path: string, init?: RequestInit) => Promise<T>,
+  hostname: string
+): Promise<string> {
+  const labels = hostname.split('.');
+
+  for (let i = 0; i <= labels.length - 2; i++) {
+    const candidate = labels.slice(i).join('.');
+    const zones = await request<Array<{ id: string; name: string }>>(
+      `/zones?name=${encodeURIComponent(candidate)}`
+    );
+
+    if (zones.length > 0) {
+      return zones[0].id;
+    }
+  }
+
+  throw new Error(`No Cloudflare zone found for ${hostname}`);
+}
+
+/**
+ * Create the route, or point an existing route with the same pattern at our script
+ */
+async function upsertRoute(
+  request: <T>(path: string, init?: RequestInit) => Promise<T>,
+  zoneId: string,
+  pattern: string,
+  scriptName: string
+): Promise<string> {
+  const routes = await request<CloudflareRoute[]>(`/zones/${zoneId}/workers/routes`);
+  const existing = routes.find(route => route.pattern === pattern);
+  const body = JSON.stringify({ pattern, script: scriptName });
+  const headers = { 'Content-Type': 'application/json' };
+
+  if (existing) {
+    if (existing.script !== scriptName) {
+      await request(`/zones/${zoneId}/workers/routes/${existing.id}`, { method: 'PUT', headers, body });
+    }
+    return existing.id;
+  }
+
+  const created = await request<CloudflareRoute>(`/zones/${zoneId}/workers/routes`, {
+    method: 'POST',
+    headers,
+    body,
+  });
+  return created.id;
+}
+
+/**
+ * Call the Cloudflare API and unwrap its { success, errors, result } envelope
+ */
+async function cloudflareRequest<T>(
+  apiBaseUrl: string,
+  apiToken: string,
+  path: string,
+  init: RequestInit = {}
+): Promise<T> {
+  const response = await fetch(`${apiBaseUrl}${path}`, {
+    ...init,
+    headers: {
+      ...init.headers,
+      'Authorization': `Bearer ${apiToken}`,
+    },
+  });
+
+  let data: CloudflareEnvelope<T> | null = null;
+  try {
+    data = await response.json();
+  } catch {
+    // Non-JSON error pages are reported by status below
+  }
+
+  if (!response.ok || !data?.success) {
+    const message = data?.errors?.map(e => e.message).join(', ') || response.statusText;
+    throw new Error(`Cloudflare API error (${response.status}): ${message}`);
+  }
+
+  return data.result;
+}
@@ -30,7 +30,10 @@
  * - `APP_URL`: Your application's base URL
  * - `NEXT_PUBLIC_APP_URL`: Public-facing app URL (client-side accessible)
  * - `JWT_SECRET`: Secret key for JWT token generation (optional)
- * - `SETTINGS_PASSWORD`: Password to protect settings page (optional but recommended)
+ * - `ADMIN_EMAIL` / `ADMIN_PASSWORD`: First admin account, created on the first sign-in while no users exist
+ * - `CRON_SECRET`: Bearer token or HMAC key for the scheduled sync (see lib/cron.ts)
+ * - `CONFIG_ENCRYPTION_KEY`: 32-byte base64 master key that encrypts credentials saved in KV (see lib/crypto.ts)
+ * - `CONFIG_ENCRYPTION_PREVIOUS_KEYS`: Comma-separated old master keys, only needed while rotating
  * 
  * @see .env.example for complete configuration template
  */
@@ -58,7 +61,11 @@ interface Env {
   appUrl: string;
   publicAppUrl: string;
   jwtSecret?: string;
-  settingsPassword?: string;
+  adminEmail?: string; // Bootstrap admin, only used while no users exist
+  adminPassword?: string;
+  cronSecret?: string;
+  encryptionKey?: string;
+  previousEncryptionKeys: string[];
 }
 
 /**
@@ -153,7 +160,20 @@ function loadEnv(): Env {
   const appUrl = requireEnv('APP_URL');
   const publicAppUrl = requireEnv('NEXT_PUBLIC_APP_URL');
   const jwtSecret = getEnv('JWT_SECRET');
-  const settingsPassword = getEnv('SETTINGS_PASSWORD');
+  const adminEmail = getEnv('ADMIN_EMAIL');
+  const adminPassword = getEnv('ADMIN_PASSWORD');
+  const cronSecret = getEnv('CRON_SECRET');
+  const encryptionKey = getEnv('CONFIG_ENCRYPTION_KEY');
+  const previousEncryptionKeys = (getEnv('CONFIG_ENCRYPTION_PREVIOUS_KEYS') || '')
+    .split(',')
+    .map(key => key.trim())
+    .filter(Boolean);
+
+  if (!encryptionKey) {
+    console.warn(
+      'Warning: CONFIG_ENCRYPTION_KEY is not set, so credentials saved from the Settings page are stored in KV as plaintext'
+    );
+  }
 
   return {
     gaMeasurementId,
@@ -166,7 +186,11 @@ function loadEnv(): Env {
     appUrl,
     publicAppUrl,
     jwtSecret,
-    settingsPassword,
+    adminEmail,
+    adminPassword,
+    cronSecret,
+    encryptionKey,
+    previousEncryptionKeys,
   };
 }
 
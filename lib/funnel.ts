@@ -0,0 +1,99 @@
+import type { FunnelStep, FunnelAnalysis, Test, TestStats } from '@/types/Test';
+import { slugify } from './utils';
+
+/**
+ * Multi-step funnels
+ *
+ * Each step is its own event (e.g. opt-in → webinar attendance → purchase),
+ * fired by a snippet on the step's page and counted per bucket next to the
+ * view and primary conversion. The primary conversion still drives
+ * significance and the winner; steps show where each arm loses visitors.
+ */
+
+export const MAX_FUNNEL_STEPS = 8;
+
+// Step IDs become part of the event name, so they must not clash with the built-in events
+const RESERVED_STEP_IDS = ['view', 'conversion'];
+
+/**
+ * Stable step ID derived from its name (GA4 event names only allow letters, numbers and _)
+ */
+export function getFunnelStepId(name: string): string {
+  return slugify(name).replace(/-/g, '_');
+}
+
+/**
+ * Validate funnel step names, returning a list of errors
+ */
+export function validateFunnelSteps(steps?: { name: string }[]): string[] {
+  const errors: string[] = [];
+  if (!steps || steps.length === 0) return errors;
+
+  if (steps.length > MAX_FUNNEL_STEPS) {
+    errors.push(`A funnel can have at most ${MAX_FUNNEL_STEPS} steps`);
+  }
+
+  const ids = new Set<string>();
+  steps.forEach((step, index) => {
+    const id = getFunnelStepId(step.name || '');
+    if (!id) {
+      errors.push(`Funnel step ${index + 1} needs a name`);
+    } else if (RESERVED_STEP_IDS.includes(id)) {
+      errors.push(`Funnel step ${index + 1} cannot be called "${step.name}"`);
+    } else if (ids.has(id)) {
+      errors.push(`Funnel step "${step.name}" is used twice`);
+    }
+    ids.add(id);
+  });
+
+  return errors;
+}
+
+/**
+ * Build the stored steps, naming each event after the test like the view and conversion events
+ */
+export function buildFunnelSteps(testId: string, steps?: { name: string }[]): FunnelStep[] | undefined {
+  if (!steps || steps.length === 0) return undefined;
+
+  return steps.map(step => {
+    const id = getFunnelStepId(step.name);
+    return { id, name: step.name.trim(), event: `${testId}_${id}` };
+  });
+}
+
+/**
+ * Per-arm step counts with step-to-step and overall rates
+ */
+export function analyzeFunnel(test: Test, stats: TestStats): FunnelAnalysis | null {
+  const steps = test.funnelSteps || [];
+  if (steps.length === 0) return null;
+
+  const arms = [
+    { bucket: 'control', views: stats.controlViews },
+    ...test.variants.map(variant => ({ bucket: variant.id, views: stats.variantStats[variant.id]?.views || 0 })),
+  ];
+
+  return {
+    steps: steps.map(step => ({ id: step.id, name: step.name })),
+    arms: arms.map(({ bucket, views }) => {
+      let previous = views;
+
+      return {
+        bucket,
+        views,
+        steps: steps.map(step => {
+          const count = stats.funnel?.[step.id]?.[bucket] || 0;
+          const result = {
+            id: step.id,
+            name: step.name,
+            count,
+            stepRate: previous > 0 ? (count / previous) * 100 : 0,
+            overallRate: views > 0 ? (count / views) * 100 : 0,
+          };
+          previous = count;
+          return result;
+        }),
+      };
+    }),
+  };
+}
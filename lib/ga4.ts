@@ -1,5 +1,7 @@
-import type { Test, TestStats, GA4ReportResponse, GA4ReportRow } from '@/types/Test';
+import type { Test, TestStats, DailyStats, BucketCounts, GA4ReportResponse, GA4ReportRow } from '@/types/Test';
 import { loadConfig, type AppConfig } from './config';
+import { buildTestStats } from './stats';
+import { getStartTime } from './lifecycle';
 
 /**
  * GA4 Data API integration
@@ -12,196 +14,200 @@ interface GA4Credentials {
   serviceAccountKey?: string;
 }
 
+/**
+ * First day to report on: the day before the test started, since GA4 buckets
+ * dates in the property's time zone rather than UTC
+ */
+function getReportStartDate(test: Test): string {
+  return new Date(getStartTime(test) - 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * Fetch aggregate stats (sequential tests get no winner without their analysis, see buildTestStats)
+ */
 export async function fetchGA4Stats(test: Test): Promise<TestStats> {
+  const { counts } = await fetchGA4Counts(test);
+  return buildTestStats(test, counts);
+}
+
+/**
+ * Fetch every per-bucket count the test tracks (views, conversions, funnel steps,
+ * guardrails and revenue) plus the per-day breakdown. The dashboard and the sync
+ * cron both read GA4 through here, so they always agree.
+ * Throws when GA4 can't be queried, so callers never mistake a failure for a test without data.
+ */
+export async function fetchGA4Counts(test: Test): Promise<{ counts: BucketCounts; daily: DailyStats[] }> {
+  const accessToken = await getAccessToken();
+
+  const data = await runReport(test, accessToken, {
+    eventNames: Array.from(new Set([
+      test.eventNames.view,
+      test.eventNames.conversion,
+      ...(test.funnelSteps || []).map(step => step.event),
+      ...(test.guardrails || []).map(guardrail => guardrail.event),
+    ])),
+    dimensions: ['eventName', 'customEvent:bucket', 'date'],
+    metrics: ['eventCount'],
+  });
+
+  // Revenue comes from its own report, so only revenue-tracked tests depend on
+  // value_squared being registered as a custom metric (runReport explains when it isn't)
+  const revenueData = test.revenue
+    ? await runReport(test, accessToken, {
+        eventNames: [test.eventNames.conversion],
+        dimensions: ['eventName', 'customEvent:bucket'],
+        metrics: ['eventValue', 'customEvent:value_squared'],
+      })
+    : null;
+
+  return {
+    counts: parseGA4Counts(data, revenueData, test),
+    daily: parseDailyStats(data, test),
+  };
+}
+
+interface ReportQuery {
+  eventNames: string[];
+  dimensions: string[];
+  metrics: string[];
+}
+
+/**
+ * Run a Data API report over the test's events since it started
+ */
+async function runReport(test: Test, accessToken: string, query: ReportQuery): Promise<GA4ReportResponse> {
   const propertyId = test.ga4.propertyId;
-  const viewEvent = test.eventNames.view;
-  const conversionEvent = test.eventNames.conversion;
 
-  try {
-    const accessToken = await getAccessToken();
-    
-    const response = await fetch(
-      `https://analyticsdata.googleapis.com/v1beta/properties/${propertyId}:runReport`,
-      {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          dateRanges: [{ startDate: '30daysAgo', endDate: 'today' }],
-          dimensions: [
-            { name: 'eventName' },
-            { name: 'customEvent:bucket' }
-          ],
-          metrics: [{ name: 'eventCount' }],
-          dimensionFilter: {
-            orGroup: {
-              expressions: [
-                {
-                  filter: {
-                    fieldName: 'eventName',
-                    stringFilter: { value: viewEvent }
-                  }
-                },
-                {
-                  filter: {
-                    fieldName: 'eventName',
-                    stringFilter: { value: conversionEvent }
-                  }
-                }
-              ]
-            }
+  const response = await fetch(
+    `https://analyticsdata.googleapis.com/v1beta/properties/${propertyId}:runReport`,
+    {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        dateRanges: [{ startDate: getReportStartDate(test), endDate: 'today' }],
+        dimensions: query.dimensions.map(name => ({ name })),
+        metrics: query.metrics.map(name => ({ name })),
+        dimensionFilter: {
+          orGroup: {
+            expressions: query.eventNames.map(eventName => ({
+              filter: {
+                fieldName: 'eventName',
+                stringFilter: { value: eventName }
+              }
+            }))
           }
-        }),
-      }
-    );
-
-    if (!response.ok) {
-      const errorBody = await response.text();
-      console.error(`GA4 API Error Details:`, {
-        status: response.status,
-        statusText: response.statusText,
-        propertyId,
-        body: errorBody,
-        hint: response.status === 403 
-          ? `Service account may not have access to property ${propertyId}. Grant 'Viewer' role in GA4 Admin > Property Access Management`
-          : undefined
-      });
-      throw new Error(`GA4 API error: ${response.status} ${response.statusText}`);
+        },
+        limit: 100000
+      }),
+    }
+  );
+
+  if (!response.ok) {
+    const errorBody = await response.text();
+    let message = response.statusText;
+    try {
+      message = JSON.parse(errorBody).error?.message || message;
+    } catch {
+      // Not a JSON error body
     }
 
-    const data: GA4ReportResponse = await response.json();
-    return parseGA4Data(data, test);
-  } catch (error) {
-    console.error('Error fetching GA4 stats:', error);
-    // Return empty stats on error
-    return createEmptyStats(test);
+    const hint = response.status === 403
+      ? `Service account may not have access to property ${propertyId}. Grant 'Viewer' role in GA4 Admin > Property Access Management`
+      : query.metrics.includes('customEvent:value_squared')
+        ? `Revenue tracking needs value_squared registered as a custom metric in GA4 Admin > Custom definitions`
+        : undefined;
+
+    console.error(`GA4 API Error Details:`, {
+      status: response.status,
+      statusText: response.statusText,
+      propertyId,
+      body: errorBody,
+      hint,
+    });
+    throw new Error(`GA4 API error: ${response.status} ${message}${hint ? `. ${hint}` : ''}`);
   }
-}
-
-function parseGA4Data(data: GA4ReportResponse, test: Test): TestStats {
-  const stats: TestStats = {
-    testId: test.id,
-    controlViews: 0,
-    controlConversions: 0,
-    controlRate: 0,
-    variantStats: {},
-    winner: null,
-    lift: 0,
-    lastUpdated: Date.now(),
-  };
 
-  // Initialize variant stats
-  test.variants.forEach(variant => {
-    stats.variantStats[variant.id] = {
-      views: 0,
-      conversions: 0,
-      rate: 0,
-    };
-  });
+  return response.json();
+}
 
-  if (!data.rows || data.rows.length === 0) {
-    return stats;
+function parseGA4Counts(data: GA4ReportResponse, revenueData: GA4ReportResponse | null, test: Test): BucketCounts {
+  // Every arm starts at zero, so the sync writes a counter for each one
+  const zeros = () => Object.fromEntries(['control', ...test.variants.map(v => v.id)].map(bucket => [bucket, 0]));
+  const counts: BucketCounts = test.revenue
+    ? { views: zeros(), conversions: zeros(), revenue: {}, revenueSquares: {} }
+    : { views: zeros(), conversions: zeros() };
+  const steps = test.funnelSteps || [];
+  if (steps.length > 0) {
+    counts.steps = Object.fromEntries(steps.map(step => [step.id, {}]));
+  }
+  const guardrails = test.guardrails || [];
+  if (guardrails.length > 0) {
+    counts.guardrails = Object.fromEntries(guardrails.map(guardrail => [guardrail.id, {}]));
   }
 
-  // Parse rows
-  data.rows.forEach((row: GA4ReportRow) => {
+  (data.rows || []).forEach((row: GA4ReportRow) => {
     const eventName = row.dimensionValues[0]?.value;
     const bucket = row.dimensionValues[1]?.value;
     const count = parseInt(row.metricValues[0]?.value || '0', 10);
 
     if (!bucket) return;
 
-    const isView = eventName === test.eventNames.view;
-    const isConversion = eventName === test.eventNames.conversion;
-
-    if (bucket === 'control') {
-      if (isView) stats.controlViews += count;
-      if (isConversion) stats.controlConversions += count;
-    } else if (stats.variantStats[bucket]) {
-      if (isView) stats.variantStats[bucket].views += count;
-      if (isConversion) stats.variantStats[bucket].conversions += count;
+    if (eventName === test.eventNames.view) {
+      counts.views[bucket] = (counts.views[bucket] || 0) + count;
+    }
+    if (eventName === test.eventNames.conversion) {
+      counts.conversions[bucket] = (counts.conversions[bucket] || 0) + count;
     }
-  });
 
-  // Calculate rates
-  stats.controlRate = calculateRate(stats.controlConversions, stats.controlViews);
+    const step = steps.find(s => s.event === eventName);
+    if (step && counts.steps) {
+      counts.steps[step.id][bucket] = (counts.steps[step.id][bucket] || 0) + count;
+    }
 
-  Object.keys(stats.variantStats).forEach(variantId => {
-    const variant = stats.variantStats[variantId];
-    variant.rate = calculateRate(variant.conversions, variant.views);
+    const guardrail = guardrails.find(g => g.event === eventName);
+    if (guardrail && counts.guardrails) {
+      counts.guardrails[guardrail.id][bucket] = (counts.guardrails[guardrail.id][bucket] || 0) + count;
+    }
   });
 
-  // Determine winner and lift
-  const { winner, lift } = determineWinner(stats);
-  stats.winner = winner;
-  stats.lift = lift;
+  // Summed value and squared value of each bucket's conversions
+  (revenueData?.rows || []).forEach((row: GA4ReportRow) => {
+    const bucket = row.dimensionValues[1]?.value;
+    if (!bucket || !counts.revenue || !counts.revenueSquares) return;
 
-  return stats;
-}
+    counts.revenue[bucket] = (counts.revenue[bucket] || 0) + parseFloat(row.metricValues[0]?.value || '0');
+    counts.revenueSquares[bucket] = (counts.revenueSquares[bucket] || 0) + parseFloat(row.metricValues[1]?.value || '0');
+  });
 
-function calculateRate(conversions: number, views: number): number {
-  if (views === 0) return 0;
-  return (conversions / views) * 100;
+  return counts;
 }
 
-function determineWinner(stats: TestStats): { winner: string | null; lift: number } {
-  let bestRate = stats.controlRate;
-  let winner: string | null = 'control';
-  let lift = 0;
-
-  Object.keys(stats.variantStats).forEach(variantId => {
-    const rate = stats.variantStats[variantId].rate;
-    if (rate > bestRate) {
-      bestRate = rate;
-      winner = variantId;
-    }
-  });
+/**
+ * Group report rows by day (GA4 returns dates as YYYYMMDD)
+ */
+function parseDailyStats(data: GA4ReportResponse, test: Test): DailyStats[] {
+  const days: Record<string, DailyStats> = {};
 
-  if (winner === 'control') {
-    // Find highest variant to calculate lift
-    const maxVariantRate = Math.max(
-      ...Object.values(stats.variantStats).map(v => v.rate)
-    );
-    lift = stats.controlRate > 0 ? ((stats.controlRate - maxVariantRate) / stats.controlRate) * 100 : 0;
-  } else {
-    lift = stats.controlRate > 0 ? ((bestRate - stats.controlRate) / stats.controlRate) * 100 : 0;
-  }
+  (data.rows || []).forEach((row: GA4ReportRow) => {
+    const eventName = row.dimensionValues[0]?.value;
+    const bucket = row.dimensionValues[1]?.value;
+    const rawDate = row.dimensionValues[2]?.value;
+    const count = parseInt(row.metricValues[0]?.value || '0', 10);
 
-  // Only declare winner if there's meaningful data
-  const hasMinimumData = stats.controlViews >= 100 || 
-    Object.values(stats.variantStats).some(v => v.views >= 100);
-  
-  if (!hasMinimumData) {
-    winner = null;
-    lift = 0;
-  }
+    if (!bucket || !rawDate || !/^\d{8}$/.test(rawDate)) return;
 
-  return { winner, lift };
-}
+    const date = `${rawDate.slice(0, 4)}-${rawDate.slice(4, 6)}-${rawDate.slice(6, 8)}`;
+    const day = days[date] || (days[date] = { date, buckets: {} });
+    const counts = day.buckets[bucket] || (day.buckets[bucket] = { views: 0, conversions: 0 });
 
-function createEmptyStats(test: Test): TestStats {
-  const variantStats: TestStats['variantStats'] = {};
-  
-  test.variants.forEach(variant => {
-    variantStats[variant.id] = {
-      views: 0,
-      conversions: 0,
-      rate: 0,
-    };
+    if (eventName === test.eventNames.view) counts.views += count;
+    if (eventName === test.eventNames.conversion) counts.conversions += count;
   });
 
-  return {
-    testId: test.id,
-    controlViews: 0,
-    controlConversions: 0,
-    controlRate: 0,
-    variantStats,
-    winner: null,
-    lift: 0,
-    lastUpdated: Date.now(),
-  };
+  return Object.values(days).sort((a, b) => a.date.localeCompare(b.date));
 }
 
 export async function getAccessToken(serviceAccount?: any): Promise<string> {
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateGuardrails, MIN_GUARDRAIL_VIEWS } from './guardrails';
+import type { BucketCounts, Guardrail, GuardrailReport, Test } from '@/types/Test';
+
+const refunds: Guardrail = { id: 'refunds', name: 'Refunds', event: 'checkout_guardrail_refunds', harm: 'increase', tolerance: 10 };
+
+function makeTest(guardrails: Guardrail[] = [refunds], variantIds: string[] = ['variant1']): Test {
+  return {
+    id: 'checkout',
+    guardrails,
+    variants: variantIds.map(id => ({ id, url: `https://example.com/${id}`, percentage: 50 })),
+  } as unknown as Test;
+}
+
+function makeCounts(views: number, controlEvents: number, variantEvents: number): BucketCounts {
+  return {
+    views: { control: views, variant1: views },
+    conversions: { control: 0, variant1: 0 },
+    guardrails: { refunds: { control: controlEvents, variant1: variantEvents } },
+  } as BucketCounts;
+}
+
+// Deterministic PRNG (mulberry32) so the simulation gives the same result every run
+function seededRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Binomial draw via the normal approximation
+function binomial(random: () => number, n: number, p: number): number {
+  const z = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+  return Math.max(0, Math.round(n * p + z * Math.sqrt(n * p * (1 - p))));
+}
+
+describe('evaluateGuardrails', () => {
+  it('does not breach before each arm reaches the minimum sample', () => {
+    const report = evaluateGuardrails(makeTest(), makeCounts(MIN_GUARDRAIL_VIEWS - 1, 10, 200));
+    expect(report.breached).toBe(false);
+    expect(report.results[0].pValue).toBe(1);
+  });
+
+  it('breaches when a variant is clearly worse beyond the tolerance', () => {
+    const report = evaluateGuardrails(makeTest(), makeCounts(20000, 400, 800));
+    expect(report.breached).toBe(true);
+    expect(report.results[0].pValue).toBeLessThan(report.alpha!);
+  });
+
+  it('does not breach within the tolerance', () => {
+    const report = evaluateGuardrails(makeTest(), makeCounts(20000, 400, 430));
+    expect(report.breached).toBe(false);
+  });
+
+  it('splits the threshold across guardrails and variants', () => {
+    const unsubscribes: Guardrail = { ...refunds, id: 'unsubscribes', name: 'Unsubscribes' };
+    const report = evaluateGuardrails(makeTest([refunds, unsubscribes], ['variant1', 'variant2']), makeCounts(0, 0, 0));
+    expect(report.alpha).toBeCloseTo(0.05 / 4);
+    expect(report.results).toHaveLength(4);
+  });
+
+  it('keeps the running minimum p-value from the previous sync', () => {
+    const previous = evaluateGuardrails(makeTest(), makeCounts(20000, 400, 800));
+    const report = evaluateGuardrails(makeTest(), makeCounts(40000, 800, 820), previous);
+
+    expect(report.results[0].pValue).toBe(previous.results[0].pValue);
+    expect(report.breached).toBe(true);
+  });
+
+  it('starts over when the guardrail is redefined', () => {
+    const previous = evaluateGuardrails(makeTest(), makeCounts(20000, 400, 800));
+    const report = evaluateGuardrails(makeTest([{ ...refunds, tolerance: 50 }]), makeCounts(40000, 800, 820), previous);
+
+    expect(report.results[0].pValue).toBe(1);
+    expect(report.breached).toBe(false);
+  });
+
+  it('rarely breaches an A/A test synced every 15 minutes for two weeks', () => {
+    const random = seededRandom(42);
+    // No tolerance puts identical arms right on the null hypothesis
+    const test = makeTest([{ ...refunds, tolerance: 0 }]);
+    const simulations = 200;
+    const looks = 14 * 24 * 4;
+    let falseBreaches = 0;
+
+    for (let s = 0; s < simulations; s++) {
+      const counts = makeCounts(0, 0, 0);
+      let report: GuardrailReport | null = null;
+
+      for (let look = 0; look < looks; look++) {
+        counts.views.control += 150;
+        counts.views.variant1 += 150;
+        counts.guardrails!.refunds.control += binomial(random, 150, 0.02);
+        counts.guardrails!.refunds.variant1 += binomial(random, 150, 0.02);
+
+        report = evaluateGuardrails(test, counts, report);
+        if (report.breached) break;
+      }
+
+      if (report?.breached) falseBreaches++;
+    }
+
+    // Always-valid at alpha = 0.05; a fixed z-test checked this often would alarm far more
+    expect(falseBreaches / simulations).toBeLessThanOrEqual(0.05);
+  });
+});
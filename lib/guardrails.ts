@@ -0,0 +1,165 @@
+import type { BucketCounts, CreateTestRequest, Guardrail, GuardrailReport, GuardrailResult, Test } from '@/types/Test';
+import { DEFAULT_CONFIDENCE_LEVEL } from './significance';
+import { mixtureLikelihoodRatio } from './sequential';
+import { slugify } from './utils';
+
+/**
+ * Guardrail metrics
+ *
+ * A guardrail is an event that must not get worse (refund requests,
+ * unsubscribes, ...). Every sync compares each variant's events per view
+ * against control, with a null hypothesis that allows the configured
+ * tolerance, so a guardrail is only breached when the variant is
+ * significantly worse by more than that margin.
+ *
+ * Syncs look at the data every 15 minutes, so the test is the mSPRT from
+ * lib/sequential.ts: its p-value is the running minimum over every sync and
+ * stays valid however often it is checked. The threshold is split
+ * (Bonferroni) across every guardrail and variant pair, and nothing is
+ * breached before each arm has MIN_GUARDRAIL_VIEWS views.
+ */
+
+export const MAX_GUARDRAILS = 5;
+
+// Views per arm before a guardrail can be breached (the normal approximation needs data)
+export const MIN_GUARDRAIL_VIEWS = 1000;
+
+type GuardrailDraft = NonNullable<CreateTestRequest['guardrails']>[number];
+
+function getGuardrailId(name: string): string {
+  return slugify(name).replace(/-/g, '_');
+}
+
+/**
+ * Validate guardrail definitions, returning a list of errors
+ */
+export function validateGuardrails(guardrails?: GuardrailDraft[]): string[] {
+  const errors: string[] = [];
+  if (!guardrails || guardrails.length === 0) return errors;
+
+  if (guardrails.length > MAX_GUARDRAILS) {
+    errors.push(`A test can have at most ${MAX_GUARDRAILS} guardrails`);
+  }
+
+  const ids = new Set<string>();
+  guardrails.forEach((guardrail, index) => {
+    const label = `Guardrail ${index + 1}`;
+    const id = getGuardrailId(guardrail.name || '');
+    if (!id) {
+      errors.push(`${label} needs a name`);
+    } else if (ids.has(id)) {
+      errors.push(`Guardrail "${guardrail.name}" is used twice`);
+    }
+    ids.add(id);
+
+    if (!['increase', 'decrease'].includes(guardrail.harm)) {
+      errors.push(`${label} direction must be "increase" or "decrease"`);
+    }
+    if (!(guardrail.tolerance >= 0 && guardrail.tolerance <= 100)) {
+      errors.push(`${label} tolerance must be between 0 and 100`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Build the stored guardrails, naming each event after the test
+ */
+export function buildGuardrails(testId: string, guardrails?: GuardrailDraft[]): Guardrail[] | undefined {
+  if (!guardrails || guardrails.length === 0) return undefined;
+
+  return guardrails.map(guardrail => {
+    const id = getGuardrailId(guardrail.name);
+    return {
+      id,
+      name: guardrail.name.trim(),
+      event: `${testId}_guardrail_${id}`,
+      harm: guardrail.harm,
+      tolerance: guardrail.tolerance,
+    };
+  });
+}
+
+function evaluate(
+  guardrail: Guardrail,
+  variantId: string,
+  counts: BucketCounts,
+  alpha: number,
+  previous?: GuardrailResult
+): GuardrailResult {
+  const events = counts.guardrails?.[guardrail.id] || {};
+  const controlViews = counts.views.control || 0;
+  const variantViews = counts.views[variantId] || 0;
+  const controlRate = controlViews > 0 ? (events.control || 0) / controlViews : 0;
+  const variantRate = variantViews > 0 ? (events[variantId] || 0) / variantViews : 0;
+
+  // Events can repeat per visitor, so clamp before using the binomial variance
+  const variance = (rate: number, views: number) => {
+    const p = Math.min(rate, 1);
+    return views > 0 ? (p * (1 - p)) / views : 0;
+  };
+  const sampleVariance = variance(controlRate, controlViews) + variance(variantRate, variantViews);
+
+  // Harm beyond the tolerated margin, signed so that positive means worse
+  const margin = controlRate * (guardrail.tolerance / 100);
+  const harm = guardrail.harm === 'increase' ? variantRate - controlRate : controlRate - variantRate;
+  const excess = harm - margin;
+
+  // Only harmful looks add evidence, which keeps the two-sided mSPRT conservative for a one-sided question
+  const enoughData = controlViews >= MIN_GUARDRAIL_VIEWS && variantViews >= MIN_GUARDRAIL_VIEWS;
+  const current = enoughData && sampleVariance > 0 && excess > 0
+    ? Math.min(1, 1 / mixtureLikelihoodRatio(excess, sampleVariance))
+    : 1;
+
+  // Carry the running minimum over from the last sync unless the guardrail was redefined
+  const carried = previous && previous.harm === guardrail.harm && previous.tolerance === guardrail.tolerance
+    ? previous.pValue
+    : 1;
+  const pValue = Math.min(carried, current);
+
+  return {
+    guardrailId: guardrail.id,
+    name: guardrail.name,
+    variantId,
+    controlRate: controlRate * 100,
+    variantRate: variantRate * 100,
+    relativeChange: controlRate > 0 ? ((variantRate - controlRate) / controlRate) * 100 : 0,
+    harm: guardrail.harm,
+    tolerance: guardrail.tolerance,
+    pValue,
+    breached: pValue < alpha,
+  };
+}
+
+/**
+ * Compare every variant against control on every guardrail, continuing
+ * from the previous sync's report
+ */
+export function evaluateGuardrails(
+  test: Test,
+  counts: BucketCounts,
+  previous?: GuardrailReport | null,
+  confidenceLevel: number = DEFAULT_CONFIDENCE_LEVEL,
+  now: number = Date.now()
+): GuardrailReport {
+  const guardrails = test.guardrails || [];
+  const comparisons = guardrails.length * test.variants.length;
+  const alpha = (1 - confidenceLevel) / Math.max(comparisons, 1);
+
+  const results = guardrails.flatMap(guardrail =>
+    test.variants.map(variant => {
+      const last = previous?.results.find(
+        result => result.guardrailId === guardrail.id && result.variantId === variant.id
+      );
+      return evaluate(guardrail, variant.id, counts, alpha, last);
+    })
+  );
+
+  return {
+    evaluatedAt: now,
+    alpha,
+    breached: results.some(result => result.breached),
+    results,
+  };
+}
@@ -0,0 +1,67 @@
+import type { Test, TestStats, HoldoutArm, HoldoutReport } from '@/types/Test';
+import { twoProportionZTest } from './significance';
+
+/**
+ * Global holdout report
+ *
+ * The Worker keeps AppConfig.holdoutPercentage of all visitors out of every
+ * test (see isInHoldout in lib/bucketing.ts) and records them in a 'holdout'
+ * bucket. Pooling those visitors across tests and comparing them with
+ * everyone who was enrolled shows the cumulative effect of the program.
+ */
+
+function createArm(views: number, conversions: number): HoldoutArm {
+  return {
+    views,
+    conversions,
+    rate: views > 0 ? (conversions / views) * 100 : 0,
+  };
+}
+
+/**
+ * Compare holdout and exposed conversion using each test's cached stats
+ */
+export function buildHoldoutReport(
+  percentage: number,
+  tests: Test[],
+  statsByTestId: Record<string, TestStats | null>
+): HoldoutReport {
+  const rows: HoldoutReport['tests'] = [];
+
+  for (const test of tests) {
+    const stats = statsByTestId[test.id];
+    if (!stats) continue;
+
+    const variants = Object.values(stats.variantStats);
+    const exposedViews = stats.controlViews + variants.reduce((sum, v) => sum + v.views, 0);
+    const exposedConversions = stats.controlConversions + variants.reduce((sum, v) => sum + v.conversions, 0);
+
+    rows.push({
+      id: test.id,
+      name: test.name,
+      holdout: createArm(stats.holdout?.views || 0, stats.holdout?.conversions || 0),
+      exposed: createArm(exposedViews, exposedConversions),
+    });
+  }
+
+  const holdout = createArm(
+    rows.reduce((sum, row) => sum + row.holdout.views, 0),
+    rows.reduce((sum, row) => sum + row.holdout.conversions, 0)
+  );
+  const exposed = createArm(
+    rows.reduce((sum, row) => sum + row.exposed.views, 0),
+    rows.reduce((sum, row) => sum + row.exposed.conversions, 0)
+  );
+  const { pValue } = twoProportionZTest(holdout.conversions, holdout.views, exposed.conversions, exposed.views);
+
+  return {
+    percentage,
+    holdout,
+    exposed,
+    lift: holdout.rate > 0 ? ((exposed.rate - holdout.rate) / holdout.rate) * 100 : 0,
+    pValue,
+    significant: pValue < 0.05,
+    tests: rows,
+    generatedAt: Date.now(),
+  };
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { getEdgeCounts, getKVStore, rollUpEdgeEvents, EDGE_EVENT_GRACE_MS } from './kv';
+import type { Test } from '@/types/Test';
+
+function makeTest(id: string): Test {
+  return {
+    id,
+    variants: [{ id: 'variant1', url: 'https://example.com/b', percentage: 50 }],
+  } as unknown as Test;
+}
+
+async function recordEvent(testId: string, timestamp: number, counter: string, amount = 1) {
+  await getKVStore().put(`edge_event:${testId}:${timestamp}:${counter}:${amount}:${crypto.randomUUID()}`, '1');
+}
+
+describe('edge counting', () => {
+  it('counts concurrent events for the same counter separately', async () => {
+    const test = makeTest('edge-concurrent');
+    await Promise.all(Array.from({ length: 20 }, () => recordEvent(test.id, 1000, 'views_control')));
+
+    const counts = await getEdgeCounts(test);
+    expect(counts.views.control).toBe(20);
+    expect(counts.views.variant1).toBe(0);
+  });
+
+  it('folds settled events into totals without double counting', async () => {
+    const test = makeTest('edge-rollup');
+    const now = 10 * EDGE_EVENT_GRACE_MS;
+    await recordEvent(test.id, now - 2 * EDGE_EVENT_GRACE_MS, 'conversions_variant1');
+    await recordEvent(test.id, now - 1000, 'conversions_variant1');
+
+    await rollUpEdgeEvents(test.id, now);
+    expect((await getEdgeCounts(test)).conversions.variant1).toBe(2);
+
+    // A second sync deletes the event the first one folded but keeps the pending one
+    await rollUpEdgeEvents(test.id, now + 1);
+    await rollUpEdgeEvents(test.id, now + EDGE_EVENT_GRACE_MS);
+    const { keys } = await getKVStore().list(`edge_event:${test.id}:`);
+    expect(keys).toHaveLength(1);
+    expect((await getEdgeCounts(test)).conversions.variant1).toBe(2);
+  });
+
+  it('starts from the counters older Workers incremented in place', async () => {
+    const test = makeTest('edge-legacy');
+    await getKVStore().put(`edge:${test.id}:views_variant1`, '7');
+    await recordEvent(test.id, 1000, 'views_variant1');
+
+    await rollUpEdgeEvents(test.id, 1000 + EDGE_EVENT_GRACE_MS);
+    expect((await getEdgeCounts(test)).views.variant1).toBe(8);
+  });
+});
@@ -1,4 +1,5 @@
-import type { Test } from '@/types/Test';
+import type { Test, SRMResult, StatsSnapshot, DailyStats, DeploymentStatus, BucketCounts, Layer, GuardrailReport, StoredUser, Session, StoredApiKey, AuditEntry } from '@/types/Test';
+import { HOLDOUT_BUCKET } from './bucketing';
 import { env } from './env'; // Only used as fallback during initialization
 
 /**
@@ -14,6 +15,7 @@ export interface KVStore {
   get(key: string): Promise<string | null>;
   put(key: string, value: string): Promise<void>;
   delete(key: string): Promise<void>;
+  deleteMany(keys: string[]): Promise<void>;
   list(prefix?: string): Promise<{ keys: Array<{ name: string }> }>;
 }
 
@@ -34,6 +36,10 @@ class MockKVStore implements KVStore {
     this.store.delete(key);
   }
 
+  async deleteMany(keys: string[]): Promise<void> {
+    keys.forEach(key => this.store.delete(key));
+  }
+
   async list(prefix?: string): Promise<{ keys: Array<{ name: string }> }> {
     const keys = Array.from(this.store.keys())
       .filter(key => !prefix || key.startsWith(prefix))
@@ -119,23 +125,55 @@ class CloudflareKVStore implements KVStore {
     }
   }
 
-  async list(prefix?: string): Promise<{ keys: Array<{ name: string }> }> {
+  async deleteMany(keys: string[]): Promise<void> {
     try {
-      const url = new URL(`${this.baseUrl}/keys`);
-      if (prefix) {
-        url.searchParams.set('prefix', prefix);
-      }
-
-      const response = await fetch(url.toString(), {
-        headers: this.getHeaders(),
-      });
-
-      if (!response.ok) {
-        throw new Error(`KV LIST failed: ${response.status} ${response.statusText}`);
+      // The bulk endpoint takes up to 10,000 keys per request
+      for (let i = 0; i < keys.length; i += 10000) {
+        const response = await fetch(`${this.baseUrl}/bulk/delete`, {
+          method: 'POST',
+          headers: this.getHeaders(),
+          body: JSON.stringify(keys.slice(i, i + 10000)),
+        });
+
+        if (!response.ok) {
+          throw new Error(`KV bulk DELETE failed: ${response.status} ${response.statusText}`);
+        }
       }
+    } catch (error) {
+      console.error(`Error deleting ${keys.length} KV keys:`, error);
+      throw error;
+    }
+  }
 
-      const data = await response.json();
-      return { keys: data.result || [] };
+  async list(prefix?: string): Promise<{ keys: Array<{ name: string }> }> {
+    try {
+      const keys: Array<{ name: string }> = [];
+      let cursor = '';
+
+      // Cloudflare returns at most 1000 keys per page
+      do {
+        const url = new URL(`${this.baseUrl}/keys`);
+        if (prefix) {
+          url.searchParams.set('prefix', prefix);
+        }
+        if (cursor) {
+          url.searchParams.set('cursor', cursor);
+        }
+
+        const response = await fetch(url.toString(), {
+          headers: this.getHeaders(),
+        });
+
+        if (!response.ok) {
+          throw new Error(`KV LIST failed: ${response.status} ${response.statusText}`);
+        }
+
+        const data = await response.json();
+        keys.push(...(data.result || []));
+        cursor = data.result_info?.cursor || '';
+      } while (cursor);
+
+      return { keys };
     } catch (error) {
       console.error('Error listing KV keys:', error);
       return { keys: [] };
@@ -218,6 +256,16 @@ export async function deleteTest(testId: string): Promise<void> {
   // Also delete stats
   const statsKey = `stats:${testId}`;
   await kv.delete(statsKey);
+  await kv.delete(`srm:${testId}`);
+  await kv.delete(`snapshots:${testId}`);
+  await kv.delete(`timeseries:${testId}`);
+  await kv.delete(`deployment:${testId}`);
+  await kv.delete(`guardrails:${testId}`);
+
+  // Edge counters only exist for tests counted in the Worker
+  const edgeKeys = await Promise.all([kv.list(`edge:${testId}:`), kv.list(`edge_event:${testId}:`)]);
+  await kv.deleteMany(edgeKeys.flatMap(({ keys }) => keys.map(({ name }) => name)));
+  await kv.delete(`edge_totals:${testId}`);
   
   // Remove from index
   await removeFromTestsIndex(testId);
@@ -266,6 +314,239 @@ async function removeFromTestsIndex(testId: string): Promise<void> {
   }
 }
 
+/**
+ * Experiment layers live in a single index next to tests_index (see lib/layers.ts)
+ */
+export async function getLayers(): Promise<Layer[]> {
+  const kv = getKVStore();
+  const data = await kv.get('layers_index');
+
+  if (!data) return [];
+
+  try {
+    const index: Record<string, Layer> = JSON.parse(data);
+    return Object.values(index).sort((a, b) => a.createdAt - b.createdAt);
+  } catch {
+    return [];
+  }
+}
+
+export async function getLayer(layerId: string): Promise<Layer | null> {
+  const layers = await getLayers();
+  return layers.find(layer => layer.id === layerId) || null;
+}
+
+export async function saveLayer(layer: Layer): Promise<void> {
+  const kv = getKVStore();
+  const index: Record<string, Layer> = {};
+  for (const existing of await getLayers()) {
+    index[existing.id] = existing;
+  }
+
+  index[layer.id] = layer;
+  await kv.put('layers_index', JSON.stringify(index));
+}
+
+export async function deleteLayer(layerId: string): Promise<void> {
+  const kv = getKVStore();
+  const index: Record<string, Layer> = {};
+  for (const existing of await getLayers()) {
+    if (existing.id !== layerId) {
+      index[existing.id] = existing;
+    }
+  }
+
+  await kv.put('layers_index', JSON.stringify(index));
+}
+
+export async function getUsers(): Promise<StoredUser[]> {
+  const kv = getKVStore();
+  const data = await kv.get('users_index');
+
+  if (!data) return [];
+
+  try {
+    const index: Record<string, StoredUser> = JSON.parse(data);
+    return Object.values(index).sort((a, b) => a.createdAt - b.createdAt);
+  } catch {
+    return [];
+  }
+}
+
+export async function getUser(userId: string): Promise<StoredUser | null> {
+  const users = await getUsers();
+  return users.find(user => user.id === userId) || null;
+}
+
+export async function saveUser(user: StoredUser): Promise<void> {
+  const kv = getKVStore();
+  const index: Record<string, StoredUser> = {};
+  for (const existing of await getUsers()) {
+    index[existing.id] = existing;
+  }
+
+  index[user.id] = user;
+  await kv.put('users_index', JSON.stringify(index));
+}
+
+export async function deleteUser(userId: string): Promise<void> {
+  const kv = getKVStore();
+  const index: Record<string, StoredUser> = {};
+  for (const existing of await getUsers()) {
+    if (existing.id !== userId) {
+      index[existing.id] = existing;
+    }
+  }
+
+  await kv.put('users_index', JSON.stringify(index));
+}
+
+// Sessions are keyed by a hash of the cookie token, so KV never holds a usable token
+export async function saveSession(tokenHash: string, session: Session): Promise<void> {
+  const kv = getKVStore();
+  await kv.put(`session:${tokenHash}`, JSON.stringify(session));
+}
+
+export async function getSession(tokenHash: string): Promise<Session | null> {
+  const kv = getKVStore();
+  const data = await kv.get(`session:${tokenHash}`);
+
+  if (!data) return null;
+
+  try {
+    return JSON.parse(data) as Session;
+  } catch {
+    return null;
+  }
+}
+
+export async function deleteSession(tokenHash: string): Promise<void> {
+  const kv = getKVStore();
+  await kv.delete(`session:${tokenHash}`);
+}
+
+// API keys keep only a hash of the secret (see lib/auth.ts)
+export async function getApiKeys(): Promise<StoredApiKey[]> {
+  const kv = getKVStore();
+  const data = await kv.get('api_keys_index');
+
+  if (!data) return [];
+
+  try {
+    const index: Record<string, StoredApiKey> = JSON.parse(data);
+    return Object.values(index).sort((a, b) => a.createdAt - b.createdAt);
+  } catch {
+    return [];
+  }
+}
+
+export async function getApiKey(keyId: string): Promise<StoredApiKey | null> {
+  const keys = await getApiKeys();
+  return keys.find(key => key.id === keyId) || null;
+}
+
+export async function saveApiKey(apiKey: StoredApiKey): Promise<void> {
+  const kv = getKVStore();
+  const index: Record<string, StoredApiKey> = {};
+  for (const existing of await getApiKeys()) {
+    index[existing.id] = existing;
+  }
+
+  index[apiKey.id] = apiKey;
+  await kv.put('api_keys_index', JSON.stringify(index));
+}
+
+// Last use is kept outside the index, so authenticating a request never rewrites
+// it (and can't undo a revocation saved in the meantime)
+export async function getApiKeyLastUsed(keyId: string): Promise<number | undefined> {
+  const kv = getKVStore();
+  const data = await kv.get(`api_key_used:${keyId}`);
+  return data ? Number(data) || undefined : undefined;
+}
+
+export async function saveApiKeyLastUsed(keyId: string, timestamp: number): Promise<void> {
+  const kv = getKVStore();
+  await kv.put(`api_key_used:${keyId}`, String(timestamp));
+}
+
+// Signatures already used by the scheduled sync (see lib/cron.ts)
+export async function getCronNonces(): Promise<Record<string, number>> {
+  const kv = getKVStore();
+  const data = await kv.get('cron_nonces');
+
+  if (!data) return {};
+
+  try {
+    return JSON.parse(data);
+  } catch {
+    return {};
+  }
+}
+
+export async function saveCronNonces(nonces: Record<string, number>): Promise<void> {
+  const kv = getKVStore();
+  await kv.put('cron_nonces', JSON.stringify(nonces));
+}
+
+export async function getRateLimit(bucket: string): Promise<{ windowStart: number; count: number } | null> {
+  const kv = getKVStore();
+  const data = await kv.get(`ratelimit:${bucket}`);
+
+  if (!data) return null;
+
+  try {
+    return JSON.parse(data);
+  } catch {
+    return null;
+  }
+}
+
+export async function saveRateLimit(bucket: string, window: { windowStart: number; count: number }): Promise<void> {
+  const kv = getKVStore();
+  await kv.put(`ratelimit:${bucket}`, JSON.stringify(window));
+}
+
+/**
+ * Audit entries are written once under time-ordered `audit:` keys and never
+ * updated or deleted. Reads go through two bounded, newest-first copies
+ * instead of listing that log: `audit_recent` for everything and
+ * `audit_test:<testId>` per test, each holding the latest AUDIT_INDEX_SIZE entries.
+ */
+export const AUDIT_INDEX_SIZE = 500;
+
+function auditIndexKey(testId?: string): string {
+  return testId ? `audit_test:${testId}` : 'audit_recent';
+}
+
+export async function getAuditIndex(testId?: string): Promise<AuditEntry[]> {
+  const kv = getKVStore();
+  const data = await kv.get(auditIndexKey(testId));
+
+  if (!data) return [];
+
+  try {
+    return JSON.parse(data) as AuditEntry[];
+  } catch {
+    return [];
+  }
+}
+
+async function prependToAuditIndex(entry: AuditEntry, testId?: string): Promise<void> {
+  const kv = getKVStore();
+  const entries = [entry, ...(await getAuditIndex(testId))].slice(0, AUDIT_INDEX_SIZE);
+  await kv.put(auditIndexKey(testId), JSON.stringify(entries));
+}
+
+export async function appendAuditEntry(entry: AuditEntry): Promise<void> {
+  const kv = getKVStore();
+  await kv.put(`audit:${String(entry.timestamp).padStart(13, '0')}:${entry.id}`, JSON.stringify(entry));
+
+  await prependToAuditIndex(entry);
+  if (entry.testId) {
+    await prependToAuditIndex(entry, entry.testId);
+  }
+}
+
 export async function saveTestStats(testId: string, stats: any): Promise<void> {
   const kv = getKVStore();
   const key = `stats:${testId}`;
@@ -285,3 +566,273 @@ export async function getTestStats(testId: string): Promise<any | null> {
     return null;
   }
 }
+
+export async function saveSRMResult(testId: string, result: SRMResult | null): Promise<void> {
+  const kv = getKVStore();
+  const key = `srm:${testId}`;
+
+  if (!result) {
+    await kv.delete(key);
+    return;
+  }
+
+  await kv.put(key, JSON.stringify(result));
+}
+
+export async function getSRMResult(testId: string): Promise<SRMResult | null> {
+  const kv = getKVStore();
+  const data = await kv.get(`srm:${testId}`);
+
+  if (!data) return null;
+
+  try {
+    return JSON.parse(data) as SRMResult;
+  } catch {
+    return null;
+  }
+}
+
+export async function appendStatsSnapshot(
+  testId: string,
+  snapshot: StatsSnapshot,
+  maxSnapshots: number
+): Promise<StatsSnapshot[]> {
+  const kv = getKVStore();
+  const snapshots = [...await getStatsSnapshots(testId), snapshot].slice(-maxSnapshots);
+
+  await kv.put(`snapshots:${testId}`, JSON.stringify(snapshots));
+  return snapshots;
+}
+
+export async function getStatsSnapshots(testId: string): Promise<StatsSnapshot[]> {
+  const kv = getKVStore();
+  const data = await kv.get(`snapshots:${testId}`);
+
+  if (!data) return [];
+
+  try {
+    return JSON.parse(data) as StatsSnapshot[];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Merge freshly fetched days into the stored time series
+ * Days missing from the fetched report are kept from previous syncs.
+ */
+export async function saveTestTimeSeries(
+  testId: string,
+  days: DailyStats[],
+  maxDays: number = 365
+): Promise<DailyStats[]> {
+  const kv = getKVStore();
+  const byDate: Record<string, DailyStats> = {};
+
+  for (const day of await getTestTimeSeries(testId)) {
+    byDate[day.date] = day;
+  }
+  for (const day of days) {
+    byDate[day.date] = day;
+  }
+
+  const merged = Object.values(byDate)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .slice(-maxDays);
+
+  await kv.put(`timeseries:${testId}`, JSON.stringify(merged));
+  return merged;
+}
+
+export async function getTestTimeSeries(testId: string): Promise<DailyStats[]> {
+  const kv = getKVStore();
+  const data = await kv.get(`timeseries:${testId}`);
+
+  if (!data) return [];
+
+  try {
+    return JSON.parse(data) as DailyStats[];
+  } catch {
+    return [];
+  }
+}
+
+export async function saveDeploymentStatus(status: DeploymentStatus): Promise<void> {
+  const kv = getKVStore();
+  await kv.put(`deployment:${status.testId}`, JSON.stringify(status));
+}
+
+export async function getDeploymentStatus(testId: string): Promise<DeploymentStatus | null> {
+  const kv = getKVStore();
+  const data = await kv.get(`deployment:${testId}`);
+
+  if (!data) return null;
+
+  try {
+    return JSON.parse(data) as DeploymentStatus;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Edge counting (countingMode 'edge')
+ *
+ * KV has no atomic increment, so the Worker writes every view and conversion
+ * under its own key, edge_event:<testId>:<timestamp>:<counter>:<amount>:<uuid>,
+ * and never reads or rewrites a shared value. The sync folds events older than
+ * EDGE_EVENT_GRACE_MS (KV listings lag writes by up to a minute) into
+ * edge_totals:<testId>, whose `through` timestamp marks what is already
+ * counted. Folded events are deleted one sync later, so a concurrent or
+ * stale-reading sync still finds them and can't lose or double-count a thing.
+ */
+export const EDGE_EVENT_GRACE_MS = 5 * 60 * 1000;
+
+interface EdgeTotals {
+  counters: Record<string, number>; // e.g. views_control, guardrails_refunds_variant1
+  through: number; // Events up to this timestamp are included in the counters
+}
+
+interface EdgeEvent {
+  key: string;
+  timestamp: number;
+  counter: string;
+  amount: number;
+}
+
+async function listEdgeEvents(testId: string): Promise<EdgeEvent[]> {
+  const kv = getKVStore();
+  const prefix = `edge_event:${testId}:`;
+  const { keys } = await kv.list(prefix);
+
+  return keys.flatMap(({ name }) => {
+    const [timestamp, counter, amount] = name.slice(prefix.length).split(':');
+    const event = { key: name, timestamp: Number(timestamp), counter, amount: parseFloat(amount) };
+    return Number.isFinite(event.timestamp) && counter && Number.isFinite(event.amount) ? [event] : [];
+  });
+}
+
+/**
+ * Folded totals, starting from the per-counter edge:<testId>:<counter> keys
+ * older Workers incremented in place
+ */
+async function getEdgeTotals(testId: string): Promise<EdgeTotals> {
+  const kv = getKVStore();
+  const data = await kv.get(`edge_totals:${testId}`);
+
+  if (data) {
+    try {
+      return JSON.parse(data) as EdgeTotals;
+    } catch (error) {
+      console.error(`Error parsing edge totals for ${testId}:`, error);
+    }
+  }
+
+  const prefix = `edge:${testId}:`;
+  const { keys } = await kv.list(prefix);
+  const counters: Record<string, number> = {};
+  for (const { name } of keys) {
+    counters[name.slice(prefix.length)] = parseFloat((await kv.get(name)) || '0') || 0;
+  }
+
+  return { counters, through: 0 };
+}
+
+/**
+ * Fold settled edge events into the test's totals
+ */
+export async function rollUpEdgeEvents(testId: string, now: number = Date.now()): Promise<void> {
+  const kv = getKVStore();
+  const totals = await getEdgeTotals(testId);
+  const cutoff = Math.max(now - EDGE_EVENT_GRACE_MS, totals.through);
+  const counters = { ...totals.counters };
+  const folded: string[] = [];
+
+  for (const event of await listEdgeEvents(testId)) {
+    if (event.timestamp <= totals.through) {
+      folded.push(event.key);
+    } else if (event.timestamp <= cutoff) {
+      counters[event.counter] = (counters[event.counter] || 0) + event.amount;
+    }
+  }
+
+  await kv.put(`edge_totals:${testId}`, JSON.stringify({ counters, through: cutoff }));
+
+  // Only events an earlier sync already counted
+  if (folded.length > 0) {
+    await kv.deleteMany(folded);
+  }
+}
+
+/**
+ * Folded totals plus the events that haven't been folded yet
+ */
+async function getEdgeCounters(testId: string): Promise<Record<string, number>> {
+  const totals = await getEdgeTotals(testId);
+  const counters = { ...totals.counters };
+
+  for (const event of await listEdgeEvents(testId)) {
+    if (event.timestamp > totals.through) {
+      counters[event.counter] = (counters[event.counter] || 0) + event.amount;
+    }
+  }
+
+  return counters;
+}
+
+/**
+ * Read the view/conversion counters the Worker keeps at the edge (countingMode 'edge')
+ */
+export async function getEdgeCounts(test: Test): Promise<BucketCounts> {
+  const counters = await getEdgeCounters(test.id);
+  const count = (counter: string) => counters[counter] || 0;
+  const counts: BucketCounts = { views: {}, conversions: {} };
+
+  for (const bucket of ['control', ...test.variants.map(v => v.id), HOLDOUT_BUCKET]) {
+    counts.views[bucket] = count(`views_${bucket}`);
+    counts.conversions[bucket] = count(`conversions_${bucket}`);
+  }
+
+  if (test.revenue) {
+    counts.revenue = {};
+    counts.revenueSquares = {};
+    for (const bucket of ['control', ...test.variants.map(v => v.id)]) {
+      counts.revenue[bucket] = count(`revenue_${bucket}`);
+      counts.revenueSquares[bucket] = count(`revenue_squares_${bucket}`);
+    }
+  }
+
+  // Funnel steps and guardrails count per bucket under <kind>_<id>_<bucket>
+  const byBucket = (kind: 'steps' | 'guardrails', ids: string[]) => Object.fromEntries(
+    ids.map(id => [id, Object.fromEntries(
+      ['control', ...test.variants.map(v => v.id)].map(bucket => [bucket, count(`${kind}_${id}_${bucket}`)])
+    )])
+  );
+
+  if (test.funnelSteps?.length) {
+    counts.steps = byBucket('steps', test.funnelSteps.map(step => step.id));
+  }
+  if (test.guardrails?.length) {
+    counts.guardrails = byBucket('guardrails', test.guardrails.map(guardrail => guardrail.id));
+  }
+
+  return counts;
+}
+
+export async function saveGuardrailReport(testId: string, report: GuardrailReport): Promise<void> {
+  const kv = getKVStore();
+  await kv.put(`guardrails:${testId}`, JSON.stringify(report));
+}
+
+export async function getGuardrailReport(testId: string): Promise<GuardrailReport | null> {
+  const kv = getKVStore();
+  const data = await kv.get(`guardrails:${testId}`);
+
+  if (!data) return null;
+
+  try {
+    return JSON.parse(data) as GuardrailReport;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,109 @@
+import type { Test, Layer, LayerAllocation, LayerSummary } from '@/types/Test';
+import { getAllTests, getLayer } from './kv';
+import { getTestStatus } from './lifecycle';
+
+/**
+ * Mutually exclusive experiment layers
+ *
+ * Every test in a layer owns a disjoint slice of the layer's visitor hash
+ * space (see isInLayerSlice in lib/bucketing.ts), so a visitor is enrolled in
+ * at most one of them. Concluded and archived tests no longer enroll anyone
+ * and free their slice for new tests.
+ */
+
+/**
+ * Slices currently held in a layer, sorted by position
+ */
+export function getLayerOccupants(layerId: string, tests: Test[], excludeTestId?: string): Test[] {
+  return tests
+    .filter(test => test.layer?.layerId === layerId && test.id !== excludeTestId)
+    .filter(test => !['concluded', 'archived'].includes(getTestStatus(test)))
+    .sort((a, b) => a.layer!.start - b.layer!.start);
+}
+
+/**
+ * Layer with its allocated and remaining capacity
+ */
+export function summarizeLayer(layer: Layer, tests: Test[]): LayerSummary {
+  const occupants = getLayerOccupants(layer.id, tests);
+  const allocated = occupants.reduce((sum, test) => sum + (test.layer!.end - test.layer!.start), 0);
+
+  return {
+    ...layer,
+    allocated,
+    remaining: Math.max(0, 100 - allocated),
+    tests: occupants.map(test => ({
+      id: test.id,
+      name: test.name,
+      start: test.layer!.start,
+      end: test.layer!.end,
+    })),
+  };
+}
+
+/**
+ * First free range of the given size in [0, 100), or null if none is wide enough
+ */
+export function findFreeSlice(
+  occupied: Array<{ start: number; end: number }>,
+  percentage: number
+): { start: number; end: number } | null {
+  let cursor = 0;
+
+  for (const slice of [...occupied].sort((a, b) => a.start - b.start)) {
+    if (slice.start - cursor >= percentage) {
+      return { start: cursor, end: cursor + percentage };
+    }
+    cursor = Math.max(cursor, slice.end);
+  }
+
+  return 100 - cursor >= percentage ? { start: cursor, end: cursor + percentage } : null;
+}
+
+/**
+ * Validate a layer definition, returning a list of errors
+ */
+export function validateLayer(data: { name?: string }): string[] {
+  const errors: string[] = [];
+
+  if (!data.name || data.name.trim().length === 0) {
+    errors.push('Layer name is required');
+  }
+
+  return errors;
+}
+
+/**
+ * Reserve a slice of the layer for a test, keeping the test's current slice
+ * when its layer and share are unchanged so enrolled visitors aren't reshuffled
+ */
+export async function allocateLayerSlice(
+  request: { layerId: string; percentage: number },
+  existingTest?: Test
+): Promise<{ allocation?: LayerAllocation; errors?: string[] }> {
+  const layer = await getLayer(request.layerId);
+  if (!layer) {
+    return { errors: ['Layer not found'] };
+  }
+
+  const current = existingTest?.layer;
+  if (current && current.layerId === request.layerId && current.percentage === request.percentage) {
+    return { allocation: current };
+  }
+
+  const occupants = getLayerOccupants(layer.id, await getAllTests(), existingTest?.id);
+  const slice = findFreeSlice(occupants.map(test => test.layer!), request.percentage);
+
+  if (!slice) {
+    const remaining = 100 - occupants.reduce((sum, test) => sum + (test.layer!.end - test.layer!.start), 0);
+    return {
+      errors: [
+        remaining >= request.percentage
+          ? `Layer "${layer.name}" has ${remaining}% free, but not in one contiguous range`
+          : `Layer "${layer.name}" only has ${remaining}% of its traffic left`,
+      ],
+    };
+  }
+
+  return { allocation: { layerId: layer.id, percentage: request.percentage, ...slice } };
+}
@@ -0,0 +1,143 @@
+import type { Test, TestStatus } from '@/types/Test';
+
+/**
+ * Test lifecycle management
+ *
+ * draft -> running <-> paused -> concluded -> archived
+ *
+ * Only running tests bucket visitors. The Worker sends everyone to control
+ * while a test is a draft, paused or archived, and to the declared winner
+ * once it is concluded.
+ *
+ * Tests may also carry a startAt/endAt schedule. The Worker only buckets
+ * visitors inside that window and the sync cron applies the matching
+ * start/conclude transitions (see getScheduledAction).
+ */
+
+export type LifecycleAction = 'start' | 'pause' | 'conclude' | 'archive';
+
+export const TEST_STATUSES: TestStatus[] = ['draft', 'running', 'paused', 'concluded', 'archived'];
+
+const TRANSITIONS: Record<LifecycleAction, { from: TestStatus[]; to: TestStatus }> = {
+  start: { from: ['draft', 'paused'], to: 'running' },
+  pause: { from: ['running'], to: 'paused' },
+  conclude: { from: ['running', 'paused'], to: 'concluded' },
+  archive: { from: ['draft', 'running', 'paused', 'concluded'], to: 'archived' },
+};
+
+export interface TransitionOptions {
+  winner?: string; // Bucket that receives all traffic once concluded
+}
+
+/**
+ * Current status of a test (tests saved before lifecycle states were introduced are running)
+ */
+export function getTestStatus(test: Test): TestStatus {
+  return test.status || 'running';
+}
+
+/**
+ * When the test started collecting data
+ * Tests started before startedAt was recorded fall back to their schedule or creation time.
+ */
+export function getStartTime(test: Test): number {
+  return test.startedAt ?? test.startAt ?? test.createdAt;
+}
+
+/**
+ * Transition that is due according to the test's schedule, if any
+ */
+export function getScheduledAction(test: Test, now: number = Date.now()): LifecycleAction | null {
+  const status = getTestStatus(test);
+
+  if (test.endAt && now >= test.endAt) {
+    return status === 'running' || status === 'paused' ? 'conclude' : null;
+  }
+
+  if (test.startAt && now >= test.startAt && status === 'draft') {
+    return 'start';
+  }
+
+  return null;
+}
+
+/**
+ * Validate optional schedule timestamps, returning a list of errors
+ */
+export function validateSchedule(startAt?: number, endAt?: number): string[] {
+  const errors: string[] = [];
+
+  if (startAt !== undefined && !Number.isFinite(startAt)) {
+    errors.push('Start time must be a valid timestamp');
+  }
+  if (endAt !== undefined && !Number.isFinite(endAt)) {
+    errors.push('End time must be a valid timestamp');
+  }
+  if (startAt !== undefined && endAt !== undefined && endAt <= startAt) {
+    errors.push('End time must be after the start time');
+  }
+
+  return errors;
+}
+
+/**
+ * Actions that are allowed from the test's current status
+ */
+export function getAvailableActions(test: Test): LifecycleAction[] {
+  const status = getTestStatus(test);
+  return (Object.keys(TRANSITIONS) as LifecycleAction[])
+    .filter(action => TRANSITIONS[action].from.includes(status));
+}
+
+/**
+ * Validate a transition, returning a list of errors
+ */
+export function validateTransition(
+  test: Test,
+  action: LifecycleAction,
+  options: TransitionOptions = {}
+): string[] {
+  const errors: string[] = [];
+  const status = getTestStatus(test);
+  const transition = TRANSITIONS[action];
+
+  if (!transition.from.includes(status)) {
+    errors.push(`Cannot ${action} a test that is ${status}`);
+  }
+
+  if (action === 'conclude' && options.winner) {
+    const buckets = ['control', ...test.variants.map(v => v.id)];
+    if (!buckets.includes(options.winner)) {
+      errors.push(`Winner must be one of: ${buckets.join(', ')}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Apply a transition to a test (does not persist)
+ */
+export function applyTransition(
+  test: Test,
+  action: LifecycleAction,
+  options: TransitionOptions = {},
+  now: number = Date.now()
+): Test {
+  const updated: Test = {
+    ...test,
+    status: TRANSITIONS[action].to,
+    statusChangedAt: now,
+    updatedAt: now,
+  };
+
+  if (action === 'start' && !test.startedAt) {
+    updated.startedAt = now;
+  }
+
+  if (action === 'conclude') {
+    updated.concludedWinner = options.winner || 'control';
+  }
+
+  return updated;
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { validateMultivariate } from './multivariate';
+import type { MultivariateConfig } from '@/types/Test';
+
+function makeConfig(levels: string[]): MultivariateConfig {
+  return {
+    factors: [
+      { key: 'headline', name: 'Headline', levels },
+      { key: 'price', name: 'Price', levels: ['39', '49'] },
+    ],
+    urlMode: 'params',
+    baseUrl: 'https://example.com/pricing',
+  } as MultivariateConfig;
+}
+
+describe('validateMultivariate', () => {
+  it('accepts factors with at least two distinct levels', () => {
+    expect(validateMultivariate(makeConfig(['plain', 'bold']))).toEqual([]);
+  });
+
+  it('rejects blank levels instead of enumerating them as combinations', () => {
+    expect(validateMultivariate(makeConfig(['plain', 'bold', ' ']))).toEqual(['Factor 1 has a blank level']);
+    expect(validateMultivariate(makeConfig(['plain', '']))).toEqual(['Factor 1 has a blank level']);
+  });
+});
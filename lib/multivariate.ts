@@ -0,0 +1,266 @@
+import type {
+  CreateTestRequest,
+  Factor,
+  MultivariateConfig,
+  Test,
+  TestStats,
+  MultivariateAnalysis,
+  FactorMainEffect,
+  FactorInteraction,
+} from '@/types/Test';
+import { DEFAULT_CONFIDENCE_LEVEL, normalCdf, twoProportionZTest } from './significance';
+
+/**
+ * Multivariate (full factorial) tests
+ *
+ * Factors and their levels are expanded into every combination. The
+ * combination of baseline levels (the first level of each factor) becomes
+ * control and the others become ordinary variants with an equal share of
+ * traffic, so the Worker, counting and Thompson Sampling need no special
+ * handling. Analysis pools the arms back by factor level to report main
+ * effects and two-way interactions.
+ */
+
+// More combinations than this spread traffic too thin to learn anything
+export const MAX_COMBINATIONS = 32;
+
+type Combination = Record<string, string>;
+
+interface Arm {
+  combination: Combination;
+  views: number;
+  conversions: number;
+}
+
+/**
+ * Every combination of factor levels, baseline levels first
+ */
+export function enumerateCombinations(factors: Factor[]): Combination[] {
+  return factors.reduce<Combination[]>(
+    (combinations, factor) =>
+      combinations.flatMap(combination => factor.levels.map(level => ({ ...combination, [factor.key]: level }))),
+    [{}]
+  );
+}
+
+/**
+ * Combination of each factor's first level (the control arm)
+ */
+export function getBaselineCombination(factors: Factor[]): Combination {
+  return Object.fromEntries(factors.map(factor => [factor.key, factor.levels[0]]));
+}
+
+/**
+ * Destination URL for a combination: levels as query parameters, or filled into {key} placeholders
+ */
+export function buildCombinationUrl(config: MultivariateConfig, combination: Combination): string {
+  if (config.urlMode === 'template') {
+    return config.baseUrl.replace(/\{([A-Za-z0-9_-]+)\}/g, (placeholder, key: string) =>
+      key in combination ? encodeURIComponent(combination[key]) : placeholder
+    );
+  }
+
+  const url = new URL(config.baseUrl);
+  for (const [key, level] of Object.entries(combination)) {
+    url.searchParams.set(key, level);
+  }
+  return url.toString();
+}
+
+/**
+ * Human-readable combination (e.g. "Headline: bold · Price: 49")
+ */
+export function describeCombination(factors: Factor[], combination: Combination): string {
+  return factors
+    .map(factor => `${factor.name || factor.key}: ${combination[factor.key]}`)
+    .join(' · ');
+}
+
+/**
+ * Validate factors and URL mapping, returning a list of errors
+ */
+export function validateMultivariate(config?: MultivariateConfig): string[] {
+  const errors: string[] = [];
+
+  if (!config || !config.factors || config.factors.length === 0) {
+    return ['Multivariate tests need at least one factor'];
+  }
+  if (!['params', 'template'].includes(config.urlMode)) {
+    errors.push('URL mapping must be "params" or "template"');
+  }
+
+  const keys = new Set<string>();
+  config.factors.forEach((factor, index) => {
+    const label = `Factor ${index + 1}`;
+    if (!/^[A-Za-z0-9_-]+$/.test(factor.key || '')) {
+      errors.push(`${label} key may only contain letters, numbers, - and _`);
+    } else if (keys.has(factor.key)) {
+      errors.push(`${label} key "${factor.key}" is used twice`);
+    }
+    keys.add(factor.key);
+
+    // Levels are stored and enumerated as given, so a blank one would become its own combination
+    const levels = factor.levels || [];
+    if (levels.some(level => !level.trim())) {
+      errors.push(`${label} has a blank level`);
+    } else if (levels.length < 2) {
+      errors.push(`${label} needs at least two levels`);
+    } else if (new Set(levels).size !== levels.length) {
+      errors.push(`${label} has duplicate levels`);
+    }
+  });
+
+  const combinations = config.factors.reduce((count, factor) => count * (factor.levels?.length || 0), 1);
+  if (combinations > MAX_COMBINATIONS) {
+    errors.push(`Factors produce ${combinations} combinations (maximum ${MAX_COMBINATIONS})`);
+  }
+
+  if (config.urlMode === 'template') {
+    const missing = config.factors.filter(factor => !config.baseUrl?.includes(`{${factor.key}}`));
+    if (missing.length > 0) {
+      errors.push(`URL template is missing ${missing.map(factor => `{${factor.key}}`).join(', ')}`);
+    }
+  }
+
+  if (errors.length === 0) {
+    try {
+      new URL(buildCombinationUrl(config, enumerateCombinations(config.factors)[0]));
+    } catch {
+      errors.push(config.urlMode === 'template' ? 'URL template must produce valid URLs' : 'Base URL must be a valid URL');
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Replace controlUrl/variants with the generated combinations (no-op for A/B tests
+ * or invalid factor setups, which validation reports)
+ */
+export function applyMultivariateArms(data: CreateTestRequest): CreateTestRequest {
+  if (data.type !== 'multivariate' || validateMultivariate(data.multivariate).length > 0) {
+    return data;
+  }
+
+  const config = data.multivariate!;
+  const [baseline, ...others] = enumerateCombinations(config.factors);
+
+  // Equal split, with rounding leftovers going to control
+  const share = Math.floor(10000 / (others.length + 1)) / 100;
+
+  return {
+    ...data,
+    controlUrl: buildCombinationUrl(config, baseline),
+    controlPercentage: Math.round((100 - share * others.length) * 100) / 100,
+    variants: others.map(combination => ({
+      url: buildCombinationUrl(config, combination),
+      percentage: share,
+      combination,
+    })),
+  };
+}
+
+/**
+ * Control plus every variant, tagged with its combination
+ */
+function getArms(test: Test, stats: TestStats): Arm[] {
+  const arms: Arm[] = [{
+    combination: getBaselineCombination(test.multivariate!.factors),
+    views: stats.controlViews,
+    conversions: stats.controlConversions,
+  }];
+
+  for (const variant of test.variants) {
+    const variantStats = stats.variantStats[variant.id];
+    if (variant.combination && variantStats) {
+      arms.push({ combination: variant.combination, views: variantStats.views, conversions: variantStats.conversions });
+    }
+  }
+
+  return arms;
+}
+
+function pool(arms: Arm[], matches: (combination: Combination) => boolean): { views: number; conversions: number } {
+  return arms
+    .filter(arm => matches(arm.combination))
+    .reduce((total, arm) => ({ views: total.views + arm.views, conversions: total.conversions + arm.conversions }), { views: 0, conversions: 0 });
+}
+
+function rate(cell: { views: number; conversions: number }): number {
+  return cell.views > 0 ? cell.conversions / cell.views : 0;
+}
+
+/**
+ * Main effects per factor level (pooled over the other factors) and
+ * difference-in-differences interactions for every pair of factors.
+ * Pooling assumes the balanced allocation the test was created with.
+ */
+export function analyzeMultivariate(test: Test, stats: TestStats): MultivariateAnalysis | null {
+  if (test.type !== 'multivariate' || !test.multivariate) {
+    return null;
+  }
+
+  const factors = test.multivariate.factors;
+  const alpha = 1 - (stats.confidenceLevel ?? DEFAULT_CONFIDENCE_LEVEL);
+  const arms = getArms(test, stats);
+
+  const mainEffects: FactorMainEffect[] = factors.map(factor => {
+    const baseline = pool(arms, combination => combination[factor.key] === factor.levels[0]);
+
+    return {
+      factor: factor.key,
+      name: factor.name || factor.key,
+      levels: factor.levels.map((level, index) => {
+        const cell = pool(arms, combination => combination[factor.key] === level);
+        const pValue = index === 0
+          ? null
+          : twoProportionZTest(baseline.conversions, baseline.views, cell.conversions, cell.views).pValue;
+
+        return {
+          level,
+          views: cell.views,
+          conversions: cell.conversions,
+          rate: rate(cell) * 100,
+          lift: rate(baseline) > 0 ? ((rate(cell) - rate(baseline)) / rate(baseline)) * 100 : 0,
+          pValue,
+          significant: pValue !== null && pValue < alpha,
+        };
+      }),
+    };
+  });
+
+  const interactions: FactorInteraction[] = [];
+  factors.forEach((a, i) => {
+    factors.slice(i + 1).forEach(b => {
+      a.levels.slice(1).forEach(levelA => {
+        b.levels.slice(1).forEach(levelB => {
+          const cell = (valueA: string, valueB: string) =>
+            pool(arms, combination => combination[a.key] === valueA && combination[b.key] === valueB);
+          const cells = [cell(levelA, levelB), cell(levelA, b.levels[0]), cell(a.levels[0], levelB), cell(a.levels[0], b.levels[0])];
+
+          if (cells.some(c => c.views === 0)) {
+            interactions.push({ factors: [a.key, b.key], levels: [levelA, levelB], effect: 0, pValue: 1, significant: false });
+            return;
+          }
+
+          // (AB - A0) - (0B - 00): how much the effect of A's level changes when B's level is also applied
+          const effect = (rate(cells[0]) - rate(cells[1])) - (rate(cells[2]) - rate(cells[3]));
+          const standardError = Math.sqrt(cells.reduce((sum, c) => sum + (rate(c) * (1 - rate(c))) / c.views, 0));
+          const pValue = standardError > 0
+            ? Math.min(1, 2 * (1 - normalCdf(Math.abs(effect / standardError))))
+            : 1;
+
+          interactions.push({
+            factors: [a.key, b.key],
+            levels: [levelA, levelB],
+            effect: effect * 100,
+            pValue,
+            significant: pValue < alpha,
+          });
+        });
+      });
+    });
+  });
+
+  return { mainEffects, interactions };
+}
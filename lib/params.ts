@@ -0,0 +1,61 @@
+import type { Test, ParamForwarding, ParamForwardingMode } from '@/types/Test';
+
+/**
+ * Query-string forwarding from the entry URL to the bucket URL
+ *
+ * The Worker merges the visitor's query string into the destination so ad
+ * click IDs and UTM tags survive the redirect. Parameters already present on
+ * the destination URL win, and the __edgesplit_force debug parameter is never
+ * forwarded. Allowlist entries ending in `*` match by prefix (e.g. `utm_*`).
+ */
+
+export const PARAM_FORWARDING_MODES: ParamForwardingMode[] = ['all', 'allowlist', 'none'];
+
+// Attribution parameters most ad platforms rely on
+export const DEFAULT_PARAM_ALLOWLIST = ['utm_*', 'gclid', 'gbraid', 'wbraid', 'fbclid', 'msclkid', 'ttclid'];
+
+/**
+ * Effective forwarding settings (tests saved before forwarding existed forward everything)
+ */
+export function getParamForwarding(test: Pick<Test, 'paramForwarding'>): ParamForwarding {
+  return test.paramForwarding || { mode: 'all' };
+}
+
+/**
+ * Validate forwarding settings, returning a list of errors
+ */
+export function validateParamForwarding(paramForwarding?: ParamForwarding): string[] {
+  const errors: string[] = [];
+  if (!paramForwarding) return errors;
+
+  if (!PARAM_FORWARDING_MODES.includes(paramForwarding.mode)) {
+    errors.push(`Parameter forwarding must be one of: ${PARAM_FORWARDING_MODES.join(', ')}`);
+  }
+
+  if (paramForwarding.mode === 'allowlist') {
+    const allowlist = paramForwarding.allowlist || [];
+    if (allowlist.length === 0) {
+      errors.push('Parameter allowlist must contain at least one parameter');
+    }
+    allowlist
+      .filter(name => !/^[A-Za-z0-9_.\-[\]]+\*?$/.test(name))
+      .forEach(name => errors.push(`Invalid parameter name in allowlist: "${name}"`));
+  }
+
+  return errors;
+}
+
+/**
+ * Human-readable summary for the dashboard
+ */
+export function describeParamForwarding(test: Pick<Test, 'paramForwarding'>): string {
+  const { mode, allowlist } = getParamForwarding(test);
+
+  if (mode === 'none') {
+    return 'Query parameters are dropped';
+  }
+  if (mode === 'allowlist') {
+    return `Only forwarding: ${(allowlist || []).join(', ')}`;
+  }
+  return 'All query parameters are forwarded';
+}
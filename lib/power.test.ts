@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { estimateSampleSize, validateSampleSizeAllocation } from './power';
+import type { Test, TestStats } from '@/types/Test';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function makeTest(controlPercentage: number, percentages: number[], overrides: Partial<Test> = {}): Test {
+  return {
+    id: 'checkout',
+    controlPercentage,
+    variants: percentages.map((percentage, i) => ({ id: `variant${i + 1}`, url: `https://example.com/${i}`, percentage })),
+    createdAt: 0,
+    ...overrides,
+  } as unknown as Test;
+}
+
+function makeStats(views: number, lastUpdated: number): TestStats {
+  return {
+    controlViews: views,
+    variantStats: { variant1: { views, conversions: 0, rate: 0 } },
+    lastUpdated,
+  } as unknown as TestStats;
+}
+
+const input = { baselineRate: 5, minimumDetectableEffect: 10 };
+
+describe('estimateSampleSize', () => {
+  it('leaves out variants with a 0% split', () => {
+    const estimate = estimateSampleSize(makeTest(50, [50, 0]), input, makeStats(1000, 10 * DAY_MS), 10 * DAY_MS);
+
+    expect(Object.keys(estimate.requiredViews)).toEqual(['control', 'variant1']);
+    expect(estimate.requiredViews).toEqual(estimateSampleSize(makeTest(50, [50]), input).requiredViews);
+    expect(Number.isFinite(estimate.totalRequiredViews)).toBe(true);
+    expect(Number.isFinite(estimate.remainingDays)).toBe(true);
+  });
+
+  it('measures daily traffic from when the test started, not when it was created', () => {
+    const test = makeTest(50, [50], { createdAt: 0, startedAt: 8 * DAY_MS });
+    const estimate = estimateSampleSize(test, input, makeStats(1000, 10 * DAY_MS), 10 * DAY_MS);
+
+    expect(estimate.dailyViews).toBe(1000);
+  });
+});
+
+describe('validateSampleSizeAllocation', () => {
+  it('rejects splits without traffic to compare', () => {
+    expect(validateSampleSizeAllocation(makeTest(0, [100]))).toHaveLength(1);
+    expect(validateSampleSizeAllocation(makeTest(100, [0, 0]))).toHaveLength(1);
+    expect(validateSampleSizeAllocation(makeTest(50, [50, 0]))).toEqual([]);
+  });
+});
@@ -0,0 +1,173 @@
+import type { Test, TestStats, SampleSizeEstimate } from '@/types/Test';
+import { normalQuantile } from './significance';
+import { getStartTime } from './lifecycle';
+
+/**
+ * Power analysis for conversion-rate tests
+ *
+ * Computes how many views each arm needs to detect a given relative lift over
+ * the baseline, honouring unequal traffic splits, and projects how many more
+ * days the test has to run at the observed daily traffic. Variants with a 0%
+ * split get no traffic and are left out.
+ */
+
+export interface SampleSizeInput {
+  baselineRate: number; // Baseline conversion rate, in percent (e.g. 5 for 5%)
+  minimumDetectableEffect: number; // Relative lift to detect, in percent (e.g. 10 for +10%)
+  alpha?: number; // Two-sided significance level
+  power?: number; // Probability of detecting the effect if it exists
+}
+
+export const DEFAULT_ALPHA = 0.05;
+export const DEFAULT_POWER = 0.8;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Views needed in the control arm to compare against a variant receiving `ratio` times the traffic
+ * Standard two-proportion formula with unequal group sizes (Fleiss).
+ */
+export function requiredControlViews(
+  baseline: number,
+  variant: number,
+  ratio: number,
+  alpha: number,
+  power: number
+): number {
+  const zAlpha = normalQuantile(1 - alpha / 2);
+  const zBeta = normalQuantile(power);
+  const pooled = (baseline + ratio * variant) / (1 + ratio);
+
+  const numerator = Math.pow(
+    zAlpha * Math.sqrt(pooled * (1 - pooled) * (1 + 1 / ratio)) +
+    zBeta * Math.sqrt(baseline * (1 - baseline) + variant * (1 - variant) / ratio),
+    2
+  );
+
+  return Math.ceil(numerator / Math.pow(variant - baseline, 2));
+}
+
+/**
+ * Validate power analysis inputs, returning a list of errors
+ */
+export function validateSampleSizeInput(input: SampleSizeInput): string[] {
+  const errors: string[] = [];
+  const alpha = input.alpha ?? DEFAULT_ALPHA;
+  const power = input.power ?? DEFAULT_POWER;
+
+  if (!(input.baselineRate > 0 && input.baselineRate < 100)) {
+    errors.push('Baseline conversion rate must be between 0 and 100');
+  }
+  if (!(input.minimumDetectableEffect > 0)) {
+    errors.push('Minimum detectable effect must be greater than 0');
+  } else if (input.baselineRate * (1 + input.minimumDetectableEffect / 100) >= 100) {
+    errors.push('Baseline rate plus minimum detectable effect must stay below 100%');
+  }
+  if (!(alpha > 0 && alpha < 1)) {
+    errors.push('Alpha must be between 0 and 1');
+  }
+  if (!(power > 0 && power < 1)) {
+    errors.push('Power must be between 0 and 1');
+  }
+
+  return errors;
+}
+
+/**
+ * Validate that the test's traffic split leaves something to compare, returning a list of errors
+ */
+export function validateSampleSizeAllocation(test: Test): string[] {
+  const errors: string[] = [];
+
+  if (!(test.controlPercentage > 0)) {
+    errors.push('Control must receive traffic to estimate a sample size');
+  }
+  if (!test.variants.some(variant => variant.percentage > 0)) {
+    errors.push('At least one variant must receive traffic to estimate a sample size');
+  }
+
+  return errors;
+}
+
+/**
+ * Estimate required views per arm and, when stats are available, the remaining test duration
+ */
+export function estimateSampleSize(
+  test: Test,
+  input: SampleSizeInput,
+  stats?: TestStats | null,
+  now: number = Date.now()
+): SampleSizeEstimate {
+  const alpha = input.alpha ?? DEFAULT_ALPHA;
+  const power = input.power ?? DEFAULT_POWER;
+  const baseline = input.baselineRate / 100;
+  const target = baseline * (1 + input.minimumDetectableEffect / 100);
+
+  const variants = test.variants.filter(variant => variant.percentage > 0);
+  const totalPercentage = test.controlPercentage +
+    variants.reduce((sum, v) => sum + v.percentage, 0);
+  const shares: Record<string, number> = {
+    control: test.controlPercentage / totalPercentage,
+  };
+  variants.forEach(variant => {
+    shares[variant.id] = variant.percentage / totalPercentage;
+  });
+
+  // Control has to be large enough for its comparison with every variant
+  const requiredViews: Record<string, number> = { control: 0 };
+  variants.forEach(variant => {
+    const ratio = shares[variant.id] / shares.control;
+    const controlViews = requiredControlViews(baseline, target, ratio, alpha, power);
+    requiredViews.control = Math.max(requiredViews.control, controlViews);
+    requiredViews[variant.id] = Math.ceil(controlViews * ratio);
+  });
+
+  const totalRequiredViews = Math.ceil(Math.max(
+    ...Object.keys(requiredViews).map(bucket => requiredViews[bucket] / shares[bucket])
+  ));
+
+  const estimate: SampleSizeEstimate = {
+    baselineRate: input.baselineRate,
+    minimumDetectableEffect: input.minimumDetectableEffect,
+    alpha,
+    power,
+    requiredViews,
+    totalRequiredViews,
+    currentViews: null,
+    dailyViews: null,
+    remainingDays: null,
+    estimatedCompletionAt: null,
+  };
+
+  if (!stats) {
+    return estimate;
+  }
+
+  const currentViews: Record<string, number> = { control: stats.controlViews };
+  variants.forEach(variant => {
+    currentViews[variant.id] = stats.variantStats[variant.id]?.views || 0;
+  });
+  estimate.currentViews = currentViews;
+
+  const observedViews = Object.values(currentViews).reduce((sum, views) => sum + views, 0);
+  const elapsedDays = Math.max(1, (stats.lastUpdated - getStartTime(test)) / DAY_MS);
+  const dailyViews = observedViews / elapsedDays;
+
+  if (dailyViews <= 0) {
+    return estimate;
+  }
+
+  // The slowest arm decides when the test is done
+  const remainingDays = Math.max(
+    0,
+    ...Object.keys(requiredViews).map(bucket =>
+      (requiredViews[bucket] - currentViews[bucket]) / (dailyViews * shares[bucket])
+    )
+  );
+
+  estimate.dailyViews = dailyViews;
+  estimate.remainingDays = Math.ceil(remainingDays);
+  estimate.estimatedCompletionAt = now + Math.ceil(remainingDays) * DAY_MS;
+
+  return estimate;
+}
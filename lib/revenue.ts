@@ -0,0 +1,98 @@
+import type { BucketCounts, RevenueArmStats, RevenueStats, Test } from '@/types/Test';
+import { DEFAULT_CONFIDENCE_LEVEL, welchTTest } from './significance';
+
+/**
+ * Revenue metrics
+ *
+ * Conversions may carry an order value. Each bucket reports the sum of the
+ * values and the sum of their squares, which is enough to get the mean and
+ * variance of revenue per visitor (visitors who did not buy count as 0)
+ * without per-visitor data. Variants are compared to control on revenue per
+ * visitor with Welch's t-test, since order values are continuous and their
+ * variances differ between arms.
+ */
+
+interface RevenueSample {
+  views: number;
+  conversions: number;
+  revenue: number;
+  revenueSquares: number;
+}
+
+/**
+ * Validate a test's revenue settings, returning a list of errors
+ */
+export function validateRevenueConfig(config?: Test['revenue']): string[] {
+  if (!config) return [];
+  return /^[A-Z]{3}$/.test(config.currency || '')
+    ? []
+    : ['Revenue currency must be a 3-letter ISO code (e.g. USD)'];
+}
+
+function getSample(counts: BucketCounts, bucket: string): RevenueSample {
+  return {
+    views: counts.views[bucket] || 0,
+    conversions: counts.conversions[bucket] || 0,
+    revenue: counts.revenue?.[bucket] || 0,
+    revenueSquares: counts.revenueSquares?.[bucket] || 0,
+  };
+}
+
+// Sample variance of revenue per visitor, treating each conversion as one buying visitor
+function perVisitorVariance(sample: RevenueSample): number {
+  if (sample.views < 2) return 0;
+  const variance = (sample.revenueSquares - (sample.revenue * sample.revenue) / sample.views) / (sample.views - 1);
+  return Math.max(0, variance);
+}
+
+function summarize(sample: RevenueSample): RevenueArmStats {
+  return {
+    revenue: sample.revenue,
+    revenuePerVisitor: sample.views > 0 ? sample.revenue / sample.views : 0,
+    averageOrderValue: sample.conversions > 0 ? sample.revenue / sample.conversions : 0,
+  };
+}
+
+/**
+ * Revenue per visitor, AOV and Welch's t-test against control for every variant
+ */
+export function buildRevenueStats(
+  test: Test,
+  counts: BucketCounts,
+  confidenceLevel: number = DEFAULT_CONFIDENCE_LEVEL
+): RevenueStats | undefined {
+  if (!test.revenue || !counts.revenue) return undefined;
+
+  const control = getSample(counts, 'control');
+  const controlStats = summarize(control);
+  const variants: RevenueStats['variants'] = {};
+
+  for (const variant of test.variants) {
+    const sample = getSample(counts, variant.id);
+    const stats = summarize(sample);
+    const { tStatistic, degreesOfFreedom, pValue } = welchTTest(
+      controlStats.revenuePerVisitor,
+      perVisitorVariance(control),
+      control.views,
+      stats.revenuePerVisitor,
+      perVisitorVariance(sample),
+      sample.views
+    );
+
+    variants[variant.id] = {
+      ...stats,
+      lift: controlStats.revenuePerVisitor > 0
+        ? ((stats.revenuePerVisitor - controlStats.revenuePerVisitor) / controlStats.revenuePerVisitor) * 100
+        : 0,
+      significance: {
+        method: 'welch-t',
+        tStatistic,
+        degreesOfFreedom,
+        pValue,
+        significant: pValue < 1 - confidenceLevel,
+      },
+    };
+  }
+
+  return { currency: test.revenue.currency, control: controlStats, variants };
+}
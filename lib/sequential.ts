@@ -0,0 +1,176 @@
+import type { Test, StatsSnapshot, SequentialAnalysis } from '@/types/Test';
+
+/**
+ * Sequential testing with always-valid inference
+ *
+ * Implements the mixture Sequential Probability Ratio Test (mSPRT) for the
+ * difference of two conversion rates, using the normal approximation with a
+ * N(0, tau^2) mixing distribution (Johari et al., "Always Valid Inference").
+ * The resulting p-values and confidence sequences stay valid no matter how
+ * often the dashboard is checked, so the 15-minute sync can act on them.
+ */
+
+export const DEFAULT_SEQUENTIAL_ALPHA = 0.05;
+
+// Mixing variance of the effect prior: a 1 percentage point standard deviation
+export const DEFAULT_MIXING_VARIANCE = 0.01 * 0.01;
+
+// Snapshots older than this are dropped to keep the KV value small (~31 days at 15 minutes)
+export const MAX_SNAPSHOTS = 3000;
+
+// Minimum conversions per arm before the normal approximation is trusted
+const MIN_CONVERSIONS = 5;
+
+interface ArmCounts {
+  views: number;
+  conversions: number;
+}
+
+/**
+ * mSPRT likelihood ratio for an observed difference (minus its null value)
+ * whose estimate has the given sampling variance
+ */
+export function mixtureLikelihoodRatio(
+  difference: number,
+  variance: number,
+  mixingVariance: number = DEFAULT_MIXING_VARIANCE
+): number {
+  const totalVariance = variance + mixingVariance;
+
+  return Math.sqrt(variance / totalVariance) *
+    Math.exp((mixingVariance * difference * difference) / (2 * variance * totalVariance));
+}
+
+/**
+ * mSPRT likelihood ratio and confidence sequence half-width for a single observation
+ */
+function mixtureStatistics(
+  control: ArmCounts,
+  variant: ArmCounts,
+  alpha: number,
+  mixingVariance: number
+): { difference: number; likelihoodRatio: number; halfWidth: number } | null {
+  if (
+    control.views === 0 || variant.views === 0 ||
+    control.conversions < MIN_CONVERSIONS || variant.conversions < MIN_CONVERSIONS
+  ) {
+    return null;
+  }
+
+  const p1 = control.conversions / control.views;
+  const p2 = variant.conversions / variant.views;
+  const variance = p1 * (1 - p1) / control.views + p2 * (1 - p2) / variant.views;
+
+  if (variance <= 0) {
+    return null;
+  }
+
+  const difference = p2 - p1;
+  const totalVariance = variance + mixingVariance;
+  const likelihoodRatio = mixtureLikelihoodRatio(difference, variance, mixingVariance);
+
+  const halfWidth = Math.sqrt(
+    (variance * totalVariance / mixingVariance) *
+    (2 * Math.log(1 / alpha) + Math.log(totalVariance / variance))
+  );
+
+  return { difference, likelihoodRatio, halfWidth };
+}
+
+/**
+ * Run the sequential analysis over every recorded snapshot
+ * Always-valid p-values are the running minimum of 1 / likelihood ratio, and
+ * confidence sequences are the running intersection of per-snapshot intervals.
+ */
+export function analyzeSequential(
+  test: Test,
+  snapshots: StatsSnapshot[],
+  alpha: number = DEFAULT_SEQUENTIAL_ALPHA,
+  mixingVariance: number = DEFAULT_MIXING_VARIANCE
+): SequentialAnalysis {
+  const ordered = [...snapshots].sort((a, b) => a.timestamp - b.timestamp);
+  const variants: SequentialAnalysis['variants'] = {};
+
+  for (const variant of test.variants) {
+    let pValue = 1;
+    let lower = -Infinity;
+    let upper = Infinity;
+    let difference: number | null = null;
+
+    for (const snapshot of ordered) {
+      const result = mixtureStatistics(
+        {
+          views: snapshot.views.control || 0,
+          conversions: snapshot.conversions.control || 0,
+        },
+        {
+          views: snapshot.views[variant.id] || 0,
+          conversions: snapshot.conversions[variant.id] || 0,
+        },
+        alpha,
+        mixingVariance
+      );
+
+      if (!result) continue;
+
+      difference = result.difference;
+      pValue = Math.min(pValue, 1 / result.likelihoodRatio);
+      lower = Math.max(lower, result.difference - result.halfWidth);
+      upper = Math.min(upper, result.difference + result.halfWidth);
+    }
+
+    const hasInterval = Number.isFinite(lower) && Number.isFinite(upper);
+
+    variants[variant.id] = {
+      alwaysValidPValue: pValue,
+      difference: difference === null ? null : difference * 100,
+      confidenceSequence: hasInterval ? [lower * 100, upper * 100] : null,
+      significant: pValue < alpha,
+    };
+  }
+
+  return {
+    alpha,
+    snapshotCount: ordered.length,
+    firstSnapshotAt: ordered[0]?.timestamp ?? null,
+    lastSnapshotAt: ordered[ordered.length - 1]?.timestamp ?? null,
+    variants,
+    recommendation: recommend(variants),
+  };
+}
+
+/**
+ * Turn per-variant results into a stop/continue recommendation
+ */
+function recommend(variants: SequentialAnalysis['variants']): SequentialAnalysis['recommendation'] {
+  const ids = Object.keys(variants);
+
+  const winners = ids
+    .filter(id => variants[id].significant && (variants[id].difference ?? 0) > 0)
+    .sort((a, b) => (variants[b].difference ?? 0) - (variants[a].difference ?? 0));
+
+  if (winners.length > 0) {
+    return {
+      action: 'stop',
+      winner: winners[0],
+      reason: `${winners[0]} beats control with always-valid p = ${variants[winners[0]].alwaysValidPValue.toFixed(4)}`,
+    };
+  }
+
+  const allWorse = ids.length > 0 &&
+    ids.every(id => variants[id].significant && (variants[id].difference ?? 0) < 0);
+
+  if (allWorse) {
+    return {
+      action: 'stop',
+      winner: 'control',
+      reason: 'Every variant performs significantly worse than control',
+    };
+  }
+
+  return {
+    action: 'continue',
+    winner: null,
+    reason: 'No variant has reached significance yet - it is safe to keep checking',
+  };
+}
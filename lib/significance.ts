@@ -0,0 +1,364 @@
+import type { TestStats, SignificanceResult } from '@/types/Test';
+
+/**
+ * Frequentist significance testing for A/B test results
+ *
+ * Compares every variant against control using a two-proportion z-test,
+ * switching to Fisher's exact test when expected cell counts are too small
+ * for the normal approximation to hold.
+ */
+
+export const DEFAULT_CONFIDENCE_LEVEL = 0.95;
+
+// Below this expected count in any 2x2 cell, the z-test is unreliable
+const MIN_EXPECTED_CELL_COUNT = 5;
+
+/**
+ * Standard normal cumulative distribution function
+ * Uses the Abramowitz & Stegun 7.1.26 approximation of erf (error < 1.5e-7)
+ */
+export function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t *
+    Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Inverse of the standard normal CDF
+ * Uses Acklam's rational approximation (relative error < 1.15e-9)
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-3.969683028665376e+01, 2.209460984245205e+02, -2.759285104469687e+02, 1.383577518672690e+02, -3.066479806614716e+01, 2.506628277459239e+00];
+  const b = [-5.447609879822406e+01, 1.615858368580409e+02, -1.556989798598866e+02, 6.680131188771972e+01, -1.328068155288572e+01];
+  const c = [-7.784894002430293e-03, -3.223964580411365e-01, -2.400758277161838e+00, -2.549732539343734e+00, 4.374664141464968e+00, 2.938163982698783e+00];
+  const d = [7.784695709041462e-03, 3.224671290700398e-01, 2.445134137142996e+00, 3.754408661907416e+00];
+
+  const pLow = 0.02425;
+  const pHigh = 1 - pLow;
+
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+
+  if (p > pHigh) {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/**
+ * Natural log of the gamma function (Lanczos approximation)
+ */
+export function logGamma(x: number): number {
+  const coefficients = [
+    76.18009172947146, -86.50532032941677, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5,
+  ];
+
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let series = 1.000000000190015;
+  for (const coefficient of coefficients) {
+    series += coefficient / ++y;
+  }
+
+  return -tmp + Math.log(2.5066282746310005 * series / x);
+}
+
+/**
+ * Regularized incomplete beta function I_x(a, b)
+ * Continued fraction evaluated with the modified Lentz method (Numerical Recipes 6.4)
+ */
+function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  // The continued fraction converges fastest below the mean, so use the symmetry otherwise
+  if (x > (a + 1) / (a + b + 2)) {
+    return 1 - incompleteBeta(1 - x, b, a);
+  }
+
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x)) / a;
+  const tiny = 1e-30;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  d = 1 / (Math.abs(d) < tiny ? tiny : d);
+  let f = d;
+
+  for (let m = 1; m <= 200; m++) {
+    for (const numerator of [
+      (m * (b - m) * x) / ((a + 2 * m - 1) * (a + 2 * m)),
+      -((a + m) * (a + b + m) * x) / ((a + 2 * m) * (a + 2 * m + 1)),
+    ]) {
+      d = 1 + numerator * d;
+      d = 1 / (Math.abs(d) < tiny ? tiny : d);
+      c = 1 + numerator / c;
+      c = Math.abs(c) < tiny ? tiny : c;
+      f *= c * d;
+    }
+    if (Math.abs(c * d - 1) < 1e-10) break;
+  }
+
+  return front * f;
+}
+
+/**
+ * Student's t cumulative distribution function
+ */
+export function studentTCdf(t: number, degreesOfFreedom: number): number {
+  const tail = incompleteBeta(degreesOfFreedom / (degreesOfFreedom + t * t), degreesOfFreedom / 2, 0.5) / 2;
+  return t >= 0 ? 1 - tail : tail;
+}
+
+/**
+ * Welch's unequal-variance t-test on two sample means (two-sided)
+ */
+export function welchTTest(
+  controlMean: number,
+  controlVariance: number,
+  controlCount: number,
+  variantMean: number,
+  variantVariance: number,
+  variantCount: number
+): { tStatistic: number; degreesOfFreedom: number; pValue: number } {
+  if (controlCount < 2 || variantCount < 2) {
+    return { tStatistic: 0, degreesOfFreedom: 0, pValue: 1 };
+  }
+
+  const controlTerm = controlVariance / controlCount;
+  const variantTerm = variantVariance / variantCount;
+  const standardError = Math.sqrt(controlTerm + variantTerm);
+
+  if (standardError === 0) {
+    return { tStatistic: 0, degreesOfFreedom: 0, pValue: 1 };
+  }
+
+  const tStatistic = (variantMean - controlMean) / standardError;
+  // Welch-Satterthwaite approximation
+  const degreesOfFreedom = (controlTerm + variantTerm) ** 2 /
+    (controlTerm ** 2 / (controlCount - 1) + variantTerm ** 2 / (variantCount - 1));
+  const pValue = Math.min(1, 2 * (1 - studentTCdf(Math.abs(tStatistic), degreesOfFreedom)));
+
+  return { tStatistic, degreesOfFreedom, pValue };
+}
+
+function logFactorial(n: number): number {
+  return n < 2 ? 0 : logGamma(n + 1);
+}
+
+/**
+ * Wilson score interval for a single conversion rate (returned in percent)
+ */
+export function wilsonInterval(
+  conversions: number,
+  views: number,
+  confidenceLevel: number = DEFAULT_CONFIDENCE_LEVEL
+): [number, number] {
+  if (views === 0) return [0, 0];
+
+  const z = normalQuantile(1 - (1 - confidenceLevel) / 2);
+  const p = conversions / views;
+  const denominator = 1 + (z * z) / views;
+  const center = (p + (z * z) / (2 * views)) / denominator;
+  const margin = (z * Math.sqrt(p * (1 - p) / views + (z * z) / (4 * views * views))) / denominator;
+
+  return [Math.max(0, center - margin) * 100, Math.min(1, center + margin) * 100];
+}
+
+/**
+ * Two-proportion z-test with pooled standard error (two-sided)
+ */
+export function twoProportionZTest(
+  controlConversions: number,
+  controlViews: number,
+  variantConversions: number,
+  variantViews: number
+): { zScore: number; pValue: number } {
+  if (controlViews === 0 || variantViews === 0) {
+    return { zScore: 0, pValue: 1 };
+  }
+
+  const p1 = controlConversions / controlViews;
+  const p2 = variantConversions / variantViews;
+  const pooled = (controlConversions + variantConversions) / (controlViews + variantViews);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / controlViews + 1 / variantViews));
+
+  if (standardError === 0) {
+    return { zScore: 0, pValue: 1 };
+  }
+
+  const zScore = (p2 - p1) / standardError;
+  const pValue = Math.min(1, 2 * (1 - normalCdf(Math.abs(zScore))));
+
+  return { zScore, pValue };
+}
+
+/**
+ * Fisher's exact test on the 2x2 table of conversions vs non-conversions (two-sided)
+ * Sums the probability of every table at least as extreme as the observed one.
+ */
+export function fisherExactTest(
+  controlConversions: number,
+  controlViews: number,
+  variantConversions: number,
+  variantViews: number
+): number {
+  const totalViews = controlViews + variantViews;
+  const totalConversions = controlConversions + variantConversions;
+
+  if (controlViews === 0 || variantViews === 0) {
+    return 1;
+  }
+
+  const logDenominator = logFactorial(totalViews) - logFactorial(totalConversions) -
+    logFactorial(totalViews - totalConversions);
+
+  // Hypergeometric probability of `k` conversions landing in the control arm
+  const tableProbability = (k: number) => Math.exp(
+    logFactorial(controlViews) - logFactorial(k) - logFactorial(controlViews - k) +
+    logFactorial(variantViews) - logFactorial(totalConversions - k) -
+    logFactorial(variantViews - totalConversions + k) -
+    logDenominator
+  );
+
+  const observed = tableProbability(controlConversions);
+  const minK = Math.max(0, totalConversions - variantViews);
+  const maxK = Math.min(controlViews, totalConversions);
+
+  let pValue = 0;
+  for (let k = minK; k <= maxK; k++) {
+    const probability = tableProbability(k);
+    // Relative tolerance guards against floating point noise on ties
+    if (probability <= observed * (1 + 1e-7)) {
+      pValue += probability;
+    }
+  }
+
+  return Math.min(1, pValue);
+}
+
+/**
+ * Confidence interval for the relative lift of variant over control (in percent)
+ * Uses the unpooled (Wald) interval on the rate difference, scaled by the control rate.
+ */
+export function liftConfidenceInterval(
+  controlConversions: number,
+  controlViews: number,
+  variantConversions: number,
+  variantViews: number,
+  confidenceLevel: number = DEFAULT_CONFIDENCE_LEVEL
+): [number, number] {
+  if (controlViews === 0 || variantViews === 0 || controlConversions === 0) {
+    return [0, 0];
+  }
+
+  const p1 = controlConversions / controlViews;
+  const p2 = variantConversions / variantViews;
+  const standardError = Math.sqrt(p1 * (1 - p1) / controlViews + p2 * (1 - p2) / variantViews);
+  const z = normalQuantile(1 - (1 - confidenceLevel) / 2);
+
+  const diff = p2 - p1;
+  return [
+    ((diff - z * standardError) / p1) * 100,
+    ((diff + z * standardError) / p1) * 100,
+  ];
+}
+
+/**
+ * Compare a single variant against control
+ */
+export function compareToControl(
+  controlConversions: number,
+  controlViews: number,
+  variantConversions: number,
+  variantViews: number,
+  confidenceLevel: number = DEFAULT_CONFIDENCE_LEVEL
+): SignificanceResult {
+  const useFisher = hasSmallExpectedCounts(
+    controlConversions,
+    controlViews,
+    variantConversions,
+    variantViews
+  );
+
+  const { zScore, pValue: zPValue } = twoProportionZTest(
+    controlConversions,
+    controlViews,
+    variantConversions,
+    variantViews
+  );
+
+  const pValue = useFisher
+    ? fisherExactTest(controlConversions, controlViews, variantConversions, variantViews)
+    : zPValue;
+
+  return {
+    method: useFisher ? 'fisher' : 'z-test',
+    zScore,
+    pValue,
+    confidenceLevel,
+    significant: pValue < 1 - confidenceLevel,
+    liftInterval: liftConfidenceInterval(
+      controlConversions,
+      controlViews,
+      variantConversions,
+      variantViews,
+      confidenceLevel
+    ),
+  };
+}
+
+function hasSmallExpectedCounts(
+  controlConversions: number,
+  controlViews: number,
+  variantConversions: number,
+  variantViews: number
+): boolean {
+  const totalViews = controlViews + variantViews;
+  if (totalViews === 0) return true;
+
+  const conversionShare = (controlConversions + variantConversions) / totalViews;
+  const expectedCells = [
+    controlViews * conversionShare,
+    controlViews * (1 - conversionShare),
+    variantViews * conversionShare,
+    variantViews * (1 - conversionShare),
+  ];
+
+  return expectedCells.some(count => count < MIN_EXPECTED_CELL_COUNT);
+}
+
+/**
+ * Attach significance results for every variant to the given stats (mutates and returns stats)
+ */
+export function applySignificance(
+  stats: TestStats,
+  confidenceLevel: number = DEFAULT_CONFIDENCE_LEVEL
+): TestStats {
+  stats.confidenceLevel = confidenceLevel;
+
+  Object.keys(stats.variantStats).forEach(variantId => {
+    const variant = stats.variantStats[variantId];
+    variant.significance = compareToControl(
+      stats.controlConversions,
+      stats.controlViews,
+      variant.conversions,
+      variant.views,
+      confidenceLevel
+    );
+  });
+
+  return stats;
+}
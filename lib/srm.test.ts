@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { checkSampleRatio } from './srm';
+import type { Test, TestStats } from '@/types/Test';
+
+function makeTest(controlPercentage: number, percentages: number[]): Test {
+  return {
+    id: 'checkout',
+    controlPercentage,
+    variants: percentages.map((percentage, i) => ({ id: `variant${i + 1}`, url: `https://example.com/${i}`, percentage })),
+    createdAt: 0,
+  } as unknown as Test;
+}
+
+function makeStats(controlViews: number, variantViews: number[]): TestStats {
+  return {
+    controlViews,
+    variantStats: Object.fromEntries(variantViews.map((views, i) => [`variant${i + 1}`, { views, conversions: 0, rate: 0 }])),
+    lastUpdated: 0,
+  } as unknown as TestStats;
+}
+
+describe('checkSampleRatio', () => {
+  it('leaves arms set to 0% out of the degrees of freedom', () => {
+    const result = checkSampleRatio(makeTest(50, [50, 0]), makeStats(500, [510, 0]));
+
+    expect(result?.degreesOfFreedom).toBe(1);
+    expect(result?.pValue).toBeCloseTo(checkSampleRatio(makeTest(50, [50]), makeStats(500, [510]))!.pValue, 10);
+    expect(result?.mismatch).toBe(false);
+  });
+
+  it('flags views on an arm set to 0%', () => {
+    const result = checkSampleRatio(makeTest(50, [50, 0]), makeStats(500, [510, 3]));
+
+    expect(result?.buckets.variant2).toMatchObject({ observed: 3, expected: 0 });
+    expect(result?.mismatch).toBe(true);
+  });
+});
@@ -0,0 +1,144 @@
+import type { Test, TestStats, SRMResult } from '@/types/Test';
+import { logGamma } from './significance';
+
+/**
+ * Sample Ratio Mismatch (SRM) detection
+ *
+ * Runs a chi-square goodness-of-fit test of observed views per bucket against
+ * the configured traffic split. A broken split usually means redirects or
+ * tracking are dropping visitors from some arms, which invalidates the results.
+ */
+
+// Conventional SRM threshold - strict so that alerts are rarely false alarms
+export const SRM_P_VALUE_THRESHOLD = 0.001;
+
+// Too few views make the chi-square approximation meaningless
+const MIN_TOTAL_VIEWS = 100;
+
+/**
+ * Regularized upper incomplete gamma function Q(a, x)
+ * Series expansion below a + 1, continued fraction above (Numerical Recipes gammq)
+ */
+function upperIncompleteGamma(a: number, x: number): number {
+  if (x <= 0) return 1;
+
+  const logPrefix = -x + a * Math.log(x) - logGamma(a);
+
+  if (x < a + 1) {
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < 500; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * 1e-12) break;
+    }
+    return Math.max(0, 1 - sum * Math.exp(logPrefix));
+  }
+
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < 500; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+  return Math.min(1, Math.exp(logPrefix) * h);
+}
+
+/**
+ * Survival function of the chi-square distribution (the test's p-value)
+ */
+export function chiSquarePValue(chiSquare: number, degreesOfFreedom: number): number {
+  return upperIncompleteGamma(degreesOfFreedom / 2, chiSquare / 2);
+}
+
+/**
+ * Check observed views against configured percentages
+ * Returns null for tests where allocation is not static or there is not enough data.
+ */
+export function checkSampleRatio(test: Test, stats: TestStats): SRMResult | null {
+  if (test.autoOptimize) {
+    return null;
+  }
+
+  const configured: Record<string, number> = { control: test.controlPercentage };
+  const observed: Record<string, number> = { control: stats.controlViews };
+  test.variants.forEach(variant => {
+    configured[variant.id] = variant.percentage;
+    observed[variant.id] = stats.variantStats[variant.id]?.views || 0;
+  });
+
+  const totalViews = Object.values(observed).reduce((sum, views) => sum + views, 0);
+  const totalPercentage = Object.values(configured).reduce((sum, pct) => sum + pct, 0);
+
+  if (totalViews < MIN_TOTAL_VIEWS || totalPercentage <= 0) {
+    return null;
+  }
+
+  const buckets: SRMResult['buckets'] = {};
+  let chiSquare = 0;
+  let weightedBuckets = 0;
+  let zeroWeightViews = 0;
+
+  Object.keys(configured).forEach(bucket => {
+    const expectedShare = configured[bucket] / totalPercentage;
+    const expected = totalViews * expectedShare;
+    if (expected > 0) {
+      chiSquare += Math.pow(observed[bucket] - expected, 2) / expected;
+      weightedBuckets++;
+    } else {
+      zeroWeightViews += observed[bucket];
+    }
+
+    buckets[bucket] = {
+      observed: observed[bucket],
+      expected,
+      expectedPercentage: expectedShare * 100,
+      observedPercentage: (observed[bucket] / totalViews) * 100,
+    };
+  });
+
+  // Arms set to 0% are outside the chi-square test, and any views they get are a mismatch by themselves
+  const degreesOfFreedom = Math.max(0, weightedBuckets - 1);
+  const pValue = zeroWeightViews > 0
+    ? 0
+    : degreesOfFreedom > 0 ? chiSquarePValue(chiSquare, degreesOfFreedom) : 1;
+
+  return {
+    testId: test.id,
+    chiSquare,
+    degreesOfFreedom,
+    pValue,
+    threshold: SRM_P_VALUE_THRESHOLD,
+    mismatch: pValue < SRM_P_VALUE_THRESHOLD,
+    totalViews,
+    buckets,
+    checkedAt: Date.now(),
+  };
+}
+
+/**
+ * Human-readable summary of an SRM result
+ */
+export function describeSampleRatio(result: SRMResult): string {
+  const split = Object.keys(result.buckets)
+    .map(bucket => {
+      const { observedPercentage, expectedPercentage } = result.buckets[bucket];
+      return `${bucket} ${observedPercentage.toFixed(1)}% (expected ${expectedPercentage.toFixed(1)}%)`;
+    })
+    .join(', ');
+
+  return result.mismatch
+    ? `Sample ratio mismatch detected (p = ${result.pValue.toExponential(2)}): ${split}. Check for redirect or tracking bugs.`
+    : `Traffic split matches configuration (p = ${result.pValue.toFixed(3)})`;
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { buildTestStats } from './stats';
+import type { BucketCounts, SequentialAnalysis, Test } from '@/types/Test';
+
+function makeTest(analysisMode?: 'sequential'): Test {
+  return {
+    id: 'checkout',
+    analysisMode,
+    controlPercentage: 50,
+    variants: [{ id: 'variant1', url: 'https://example.com/b', percentage: 50 }],
+  } as unknown as Test;
+}
+
+// Significant for the fixed-horizon z-test (p ~ 0.006), not for a single mSPRT look
+const counts: BucketCounts = {
+  views: { control: 1000, variant1: 1000 },
+  conversions: { control: 100, variant1: 140 },
+};
+
+function recommendation(winner: string | null): SequentialAnalysis {
+  return {
+    recommendation: { action: winner ? 'stop' : 'continue', winner, reason: '' },
+  } as SequentialAnalysis;
+}
+
+describe('buildTestStats', () => {
+  it('takes the winner from the z-test for fixed-horizon tests', () => {
+    const stats = buildTestStats(makeTest(), counts);
+
+    expect(stats.winner).toBe('variant1');
+    expect(stats.lift).toBeCloseTo(40);
+  });
+
+  it('only takes the winner from the sequential analysis for sequential tests', () => {
+    expect(buildTestStats(makeTest('sequential'), counts).winner).toBeNull();
+    expect(buildTestStats(makeTest('sequential'), counts, recommendation(null)).winner).toBeNull();
+
+    const stats = buildTestStats(makeTest('sequential'), counts, recommendation('variant1'));
+    expect(stats.winner).toBe('variant1');
+    expect(stats.lift).toBeCloseTo(40);
+  });
+});
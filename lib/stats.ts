@@ -0,0 +1,148 @@
+import type { Test, TestStats, BucketCounts, SequentialAnalysis } from '@/types/Test';
+import { applySignificance } from './significance';
+import { HOLDOUT_BUCKET } from './bucketing';
+import { buildRevenueStats } from './revenue';
+
+/**
+ * Shared TestStats builder
+ *
+ * Turns raw per-bucket view/conversion counts (from GA4 or the Worker's
+ * edge counters) into rates, significance results and a winner.
+ * Sequential tests only take a winner from the always-valid mSPRT decision:
+ * the fixed-horizon z-test would reward checking the results until they look significant.
+ */
+
+/**
+ * Build dashboard stats from per-bucket counts (buckets the test doesn't know are ignored,
+ * apart from the global holdout). Sequential tests pass their analysis for the winner.
+ */
+export function buildTestStats(
+  test: Test,
+  counts: BucketCounts,
+  sequential: SequentialAnalysis | null = null
+): TestStats {
+  const stats = createEmptyStats(test);
+
+  stats.controlViews = counts.views.control || 0;
+  stats.controlConversions = counts.conversions.control || 0;
+  stats.controlRate = calculateRate(stats.controlConversions, stats.controlViews);
+
+  Object.keys(stats.variantStats).forEach(variantId => {
+    const variant = stats.variantStats[variantId];
+    variant.views = counts.views[variantId] || 0;
+    variant.conversions = counts.conversions[variantId] || 0;
+    variant.rate = calculateRate(variant.conversions, variant.views);
+  });
+
+  // Holdout visitors are kept out of the comparison and only feed the holdout report
+  const holdoutViews = counts.views[HOLDOUT_BUCKET] || 0;
+  if (holdoutViews > 0) {
+    const holdoutConversions = counts.conversions[HOLDOUT_BUCKET] || 0;
+    stats.holdout = {
+      views: holdoutViews,
+      conversions: holdoutConversions,
+      rate: calculateRate(holdoutConversions, holdoutViews),
+    };
+  }
+
+  if (counts.steps) {
+    stats.funnel = counts.steps;
+  }
+
+  const revenue = buildRevenueStats(test, counts);
+  if (revenue) {
+    stats.revenue = revenue;
+  }
+
+  // Compare each variant against control
+  applySignificance(stats);
+
+  // Determine winner and lift
+  const winner = test.analysisMode === 'sequential'
+    ? sequential?.recommendation.winner ?? null
+    : determineWinner(stats);
+  const lift = winner ? calculateLift(stats, winner) : 0;
+  stats.winner = winner;
+  stats.lift = lift;
+
+  return stats;
+}
+
+function calculateRate(conversions: number, views: number): number {
+  if (views === 0) return 0;
+  return (conversions / views) * 100;
+}
+
+/**
+ * Relative lift of the winner over control (or of control over the best variant when control wins)
+ */
+function calculateLift(stats: TestStats, winner: string): number {
+  if (stats.controlRate === 0) return 0;
+
+  if (winner === 'control') {
+    const maxVariantRate = Math.max(...Object.values(stats.variantStats).map(v => v.rate));
+    return ((stats.controlRate - maxVariantRate) / stats.controlRate) * 100;
+  }
+
+  return ((stats.variantStats[winner].rate - stats.controlRate) / stats.controlRate) * 100;
+}
+
+/**
+ * Pick a winner only when the difference is statistically significant
+ */
+function determineWinner(stats: TestStats): string | null {
+  let bestRate = stats.controlRate;
+  let winner: string | null = null;
+
+  // A variant only wins if it beats control significantly
+  Object.keys(stats.variantStats).forEach(variantId => {
+    const variant = stats.variantStats[variantId];
+    if (variant.significance?.significant && variant.rate > stats.controlRate && variant.rate > bestRate) {
+      bestRate = variant.rate;
+      winner = variantId;
+    }
+  });
+
+  const variants = Object.values(stats.variantStats);
+
+  if (
+    !winner &&
+    variants.length > 0 &&
+    variants.every(v => v.significance?.significant && v.rate < stats.controlRate)
+  ) {
+    // Control wins only if it significantly beats every variant
+    winner = 'control';
+  }
+
+  // Only declare winner if there's meaningful data
+  const hasMinimumData = stats.controlViews >= 100 || 
+    variants.some(v => v.views >= 100);
+  
+  return hasMinimumData ? winner : null;
+}
+
+/**
+ * Stats with zero counts for every arm (used when no data could be fetched)
+ */
+export function createEmptyStats(test: Test): TestStats {
+  const variantStats: TestStats['variantStats'] = {};
+  
+  test.variants.forEach(variant => {
+    variantStats[variant.id] = {
+      views: 0,
+      conversions: 0,
+      rate: 0,
+    };
+  });
+
+  return {
+    testId: test.id,
+    controlViews: 0,
+    controlConversions: 0,
+    controlRate: 0,
+    variantStats,
+    winner: null,
+    lift: 0,
+    lastUpdated: Date.now(),
+  };
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { syncTest } from './sync';
+import { generateWorkerCode } from './cloudflare';
+import { getKVStore, getTest, saveTest, EDGE_EVENT_GRACE_MS } from './kv';
+import type { Test } from '@/types/Test';
+
+const test = {
+  id: 'edge-sync',
+  name: 'Edge sync',
+  status: 'running',
+  countingMode: 'edge',
+  controlPercentage: 50,
+  variants: [{ id: 'variant1', url: 'https://example.com/b', percentage: 50 }],
+  eventNames: { view: 'edge_sync_view', conversion: 'edge_sync_conversion' },
+  ga4: { measurementId: 'G-TEST', propertyId: '123456' },
+  createdAt: 0,
+} as unknown as Test;
+
+describe('syncTest', () => {
+  it('writes edge counts where the generated Worker reads them for Thompson Sampling', async () => {
+    const kv = getKVStore();
+    await saveTest(test);
+
+    const settled = Date.now() - 2 * EDGE_EVENT_GRACE_MS;
+    const events: Array<[string, number]> = [['views_control', 3], ['views_variant1', 4], ['conversions_variant1', 2]];
+    for (const [counter, count] of events) {
+      for (let i = 0; i < count; i++) {
+        await kv.put(`edge_event:${test.id}:${settled}:${counter}:1:${crypto.randomUUID()}`, '1');
+      }
+    }
+
+    expect((await syncTest(test.id)).success).toBe(true);
+
+    const source = generateWorkerCode(test).replace('export default {', 'const worker = {');
+    const { loadStats } = new Function(`${source}\nreturn { loadStats };`)();
+    const stats = await loadStats({ AB_TESTS: kv }, test);
+
+    expect(stats).toEqual({
+      views: { control: 3, variant1: 4 },
+      conversions: { control: 0, variant1: 2 },
+    });
+  });
+
+  it('concludes a sequential test without the fixed-horizon winner', async () => {
+    const sequential = { ...test, id: 'edge-sequential', analysisMode: 'sequential', endAt: Date.now() - 1000 } as Test;
+    await saveTest(sequential);
+
+    // The z-test calls variant1 a winner here (p ~ 0.006); one mSPRT look does not
+    const settled = Date.now() - 2 * EDGE_EVENT_GRACE_MS;
+    const totals: Array<[string, number]> = [
+      ['views_control', 1000], ['views_variant1', 1000], ['conversions_control', 100], ['conversions_variant1', 140],
+    ];
+    for (const [counter, amount] of totals) {
+      await getKVStore().put(`edge_event:${sequential.id}:${settled}:${counter}:${amount}:${crypto.randomUUID()}`, '1');
+    }
+
+    const result = await syncTest(sequential.id);
+
+    expect(result.transition).toBe('conclude');
+    expect((await getTest(sequential.id))?.concludedWinner).toBe('control');
+  });
+});
@@ -1,17 +1,25 @@
-import type { Test } from '@/types/Test';
-import { getKVStore } from './kv';
-import { loadConfig } from './config';
+import type { Test, BucketCounts, GuardrailReport, SequentialAnalysis } from '@/types/Test';
+import { getKVStore, appendStatsSnapshot, getTest, saveTest, saveTestStats, getTestStats, saveTestTimeSeries, saveSRMResult, getEdgeCounts, rollUpEdgeEvents, getGuardrailReport, saveGuardrailReport } from './kv';
+import { analyzeSequential, MAX_SNAPSHOTS } from './sequential';
+import { getTestStatus, getScheduledAction, applyTransition, type LifecycleAction } from './lifecycle';
+import { evaluateGuardrails } from './guardrails';
+import { buildTestStats } from './stats';
+import { fetchGA4Counts } from './ga4';
+import { checkSampleRatio } from './srm';
 
 interface SyncResult {
   testId: string;
   success: boolean;
   views: Record<string, number>;
   conversions: Record<string, number>;
+  skipped?: boolean; // Drafts and archived tests are not synced
+  transition?: LifecycleAction; // Scheduled transition applied during this sync
+  guardrailBreached?: boolean;
   error?: string;
 }
 
 /**
- * Sync a single test's stats from GA4 to KV
+ * Sync a single test's stats from GA4 (or the Worker's edge counters) to KV
  */
 export async function syncTest(testId: string): Promise<SyncResult> {
   const result: SyncResult = {
@@ -30,20 +38,54 @@ export async function syncTest(testId: string): Promise<SyncResult> {
       throw new Error(`Test config not found: ${testId}`);
     }
     
-    const test: Test = JSON.parse(testConfigJson);
+    let test: Test = JSON.parse(testConfigJson);
+
+    // Start or conclude the test if its schedule says so
+    const scheduledAction = getScheduledAction(test);
+    if (scheduledAction) {
+      test = await applyScheduledTransition(test, scheduledAction);
+      result.transition = scheduledAction;
+    }
+
+    // Tests that are not collecting data don't need GA4 quota
+    const status = getTestStatus(test);
+    if (status === 'draft' || status === 'archived') {
+      result.success = true;
+      result.skipped = true;
+      return result;
+    }
     
     // Load current stats from KV
     const currentStats = await loadStatsFromKV(testId, test);
     
-    // Query GA4 for new data
-    const ga4Stats = await queryGA4Stats(test);
+    // Edge-counted tests don't need GA4 at all
+    if (test.countingMode === 'edge') {
+      await rollUpEdgeEvents(testId);
+    }
+    const { counts, daily } = test.countingMode === 'edge'
+      ? { counts: await getEdgeCounts(test), daily: [] }
+      : await fetchGA4Counts(test);
     
     // Update KV with new stats
-    await updateKVStats(testId, test, ga4Stats);
-    
+    await updateKVStats(testId, test, counts);
+    if (daily.length > 0) {
+      await saveTestTimeSeries(testId, daily);
+    }
+
+    // Same stats the dashboard builds on refresh
+    const stats = buildTestStats(test, counts, await recordSequentialSnapshot(test, counts));
+    await saveTestStats(testId, stats);
+    await saveSRMResult(testId, checkSampleRatio(test, stats));
+
+    if (test.guardrails?.length) {
+      const report = evaluateGuardrails(test, counts, await getGuardrailReport(testId));
+      await applyGuardrailReport(test, report);
+      result.guardrailBreached = report.breached;
+    }
+
     result.success = true;
-    result.views = ga4Stats.views;
-    result.conversions = ga4Stats.conversions;
+    result.views = counts.views;
+    result.conversions = counts.conversions;
     
   } catch (error) {
     result.error = error instanceof Error ? error.message : 'Unknown error';
@@ -52,6 +94,88 @@ export async function syncTest(testId: string): Promise<SyncResult> {
   return result;
 }
 
+/**
+ * Apply a transition that is due according to the test's startAt/endAt schedule
+ * Concluded tests send everyone to the significant winner (control if there is none).
+ */
+async function applyScheduledTransition(test: Test, action: LifecycleAction): Promise<Test> {
+  let winner: string | undefined;
+
+  if (action === 'conclude') {
+    try {
+      const stats = await fetchFinalStats(test);
+      await saveTestStats(test.id, stats);
+      winner = stats.winner || undefined;
+    } catch (error) {
+      // Fall back to the last stats the dashboard cached
+      console.error(`Failed to fetch final stats for ${test.id}:`, error);
+      const cached = await getTestStats(test.id);
+      winner = cached?.winner || undefined;
+    }
+  }
+
+  const updated = applyTransition(test, action, { winner });
+  await saveTest(updated);
+
+  return updated;
+}
+
+/**
+ * Flag the test while a guardrail is breached, pausing it the first time if configured.
+ * The flag stays set after a manual resume so the next sync does not pause it again.
+ */
+async function applyGuardrailReport(test: Test, report: GuardrailReport): Promise<Test> {
+  let updated = test;
+
+  if (report.breached !== !!test.guardrailBreachedAt) {
+    // Re-read so edits saved while stats were being fetched aren't overwritten
+    const current = (await getTest(test.id)) || test;
+    updated = current;
+
+    if (report.breached && !current.guardrailBreachedAt) {
+      const breaches = report.results.filter(r => r.breached).map(r => `${r.name} (${r.variantId})`);
+      console.warn(`Guardrail breached for ${test.id}: ${breaches.join(', ')}`);
+
+      updated = { ...current, guardrailBreachedAt: report.evaluatedAt };
+      if (current.guardrailAutoPause && getTestStatus(current) === 'running') {
+        updated = applyTransition(updated, 'pause');
+        report.autoPaused = true;
+      }
+      await saveTest(updated);
+    } else if (!report.breached && current.guardrailBreachedAt) {
+      updated = { ...current, guardrailBreachedAt: undefined };
+      await saveTest(updated);
+    }
+  }
+
+  await saveGuardrailReport(test.id, report);
+  return updated;
+}
+
+async function fetchFinalStats(test: Test) {
+  const counts = test.countingMode === 'edge'
+    ? await getEdgeCounts(test)
+    : (await fetchGA4Counts(test)).counts;
+
+  return buildTestStats(test, counts, await recordSequentialSnapshot(test, counts));
+}
+
+/**
+ * Sequential tests keep every sync and refresh as a look at the data; returns the
+ * analysis over all looks so far (null for fixed-horizon tests)
+ */
+export async function recordSequentialSnapshot(test: Test, counts: BucketCounts): Promise<SequentialAnalysis | null> {
+  if (test.analysisMode !== 'sequential') return null;
+
+  const snapshots = await appendStatsSnapshot(test.id, {
+    timestamp: Date.now(),
+    views: counts.views,
+    conversions: counts.conversions,
+  }, MAX_SNAPSHOTS);
+
+  return analyzeSequential(test, snapshots);
+}
+
 /**
  * Sync all tests registered in the tests:list
  */
@@ -126,109 +250,13 @@ async function loadStatsFromKV(testId: string, test: Test): Promise<{
   return stats;
 }
 
-/**
- * Query GA4 for view and conversion events
- */
-async function queryGA4Stats(test: Test): Promise<{
-  views: Record<string, number>;
-  conversions: Record<string, number>;
-}> {
-  const config = await loadConfig();
-  
-  // Import GA4 module
-  const { getAccessToken } = await import('./ga4');
-  const accessToken = await getAccessToken();
-  
-  const propertyId = test.ga4.propertyId;
-  const viewEvent = test.eventNames.view;
-  const conversionEvent = test.eventNames.conversion;
-  
-  const stats = {
-    views: { control: 0 } as Record<string, number>,
-    conversions: { control: 0 } as Record<string, number>,
-  };
-
-  // Initialize variant counters
-  for (const variant of test.variants) {
-    stats.views[variant.id] = 0;
-    stats.conversions[variant.id] = 0;
-  }
-
-  try {
-    const response = await fetch(
-      `https://analyticsdata.googleapis.com/v1beta/properties/${propertyId}:runReport`,
-      {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          dateRanges: [{ startDate: '30daysAgo', endDate: 'today' }],
-          dimensions: [
-            { name: 'eventName' },
-            { name: 'customEvent:bucket' }
-          ],
-          metrics: [{ name: 'eventCount' }],
-          dimensionFilter: {
-            orGroup: {
-              expressions: [
-                {
-                  filter: {
-                    fieldName: 'eventName',
-                    stringFilter: { value: viewEvent }
-                  }
-                },
-                {
-                  filter: {
-                    fieldName: 'eventName',
-                    stringFilter: { value: conversionEvent }
-                  }
-                }
-              ]
-            }
-          }
-        }),
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error(`GA4 API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    
-    // Parse GA4 response
-    if (data.rows && data.rows.length > 0) {
-      for (const row of data.rows) {
-        const eventName = row.dimensionValues[0]?.value;
-        const bucket = row.dimensionValues[1]?.value;
-        const count = parseInt(row.metricValues[0]?.value || '0', 10);
-        
-        if (!bucket) continue;
-        
-        if (eventName === viewEvent) {
-          stats.views[bucket] = (stats.views[bucket] || 0) + count;
-        } else if (eventName === conversionEvent) {
-          stats.conversions[bucket] = (stats.conversions[bucket] || 0) + count;
-        }
-      }
-    }
-  } catch (error) {
-    console.error('Error querying GA4:', error);
-    throw error;
-  }
-
-  return stats;
-}
-
 /**
  * Update KV with new stats
  */
 async function updateKVStats(
   testId: string,
   test: Test,
-  stats: { views: Record<string, number>; conversions: Record<string, number> }
+  stats: BucketCounts
 ): Promise<void> {
   const kv = getKVStore();
   
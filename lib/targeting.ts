@@ -0,0 +1,84 @@
+import type { TargetingRule, TargetingAttribute, TargetingOperator } from '@/types/Test';
+
+/**
+ * Audience targeting rules
+ *
+ * Rules are AND-ed; each rule matches when the visitor's attribute is (or is
+ * not) one of its values. The Worker evaluates them before assigning a bucket,
+ * and visitors outside the audience are sent to control without a bucket
+ * cookie and without being counted.
+ */
+
+// Cookie the Worker sets on first contact so later visits count as returning
+export const SEEN_COOKIE_NAME = '__edgesplit_seen';
+
+export const TARGETING_ATTRIBUTES: Record<TargetingAttribute, {
+  label: string;
+  placeholder: string;
+  allowedValues?: string[]; // Closed set of values (otherwise free text)
+}> = {
+  country: { label: 'Country', placeholder: 'US, CA, GB' },
+  device: { label: 'Device', placeholder: 'mobile, tablet, desktop', allowedValues: ['mobile', 'tablet', 'desktop'] },
+  referrer: { label: 'Referrer domain', placeholder: 'google.com, direct' },
+  utm_source: { label: 'UTM source', placeholder: 'facebook, newsletter' },
+  utm_campaign: { label: 'UTM campaign', placeholder: 'black_friday' },
+  visitor: { label: 'Visitor', placeholder: 'new or returning', allowedValues: ['new', 'returning'] },
+};
+
+export const TARGETING_OPERATORS: TargetingOperator[] = ['is', 'is_not'];
+
+/**
+ * Validate targeting rules, returning a list of errors
+ */
+export function validateTargetingRules(rules?: TargetingRule[]): string[] {
+  const errors: string[] = [];
+  if (!rules) return errors;
+
+  rules.forEach((rule, index) => {
+    const label = `Targeting rule ${index + 1}`;
+    const attribute = TARGETING_ATTRIBUTES[rule.attribute];
+
+    if (!attribute) {
+      errors.push(`${label} has an unknown attribute`);
+      return;
+    }
+    if (!TARGETING_OPERATORS.includes(rule.operator)) {
+      errors.push(`${label} operator must be "is" or "is_not"`);
+    }
+    if (!rule.values || rule.values.length === 0 || rule.values.some(value => !value.trim())) {
+      errors.push(`${label} needs at least one value`);
+      return;
+    }
+
+    if (attribute.allowedValues) {
+      const invalid = rule.values.filter(value => !attribute.allowedValues!.includes(value));
+      if (invalid.length > 0) {
+        errors.push(`${label}: ${attribute.label} must be one of ${attribute.allowedValues.join(', ')}`);
+      }
+    }
+    if (rule.attribute === 'country' && rule.values.some(value => !/^[A-Z]{2}$/.test(value))) {
+      errors.push(`${label}: countries must be two-letter ISO codes (e.g. US)`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Normalize free-text values the way the Worker compares them
+ */
+export function normalizeTargetingValues(attribute: TargetingAttribute, values: string[]): string[] {
+  return values
+    .map(value => value.trim())
+    .filter(Boolean)
+    .map(value => attribute === 'country' ? value.toUpperCase() : value.toLowerCase())
+    .map(value => attribute === 'referrer' ? value.replace(/^https?:\/\//, '').replace(/^www\./, '').split('/')[0] : value);
+}
+
+/**
+ * Human-readable summary of a rule (e.g. "Country is US or CA")
+ */
+export function describeTargetingRule(rule: TargetingRule): string {
+  const label = TARGETING_ATTRIBUTES[rule.attribute]?.label || rule.attribute;
+  return `${label} ${rule.operator === 'is' ? 'is' : 'is not'} ${rule.values.join(' or ')}`;
+}
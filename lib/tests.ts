@@ -1,6 +1,15 @@
-import type { Test, CreateTestRequest } from '@/types/Test';
+import { randomBytes } from 'crypto';
+import type { Test, CreateTestRequest, BucketingConfig } from '@/types/Test';
 import { slugify } from './utils';
 import { loadConfig } from './config';
+import { getTest, saveTest } from './kv';
+import { validateParamForwarding } from './params';
+import { validateTargetingRules } from './targeting';
+import { validateMultivariate, describeCombination, getBaselineCombination } from './multivariate';
+import { validateFunnelSteps, buildFunnelSteps } from './funnel';
+import { validateRevenueConfig } from './revenue';
+import { validateGuardrails, buildGuardrails } from './guardrails';
+import { validateTransition, applyTransition, validateSchedule, type LifecycleAction, type TransitionOptions } from './lifecycle';
 
 export function validateTestConfig(data: CreateTestRequest): string[] {
   const errors: string[] = [];
@@ -9,6 +18,18 @@ export function validateTestConfig(data: CreateTestRequest): string[] {
     errors.push('Test name is required');
   }
 
+  if (data.type && !['ab', 'multivariate'].includes(data.type)) {
+    errors.push('Test type must be "ab" or "multivariate"');
+  }
+
+  // Control and variants are generated from the factors (see applyMultivariateArms)
+  if (data.type === 'multivariate') {
+    const multivariateErrors = validateMultivariate(data.multivariate);
+    if (multivariateErrors.length > 0) {
+      return [...errors, ...multivariateErrors];
+    }
+  }
+
   if (!data.entryPath || !isValidUrl(data.entryPath)) {
     errors.push('Entry URL must be a valid URL');
   }
@@ -34,6 +55,44 @@ export function validateTestConfig(data: CreateTestRequest): string[] {
     errors.push('Control percentage must be between 0 and 100');
   }
 
+  if (data.analysisMode && !['fixed', 'sequential'].includes(data.analysisMode)) {
+    errors.push('Analysis mode must be "fixed" or "sequential"');
+  }
+
+  if (data.countingMode && !['ga4', 'edge'].includes(data.countingMode)) {
+    errors.push('Counting mode must be "ga4" or "edge"');
+  }
+
+  if (data.deliveryMode && !['redirect', 'proxy'].includes(data.deliveryMode)) {
+    errors.push('Delivery mode must be "redirect" or "proxy"');
+  }
+
+  errors.push(...validateParamForwarding(data.paramForwarding));
+  errors.push(...validateTargetingRules(data.targeting));
+  errors.push(...validateFunnelSteps(data.funnelSteps));
+  errors.push(...validateRevenueConfig(data.revenue));
+  errors.push(...validateGuardrails(data.guardrails));
+
+  if (data.bucketing) {
+    if (!['random', 'deterministic'].includes(data.bucketing.mode)) {
+      errors.push('Bucketing mode must be "random" or "deterministic"');
+    }
+    if (data.bucketing.visitorIdHeader && !/^[A-Za-z0-9-]+$/.test(data.bucketing.visitorIdHeader)) {
+      errors.push('Visitor ID header must be a valid HTTP header name');
+    }
+  }
+
+  if (data.layer) {
+    if (!data.layer.layerId) {
+      errors.push('Layer is required when joining a layer');
+    }
+    if (!(data.layer.percentage > 0 && data.layer.percentage <= 100)) {
+      errors.push('Layer traffic share must be between 0 and 100');
+    }
+  }
+
+  errors.push(...validateSchedule(data.startAt, data.endAt));
+
   const totalPercentage = data.controlPercentage + 
     data.variants.reduce((sum, v) => sum + v.percentage, 0);
   
@@ -67,22 +126,81 @@ export async function createTestConfig(data: CreateTestRequest): Promise<Test> {
       id: `variant${i + 1}`,
       url: v.url,
       percentage: v.percentage,
+      combination: v.combination,
     })),
     controlPercentage: data.controlPercentage,
+    type: data.type || 'ab',
+    multivariate: data.type === 'multivariate' ? data.multivariate : undefined,
     ga4: {
       measurementId: config.gaMeasurementId,
       propertyId: config.gaPropertyId,
-      apiSecret: config.gaApiSecret,
     },
     eventNames: {
       view: `${testId}_view`,
       conversion: `${testId}_conversion`,
     },
+    funnelSteps: buildFunnelSteps(testId, data.funnelSteps),
+    revenue: data.revenue,
+    guardrails: buildGuardrails(testId, data.guardrails),
+    guardrailAutoPause: data.guardrailAutoPause || false,
     autoOptimize: data.autoOptimize || false,
+    analysisMode: data.analysisMode || 'fixed',
+    countingMode: data.countingMode || 'ga4',
+    deliveryMode: data.deliveryMode || 'redirect',
+    paramForwarding: data.paramForwarding || { mode: 'all' },
+    targeting: data.targeting || [],
+    bucketing: withBucketingSalt(data.bucketing),
+    startAt: data.startAt,
+    endAt: data.endAt,
+    status: 'draft',
+    statusChangedAt: timestamp,
     createdAt: timestamp,
   };
 }
 
+/**
+ * Fill in a salt for deterministic bucketing, keeping the previous one so
+ * edits don't reshuffle visitors
+ */
+export function withBucketingSalt(
+  bucketing: BucketingConfig | undefined,
+  previous?: BucketingConfig
+): BucketingConfig {
+  if (!bucketing || bucketing.mode === 'random') {
+    return { mode: 'random' };
+  }
+
+  return {
+    mode: 'deterministic',
+    salt: bucketing.salt || previous?.salt || randomBytes(8).toString('hex'),
+    visitorIdHeader: bucketing.visitorIdHeader || undefined,
+  };
+}
+
+/**
+ * Load, transition and save a test (see lib/lifecycle.ts)
+ */
+export async function transitionTestById(
+  testId: string,
+  action: LifecycleAction,
+  options: TransitionOptions = {}
+): Promise<{ test?: Test; previous?: Test; errors?: string[]; notFound?: boolean }> {
+  const test = await getTest(testId);
+  if (!test) {
+    return { notFound: true };
+  }
+
+  const errors = validateTransition(test, action, options);
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const updated = applyTransition(test, action, options);
+  await saveTest(updated);
+
+  return { test: updated, previous: test };
+}
+
 function isValidUrl(url: string): boolean {
   try {
     new URL(url);
@@ -92,7 +210,65 @@ function isValidUrl(url: string): boolean {
   }
 }
 
+/**
+ * First-party conversion endpoint served by the test's Worker (lives under the entry path,
+ * so the existing Worker route already covers it)
+ */
+function getConversionEndpoint(test: Test): string {
+  const base = test.entryDomain
+    ? `https://${test.entryDomain}${test.entryPath}`
+    : test.entryUrl || test.entryPath;
+  return `${base.replace(/\/$/, '')}/__edgesplit/convert`;
+}
+
+/**
+ * Primary conversion snippet, followed by one snippet per funnel step and guardrail
+ */
 export function generateTrackingSnippet(test: Test): string {
+  const conversionSnippet = test.countingMode === 'edge'
+    ? generateEdgeTrackingSnippet(test)
+    : generateGA4TrackingSnippet(test);
+
+  return [
+    conversionSnippet,
+    ...(test.funnelSteps || []).map((step, index) => generateEventSnippet(test, {
+      title: `Funnel Step ${index + 1} (${step.name})`,
+      placement: `add to the ${step.name} page`,
+      event: step.event,
+      field: 'step',
+      id: step.id,
+    })),
+    ...(test.guardrails || []).map(guardrail => generateEventSnippet(test, {
+      title: `Guardrail (${guardrail.name})`,
+      placement: `fire wherever ${guardrail.name} happens`,
+      event: guardrail.event,
+      field: 'guardrail',
+      id: guardrail.id,
+    })),
+  ].join('\n\n');
+}
+
+/**
+ * Lines reading the optional order value (revenue-tracked tests only)
+ */
+function getRevenueScript(test: Test, indent: string): string {
+  if (!test.revenue) return '';
+  return `
+${indent}// Order value: set window.edgesplitRevenue = <order total> before this snippet
+${indent}const revenue = parseFloat(window.edgesplitRevenue) || 0;
+`;
+}
+
+/**
+ * GA4 conversion event parameters. value_squared lets the dashboard compute the variance of revenue
+ */
+function getConversionEventParams(test: Test): string {
+  return test.revenue
+    ? `{ bucket: bucket, value: revenue, currency: '${test.revenue.currency}', value_squared: revenue * revenue }`
+    : '{ bucket: bucket }';
+}
+
+function generateGA4TrackingSnippet(test: Test): string {
   return `<!-- EdgeSplit Conversion Tracking for ${test.name} -->
 <script>
   function getCookie(name) {
@@ -107,11 +283,9 @@ export function generateTrackingSnippet(test: Test): string {
       console.warn('EdgeSplit: No bucket cookie found');
       return;
     }
-    
+${getRevenueScript(test, '    ')}    
     if (typeof gtag !== 'undefined') {
-      gtag('event', '${test.eventNames.conversion}', {
-        bucket: bucket
-      });
+      gtag('event', '${test.eventNames.conversion}', ${getConversionEventParams(test)});
       console.log('EdgeSplit: Conversion tracked for bucket:', bucket);
     } else {
       console.warn('EdgeSplit: gtag not available yet');
@@ -130,6 +304,103 @@ export function generateTrackingSnippet(test: Test): string {
 </script>`;
 }
 
+/**
+ * Conversion snippet for edge-counted tests: reports to the Worker and,
+ * if GA4 is on the page, to GA4 as a secondary sink
+ */
+function generateEdgeTrackingSnippet(test: Test): string {
+  return `<!-- EdgeSplit Conversion Tracking for ${test.name} (edge counting) -->
+<script>
+  (function() {
+    function getCookie(name) {
+      const value = \`; \${document.cookie}\`;
+      const parts = value.split(\`; \${name}=\`);
+      if (parts.length === 2) return parts.pop().split(';').shift();
+    }
+${getRevenueScript(test, '    ')}
+    // The Worker reads the bucket from its own cookie, so the request carries credentials.
+    // text/plain keeps this a simple request (no CORS preflight)
+    fetch('${getConversionEndpoint(test)}', {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/plain' },
+      credentials: 'include',
+      body: JSON.stringify({ testId: '${test.id}'${test.revenue ? ', value: revenue' : ''} }),
+      keepalive: true
+    }).then(function() {
+      console.log('EdgeSplit: Conversion tracked');
+    }).catch(function(error) {
+      console.warn('EdgeSplit: Failed to track conversion', error);
+    });
+
+    // Optional: mirror the conversion to GA4 when gtag is on the page
+    const bucket = getCookie('${test.id}');
+    if (bucket && typeof gtag !== 'undefined') {
+      gtag('event', '${test.eventNames.conversion}', ${getConversionEventParams(test)});
+    }
+  })();
+</script>`;
+}
+
+interface EventSnippetOptions {
+  title: string; // Shown in the HTML comment
+  placement: string; // Where the snippet goes
+  event: string; // GA4 event name
+  field: 'step' | 'guardrail'; // Payload field the Worker uses to pick the edge counter
+  id: string;
+}
+
+/**
+ * Snippet for a funnel step or guardrail event. Scoped in its own function so several can share a page
+ */
+function generateEventSnippet(test: Test, { title, placement, event, field, id }: EventSnippetOptions): string {
+  const edgeReport = test.countingMode === 'edge' ? `
+    // The Worker reads the bucket from its own cookie; text/plain avoids a CORS preflight
+    fetch('${getConversionEndpoint(test)}', {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/plain' },
+      credentials: 'include',
+      body: JSON.stringify({ testId: '${test.id}', ${field}: '${id}' }),
+      keepalive: true
+    }).catch(function(error) {
+      console.warn('EdgeSplit: Failed to track ${field} ${id}', error);
+    });
+` : '';
+
+  return `<!-- EdgeSplit ${title} for ${test.name}: ${placement} -->
+<script>
+  (function() {
+    function getCookie(name) {
+      const value = \`; \${document.cookie}\`;
+      const parts = value.split(\`; \${name}=\`);
+      if (parts.length === 2) return parts.pop().split(';').shift();
+    }
+
+${edgeReport}
+    const bucket = getCookie('${test.id}');
+    if (!bucket) {
+      console.warn('EdgeSplit: No bucket cookie found');
+      return;
+    }
+
+    function fireEvent() {
+      if (typeof gtag !== 'undefined') {
+        gtag('event', '${event}', { bucket: bucket });
+        console.log('EdgeSplit: ${field} ${id} tracked for bucket:', bucket);
+      }
+    }
+
+    // GA4 loads async - wait for it
+    if (typeof gtag !== 'undefined') {
+      fireEvent();
+    } else {
+      window.addEventListener('load', function() {
+        setTimeout(fireEvent, 100);
+      });
+    }
+  })();
+</script>`;
+}
+
 export function generateSetupInstructions(test: Test, workerUrl?: string): string {
   const optimizationNote = test.autoOptimize ? `
 
@@ -148,6 +419,8 @@ This test uses **Thompson Sampling** for adaptive traffic allocation.
 
   return `# Setup Instructions for "${test.name}"
 ${test.autoOptimize ? '\n**Optimization Mode:** Thompson Sampling (Adaptive)\n' : ''}
+> Shortcut: if your Cloudflare account ID, API token and KV namespace are configured in Settings, click **Deploy** on the dashboard to do Steps 1-3 automatically.
+
 ## Step 1: Deploy the Cloudflare Worker
 
 1. Go to Cloudflare Dashboard > Workers & Pages
@@ -161,6 +434,9 @@ ${test.autoOptimize ? '\n**Optimization Mode:** Thompson Sampling (Adaptive)\n'
 2. In your Worker settings, add KV binding:
    - Variable name: \`AB_TESTS\`
    - KV namespace: Select \`AB_TESTS\`
+3. Add your GA4 Measurement Protocol secret as an encrypted variable (secret):
+   - Variable name: \`GA4_API_SECRET\`
+   - Or run: \`wrangler secret put GA4_API_SECRET --name ${test.id}-router\`
 
 ## Step 3: Add Worker Route
 
@@ -171,13 +447,36 @@ Add a route in Cloudflare:
 ## Step 4: Add Conversion Tracking
 
 On your thank-you/confirmation page, add the tracking snippet in the <head> or before </body>
+${test.funnelSteps?.length ? `
+This test tracks a funnel. Add each step's snippet to that step's page:
+
+${test.funnelSteps.map((step, index) => `${index + 1}. ${step.name} (event \`${step.event}\`)`).join('\n')}
+` : ''}${test.revenue ? `
+This test tracks revenue. On the confirmation page, set \`window.edgesplitRevenue\` to the order total (in ${test.revenue.currency}) before the snippet runs.${test.countingMode === 'edge' ? '' : ` In GA4 Admin > Custom definitions, register an event-scoped custom metric with event parameter \`value_squared\`, otherwise the stats query fails.`}
+` : ''}${test.guardrails?.length ? `
+Guardrails are checked against control on every sync. Fire each guardrail's snippet wherever that event happens:
 
-## Step 5: View Dashboard
+${test.guardrails.map(g => `- ${g.name} (event \`${g.event}\`): harmful if it ${g.harm}s by more than ${g.tolerance}%`).join('\n')}
+${test.guardrailAutoPause ? '\nThe test is paused automatically when a guardrail is breached.\n' : ''}` : ''}
+## Step 5: Start the Test
+
+New tests are created as drafts, so the Worker sends every visitor to control until you click **Start** on the dashboard.
+${test.startAt ? `\nThis test is scheduled to start at ${new Date(test.startAt).toISOString()}. The sync cron starts it automatically, so there is nothing to click.\n` : ''}${test.endAt ? `\nIt will be concluded automatically at ${new Date(test.endAt).toISOString()}, sending everyone to the winning bucket.\n` : ''}
+## Step 6: View Dashboard
 
 Your test dashboard is available at:
 ${workerUrl || 'http://localhost:3000'}/tests/${test.id}
 ${optimizationNote}
-## Important Notes
+${test.multivariate ? `## Combinations
+
+This is a multivariate test. Each bucket is one combination of factor levels:
+
+- control: ${describeCombination(test.multivariate.factors, getBaselineCombination(test.multivariate.factors))}
+${test.variants.map(v => `- ${v.id}: ${v.combination ? describeCombination(test.multivariate!.factors, v.combination) : v.url}`).join('\n')}
+
+Make sure every combination URL renders the right levels before starting the test.
+
+` : ''}## Important Notes
 
 - Make sure GA4 is installed on all pages (control, variants, and confirmation)
 - Test the redirect by visiting: \`${(test as any).entryUrl || 'yourdomain.com' + test.entryPath}\`
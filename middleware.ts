@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+// Mirrors SESSION_COOKIE in lib/auth.ts (middleware runs on the Edge runtime,
+// so it can't import the Node-only auth module)
+const SESSION_COOKIE = 'edgesplit_session';
+// Mirrors CRON_SIGNATURE_HEADER in lib/cron.ts
+const CRON_SIGNATURE_HEADER = 'x-edgesplit-signature';
+
+const PUBLIC_PATHS = ['/login', '/api/auth/login'];
+
+/**
+ * Send signed-out visitors to the login page. This only checks that a session
+ * cookie is present; every API route validates the session and role itself
+ * through withAuth.
+ */
+export function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+
+  if (PUBLIC_PATHS.includes(pathname) || request.cookies.has(SESSION_COOKIE)) {
+    return NextResponse.next();
+  }
+
+  if (pathname.startsWith('/api/')) {
+    // Bearer tokens and signed cron requests are checked by the route (lib/cron.ts)
+    if (request.headers.has('authorization') || request.headers.has(CRON_SIGNATURE_HEADER)) {
+      return NextResponse.next();
+    }
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const loginUrl = new URL('/login', request.url);
+  loginUrl.searchParams.set('next', pathname + search);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  matcher: ['/((?!_next/static|_next/image|favicon.ico).*)'],
+};
@@ -4,12 +4,29 @@ export interface TestVariant {
   id: string;
   url: string;
   percentage: number;
+  combination?: Record<string, string>; // Multivariate tests: factor key -> level
+}
+
+export type TestType = 'ab' | 'multivariate';
+
+export interface Factor {
+  key: string; // URL parameter name or {key} placeholder (e.g. headline)
+  name: string;
+  levels: string[]; // The first level is the baseline
+}
+
+export type MultivariateUrlMode = 'params' | 'template';
+
+export interface MultivariateConfig {
+  factors: Factor[];
+  urlMode: MultivariateUrlMode;
+  baseUrl: string; // 'params': levels are added as query parameters; 'template': {key} placeholders are filled in
 }
 
 export interface GA4Config {
   measurementId: string;
   propertyId: string;
-  apiSecret?: string;
+  // The Measurement Protocol secret is never stored per test; Workers get it from their GA4_API_SECRET binding
 }
 
 export interface EventNames {
@@ -17,6 +34,152 @@ export interface EventNames {
   conversion: string;
 }
 
+export interface RevenueConfig {
+  currency: string; // ISO 4217 code sent with the GA4 event (e.g. USD)
+}
+
+export type GuardrailHarm = 'increase' | 'decrease';
+
+export interface Guardrail {
+  id: string; // Slug of the name, used in edge counter keys and the snippet payload
+  name: string; // e.g. Refund requests
+  event: string; // GA4 event name (e.g. webclass_guardrail_refund_requests)
+  harm: GuardrailHarm; // Direction that hurts: 'increase' for refunds or unsubscribes, 'decrease' for engagement
+  tolerance: number; // Relative change vs control (percent) tolerated before it counts as harm
+}
+
+export interface FunnelStep {
+  id: string; // Slug of the name, used in edge counter keys and the snippet payload
+  name: string;
+  event: string; // GA4 event name (e.g. webclass_webinar_attendance)
+}
+
+export type CountingMode = 'ga4' | 'edge';
+
+export type DeliveryMode = 'redirect' | 'proxy';
+
+export type TargetingAttribute = 'country' | 'device' | 'referrer' | 'utm_source' | 'utm_campaign' | 'visitor';
+
+export type TargetingOperator = 'is' | 'is_not';
+
+export interface TargetingRule {
+  attribute: TargetingAttribute;
+  operator: TargetingOperator;
+  values: string[]; // Matches if the visitor's value is any of these
+}
+
+export type BucketingMode = 'random' | 'deterministic';
+
+export interface BucketingConfig {
+  mode: BucketingMode;
+  salt?: string; // Mixed into the visitor hash; changing it reshuffles assignments
+  visitorIdHeader?: string; // Request header carrying a stable visitor ID (falls back to the ID cookie)
+}
+
+export interface LayerAllocation {
+  layerId: string;
+  percentage: number; // Share of the layer's visitors this test may enroll
+  start: number; // Slice of the layer's hash space [start, end), 0-100
+  end: number;
+}
+
+export interface Layer {
+  id: string;
+  name: string;
+  description?: string;
+  createdAt: number;
+}
+
+export interface LayerSummary extends Layer {
+  allocated: number; // Percentage held by draft, running and paused tests
+  remaining: number;
+  tests: { id: string; name: string; start: number; end: number }[];
+}
+
+export type UserRole = 'viewer' | 'editor' | 'admin';
+
+export interface User {
+  id: string;
+  email: string;
+  role: UserRole;
+  createdAt: number;
+}
+
+export interface StoredUser extends User {
+  passwordHash: string; // scrypt$<salt>$<hash>
+}
+
+export interface Session {
+  userId: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export type ApiKeyScope = 'tests:read' | 'tests:write' | 'sync:run' | 'settings:manage';
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  prefix: string; // First characters of the key, to tell keys apart
+  scopes: ApiKeyScope[];
+  createdBy: string; // Email of the admin who created it
+  createdAt: number;
+  lastUsedAt?: number;
+  revokedAt?: number;
+}
+
+export interface StoredApiKey extends ApiKey {
+  keyHash: string; // SHA-256 of the full key
+}
+
+export type AuditAction =
+  | 'test.create'
+  | 'test.update'
+  | 'test.delete'
+  | 'test.start'
+  | 'test.pause'
+  | 'test.conclude'
+  | 'test.archive'
+  | 'test.deploy'
+  | 'layer.create'
+  | 'layer.delete'
+  | 'settings.save'
+  | 'settings.rotate_key'
+  | 'apikey.create'
+  | 'apikey.revoke'
+  | 'user.create'
+  | 'user.update'
+  | 'user.delete'
+  | 'sync.run';
+
+export interface AuditChange {
+  path: string; // Dotted path into the object, e.g. variants.0.percentage
+  before?: unknown; // Missing when the field was added
+  after?: unknown; // Missing when the field was removed
+}
+
+export interface AuditEntry {
+  id: string;
+  timestamp: number;
+  actor: { id: string; email: string };
+  action: AuditAction;
+  route: string; // e.g. PUT /api/tests/homepage-test/update
+  testId?: string;
+  targetId?: string; // Layer, user or API key the action touched
+  changes?: AuditChange[];
+}
+
+export type ParamForwardingMode = 'all' | 'allowlist' | 'none';
+
+export interface ParamForwarding {
+  mode: ParamForwardingMode;
+  allowlist?: string[]; // Parameter names; a trailing * matches by prefix (e.g. utm_*)
+}
+
+export type AnalysisMode = 'fixed' | 'sequential';
+
+export type TestStatus = 'draft' | 'running' | 'paused' | 'concluded' | 'archived';
+
 export interface Test {
   id: string;
   name: string;
@@ -26,13 +189,42 @@ export interface Test {
   controlUrl: string;
   variants: TestVariant[];
   controlPercentage: number;
+  type?: TestType; // Default 'ab'
+  multivariate?: MultivariateConfig; // Control and variants are generated from these factors (full factorial)
   ga4: GA4Config;
   eventNames: EventNames;
+  funnelSteps?: FunnelStep[]; // Ordered events after the view (e.g. opt-in, webinar attendance, purchase)
+  revenue?: RevenueConfig; // Conversions carry an order value when set
+  guardrails?: Guardrail[]; // Evaluated against control on every sync
+  guardrailAutoPause?: boolean; // Pause the test when a guardrail is breached
+  guardrailBreachedAt?: number; // Set by the sync while any guardrail is breached
   autoOptimize?: boolean; // Enable Thompson Sampling for adaptive traffic allocation
+  analysisMode?: AnalysisMode; // 'sequential' records every sync and uses always-valid p-values
+  deliveryMode?: DeliveryMode; // 'proxy' serves the bucket's page under the entry URL instead of redirecting (default 'redirect')
+  bucketing?: BucketingConfig; // Default: random assignment
+  layer?: LayerAllocation; // Mutually exclusive with other tests in the same layer
+  targeting?: TargetingRule[]; // All rules must match for a visitor to be enrolled
+  paramForwarding?: ParamForwarding; // Query string passthrough to the bucket URL (default: forward all)
+  countingMode?: CountingMode; // 'edge' counts views/conversions in the Worker instead of GA4 (default 'ga4')
+  status?: TestStatus; // Missing on tests created before lifecycle states (treated as running)
+  statusChangedAt?: number;
+  startedAt?: number; // First time the test started running (pausing and resuming keep it)
+  concludedWinner?: string; // Bucket that receives all traffic once concluded
+  startAt?: number; // Scheduled start (ms). The sync cron starts drafts once it passes
+  endAt?: number; // Scheduled end (ms). The sync cron concludes the test once it passes
   createdAt: number;
   updatedAt?: number;
 }
 
+export interface SignificanceResult {
+  method: 'z-test' | 'fisher'; // Fisher's exact test is used when counts are too small for the z-test
+  zScore: number;
+  pValue: number;
+  confidenceLevel: number; // e.g. 0.95
+  significant: boolean;
+  liftInterval: [number, number]; // Confidence interval on relative lift vs control, in percent
+}
+
 export interface TestStats {
   testId: string;
   controlViews: number;
@@ -43,13 +235,239 @@ export interface TestStats {
       views: number;
       conversions: number;
       rate: number;
+      significance?: SignificanceResult; // Comparison against control (absent on stats cached before significance testing)
     };
   };
-  winner: string | null;
+  winner: string | null; // Only set when the difference is statistically significant
   lift: number;
+  confidenceLevel?: number;
+  holdout?: HoldoutArm; // Global holdout visitors who reached this test (not part of the comparison)
+  funnel?: FunnelCounts; // Per-step event counts (tests with funnel steps only)
+  revenue?: RevenueStats; // Tests with revenue tracking only
   lastUpdated: number;
 }
 
+export interface FactorLevelEffect {
+  level: string;
+  views: number;
+  conversions: number;
+  rate: number; // Pooled over every combination with this level
+  lift: number; // Relative to the factor's baseline level, in percent
+  pValue: number | null; // Null for the baseline level
+  significant: boolean;
+}
+
+export interface FactorMainEffect {
+  factor: string; // Factor key
+  name: string;
+  levels: FactorLevelEffect[];
+}
+
+export interface FactorInteraction {
+  factors: [string, string];
+  levels: [string, string]; // Non-baseline levels contrasted against both baselines
+  effect: number; // Difference-in-differences of conversion rates, in percentage points
+  pValue: number;
+  significant: boolean;
+}
+
+export interface MultivariateAnalysis {
+  mainEffects: FactorMainEffect[];
+  interactions: FactorInteraction[];
+}
+
+export interface HoldoutArm {
+  views: number;
+  conversions: number;
+  rate: number; // Percentage
+}
+
+export interface HoldoutReport {
+  percentage: number; // Configured global holdout
+  holdout: HoldoutArm; // Visitors held out of every test (always shown control)
+  exposed: HoldoutArm; // Everyone enrolled in a test arm, control included
+  lift: number; // Relative lift of exposed over holdout, in percent
+  pValue: number;
+  significant: boolean;
+  tests: Array<{ id: string; name: string; holdout: HoldoutArm; exposed: HoldoutArm }>;
+  generatedAt: number;
+}
+
+export interface BayesianArmResult {
+  probabilityToBeatControl: number | null; // null for control itself
+  probabilityToBeBest: number;
+  expectedLoss: number; // Expected conversion-rate shortfall vs the best arm, in percentage points
+}
+
+export interface BayesianAnalysis {
+  samples: number;
+  arms: {
+    [bucket: string]: BayesianArmResult;
+  };
+  computedAt: number;
+}
+
+export interface SRMResult {
+  testId: string;
+  chiSquare: number;
+  degreesOfFreedom: number;
+  pValue: number;
+  threshold: number;
+  mismatch: boolean;
+  totalViews: number;
+  buckets: {
+    [bucket: string]: {
+      observed: number;
+      expected: number;
+      expectedPercentage: number;
+      observedPercentage: number;
+    };
+  };
+  checkedAt: number;
+}
+
+export interface SampleSizeEstimate {
+  baselineRate: number; // Percent
+  minimumDetectableEffect: number; // Relative lift, in percent
+  alpha: number;
+  power: number;
+  requiredViews: {
+    [bucket: string]: number;
+  };
+  totalRequiredViews: number;
+  currentViews: {
+    [bucket: string]: number;
+  } | null;
+  dailyViews: number | null;
+  remainingDays: number | null;
+  estimatedCompletionAt: number | null;
+}
+
+// Raw per-bucket event counts, keyed by bucket ('control', 'variant1', ...)
+export interface BucketCounts {
+  views: Record<string, number>;
+  conversions: Record<string, number>;
+  steps?: FunnelCounts;
+  revenue?: Record<string, number>; // Sum of conversion values
+  revenueSquares?: Record<string, number>; // Sum of squared conversion values (for the variance)
+  guardrails?: Record<string, Record<string, number>>; // Guardrail ID -> bucket -> count
+}
+
+export interface GuardrailResult {
+  guardrailId: string;
+  name: string;
+  variantId: string;
+  controlRate: number; // Events per 100 views
+  variantRate: number;
+  relativeChange: number; // Variant vs control, in percent
+  harm: GuardrailHarm; // Definition the p-value was computed for; evidence restarts when it changes
+  tolerance: number;
+  pValue: number; // Always-valid (mSPRT) against the tolerance margin, the minimum over every sync so far
+  breached: boolean; // Significantly worse than control by more than the tolerance
+}
+
+export interface GuardrailReport {
+  evaluatedAt: number;
+  alpha?: number; // Per-comparison threshold after the Bonferroni correction
+  breached: boolean;
+  autoPaused?: boolean; // The sync paused the test because of this report
+  results: GuardrailResult[];
+}
+
+export interface RevenueSignificance {
+  method: 'welch-t';
+  tStatistic: number;
+  degreesOfFreedom: number;
+  pValue: number;
+  significant: boolean;
+}
+
+export interface RevenueArmStats {
+  revenue: number;
+  revenuePerVisitor: number;
+  averageOrderValue: number; // Revenue per conversion
+  lift?: number; // Revenue per visitor vs control, in percent (variants only)
+  significance?: RevenueSignificance; // Revenue per visitor vs control (variants only)
+}
+
+export interface RevenueStats {
+  currency: string;
+  control: RevenueArmStats;
+  variants: { [variantId: string]: RevenueArmStats };
+}
+
+// Funnel step event counts: step ID -> bucket -> count
+export type FunnelCounts = Record<string, Record<string, number>>;
+
+export interface FunnelStepResult {
+  id: string;
+  name: string;
+  count: number;
+  stepRate: number; // Percent of the previous step (the view for the first step)
+  overallRate: number; // Percent of views
+}
+
+export interface FunnelArm {
+  bucket: string; // 'control', 'variant1', ...
+  views: number;
+  steps: FunnelStepResult[];
+}
+
+export interface FunnelAnalysis {
+  steps: { id: string; name: string }[];
+  arms: FunnelArm[];
+}
+
+export interface DailyStats {
+  date: string; // YYYY-MM-DD
+  buckets: {
+    [bucket: string]: {
+      views: number;
+      conversions: number;
+    };
+  };
+}
+
+export interface StatsSnapshot {
+  timestamp: number;
+  views: Record<string, number>;
+  conversions: Record<string, number>;
+}
+
+export interface SequentialAnalysis {
+  alpha: number;
+  snapshotCount: number;
+  firstSnapshotAt: number | null;
+  lastSnapshotAt: number | null;
+  variants: {
+    [variantId: string]: {
+      alwaysValidPValue: number;
+      difference: number | null; // Latest rate difference vs control, in percentage points
+      confidenceSequence: [number, number] | null; // Always-valid interval on the difference, in percentage points
+      significant: boolean;
+    };
+  };
+  recommendation: {
+    action: 'stop' | 'continue';
+    winner: string | null;
+    reason: string;
+  };
+}
+
+export type DeploymentStep = 'script' | 'zone' | 'route';
+
+export interface DeploymentStatus {
+  testId: string;
+  state: 'deployed' | 'failed';
+  scriptName: string;
+  routePattern: string; // e.g. go.example.com/landing*
+  zoneId?: string;
+  routeId?: string;
+  failedStep?: DeploymentStep;
+  error?: string;
+  deployedAt: number; // When the deployment was attempted
+}
+
 export interface CreateTestRequest {
   name: string;
   entryPath: string;
@@ -57,9 +475,25 @@ export interface CreateTestRequest {
   variants: {
     url: string;
     percentage: number;
+    combination?: Record<string, string>;
   }[];
   controlPercentage: number;
+  type?: TestType;
+  multivariate?: MultivariateConfig; // Replaces controlUrl/variants (see lib/multivariate.ts)
+  funnelSteps?: { name: string }[]; // In funnel order; IDs and event names are derived server-side
+  revenue?: RevenueConfig;
+  guardrails?: { name: string; harm: GuardrailHarm; tolerance: number }[]; // IDs and event names are derived server-side
+  guardrailAutoPause?: boolean;
   autoOptimize?: boolean; // Enable Thompson Sampling
+  analysisMode?: AnalysisMode;
+  countingMode?: CountingMode;
+  deliveryMode?: DeliveryMode;
+  paramForwarding?: ParamForwarding;
+  targeting?: TargetingRule[];
+  bucketing?: BucketingConfig;
+  layer?: { layerId: string; percentage: number }; // The slice is allocated server-side
+  startAt?: number;
+  endAt?: number;
 }
 
 export interface CreateTestResponse {
@@ -3,18 +3,35 @@
  * This template can be customized per test
  */
 
+import { VISITOR_ID_COOKIE, HOLDOUT_BUCKET, bucketRoll, pickBucket, isInLayerSlice, isInHoldout } from '../lib/bucketing';
+
 // Cloudflare Worker types (this file is not actually deployed, it's a template)
 interface KVNamespace {
   get(key: string): Promise<string | null>;
   put(key: string, value: string): Promise<void>;
 }
 
+interface ExecutionContext {
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+interface HTMLRewriterElement {
+  getAttribute(name: string): string | null;
+  setAttribute(name: string, value: string): void;
+}
+
+declare class HTMLRewriter {
+  on(selector: string, handlers: { element(element: HTMLRewriterElement): void }): HTMLRewriter;
+  transform(response: Response): Response;
+}
+
 export interface WorkerEnv {
   AB_TESTS: KVNamespace;
+  GA4_API_SECRET?: string; // Secret binding; the Measurement Protocol secret is never stored in KV
 }
 
 export default {
-  async fetch(request: Request, env: WorkerEnv): Promise<Response> {
+  async fetch(request: Request, env: WorkerEnv, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
     const path = url.pathname;
 
@@ -47,15 +64,77 @@ export default {
 
       const testConfig = JSON.parse(testConfigJson);
 
+      // First-party conversion endpoint (used by the tracking snippet when counting at the edge)
+      if (path.endsWith('/__edgesplit/convert')) {
+        return handleConversion(request, env, ctx, testConfig);
+      }
+
+      // Only running tests bucket visitors (tests without a status predate lifecycle states)
+      const now = Date.now();
+      let status = testConfig.status || 'running';
+      if (status === 'draft' && testConfig.startAt && now >= testConfig.startAt) {
+        // Scheduled start has passed; the sync cron updates the stored status shortly
+        status = 'running';
+      }
+      if (status !== 'running') {
+        // Paused, draft and archived tests send everyone to control; concluded tests to the winner
+        const fixedBucket = status === 'concluded' ? (testConfig.concludedWinner || 'control') : 'control';
+        return await deliver(request, getTargetUrl(fixedBucket, testConfig, url), testConfig);
+      }
+
+      // Outside the scheduled window: send to control without assigning a bucket
+      if ((testConfig.startAt && now < testConfig.startAt) || (testConfig.endAt && now >= testConfig.endAt)) {
+        return await deliver(request, getTargetUrl('control', testConfig, url), testConfig);
+      }
+
       // Check for existing bucket in cookie
       const cookie = request.headers.get('Cookie') || '';
       const existingBucket = getBucket(cookie, testConfig.id);
 
       if (existingBucket) {
         // User already bucketed
-        const targetUrl = getTargetUrl(existingBucket, testConfig);
-        await sendGA4Event(testConfig, existingBucket, 'view');
-        return Response.redirect(targetUrl, 302);
+        const targetUrl = getTargetUrl(existingBucket, testConfig, url);
+        await recordView(env, ctx, testConfig, existingBucket);
+        return await deliver(request, targetUrl, testConfig);
+      }
+
+      // Audience targeting: visitors outside the audience go to control without a bucket and are not counted
+      if (!matchesTargeting(request, url, cookie, testConfig.targeting)) {
+        const response = await deliver(request, getTargetUrl('control', testConfig, url), testConfig);
+        response.headers.append('Set-Cookie', SEEN_COOKIE);
+        return response;
+      }
+
+      // Deterministic bucketing, layers and the global holdout need a stable visitor ID (configured header or first-party cookie)
+      const holdoutPercentage = await loadHoldoutPercentage(env);
+      const visitor = holdoutPercentage > 0 || testConfig.layer || testConfig.bucketing?.mode === 'deterministic'
+        ? getVisitorId(request, cookie, testConfig.bucketing || {})
+        : null;
+      const visitorCookie = visitor?.isNew
+        ? `${VISITOR_ID_COOKIE}=${visitor.id}; Path=/; Max-Age=31536000; HttpOnly; Secure; SameSite=Lax`
+        : null;
+
+      // Global holdout: applied after targeting so holdout and exposed visitors come from the same audience,
+      // and before any assignment. Held-out visitors see control and are counted in the holdout bucket
+      if (visitor && isInHoldout(holdoutPercentage, visitor.id)) {
+        const response = await deliver(request, getTargetUrl('control', testConfig, url), testConfig);
+        response.headers.append('Set-Cookie', `${testConfig.id}=${HOLDOUT_BUCKET}; Path=/; Max-Age=2592000; HttpOnly; Secure; SameSite=Lax`);
+        response.headers.append('Set-Cookie', SEEN_COOKIE);
+        if (visitorCookie) {
+          response.headers.append('Set-Cookie', visitorCookie);
+        }
+        await recordView(env, ctx, testConfig, HOLDOUT_BUCKET);
+        return response;
+      }
+
+      // Layers: only visitors in this test's slice are enrolled, so they never see another test in the layer
+      if (testConfig.layer && !isInLayerSlice(testConfig.layer, visitor!.id)) {
+        const response = await deliver(request, getTargetUrl('control', testConfig, url), testConfig);
+        response.headers.append('Set-Cookie', SEEN_COOKIE);
+        if (visitorCookie) {
+          response.headers.append('Set-Cookie', visitorCookie);
+        }
+        return response;
       }
 
       // New user - assign bucket
@@ -63,23 +142,27 @@ export default {
       
       if (testConfig.autoOptimize === true) {
         // Thompson Sampling: adaptive allocation based on performance
-        const stats = await loadStats(env, testConfig.id, testConfig.variants);
+        const stats = await loadStats(env, testConfig);
         const variantKeys = ['control', ...testConfig.variants.map((v: any) => v.id)];
         bucket = chooseBucketTS(stats, variantKeys);
       } else {
         // Static allocation: use configured percentages
-        bucket = assignBucket(testConfig);
+        bucket = assignBucket(testConfig, visitor?.id);
       }
       
-      const targetUrl = getTargetUrl(bucket, testConfig);
+      const targetUrl = getTargetUrl(bucket, testConfig, url);
 
       // Create response with cookie
-      const response = Response.redirect(targetUrl, 302);
+      const response = await deliver(request, targetUrl, testConfig);
       const cookieValue = `${testConfig.id}=${bucket}; Path=/; Max-Age=2592000; HttpOnly; Secure; SameSite=Lax`;
-      response.headers.set('Set-Cookie', cookieValue);
+      response.headers.append('Set-Cookie', cookieValue);
+      response.headers.append('Set-Cookie', SEEN_COOKIE);
+      if (visitorCookie) {
+        response.headers.append('Set-Cookie', visitorCookie);
+      }
 
-      // Track view event
-      await sendGA4Event(testConfig, bucket, 'view');
+      // Track view event (edge counters and/or GA4)
+      await recordView(env, ctx, testConfig, bucket);
 
       return response;
     } catch (error) {
@@ -89,26 +172,318 @@ export default {
   },
 };
 
+// Marks a visitor as returning for the 'visitor' targeting rule (see lib/targeting.ts)
+const SEEN_COOKIE_NAME = '__edgesplit_seen';
+const SEEN_COOKIE = `${SEEN_COOKIE_NAME}=1; Path=/; Max-Age=31536000; Secure; SameSite=Lax`;
+
+/**
+ * Evaluate the test's targeting rules (all must match)
+ */
+function matchesTargeting(request: Request, url: URL, cookie: string, rules?: any[]): boolean {
+  return (rules || []).every(rule => {
+    const value = getTargetingValue(request, url, cookie, rule.attribute);
+    const matches = rule.values.some((expected: string) => rule.attribute === 'referrer'
+      ? value === expected || value.endsWith('.' + expected)
+      : value === expected);
+    return rule.operator === 'is_not' ? !matches : matches;
+  });
+}
+
+/**
+ * Read a visitor attribute in the same normalized form the rule values are stored in
+ */
+function getTargetingValue(request: Request, url: URL, cookie: string, attribute: string): string {
+  switch (attribute) {
+    case 'country':
+      return ((request as any).cf?.country || '').toUpperCase();
+    case 'device':
+      return getDeviceClass(request.headers.get('User-Agent') || '');
+    case 'referrer': {
+      const referrer = request.headers.get('Referer');
+      if (!referrer) return 'direct';
+      try {
+        return new URL(referrer).hostname.toLowerCase().replace(/^www\./, '');
+      } catch {
+        return 'direct';
+      }
+    }
+    case 'utm_source':
+    case 'utm_campaign':
+      return (url.searchParams.get(attribute) || '').toLowerCase();
+    case 'visitor':
+      return cookie.includes(`${SEEN_COOKIE_NAME}=`) ? 'returning' : 'new';
+    default:
+      return '';
+  }
+}
+
+/**
+ * Classify a User-Agent as mobile, tablet or desktop
+ */
+function getDeviceClass(userAgent: string): string {
+  if (/iPad|Tablet|PlayBook|Silk|Android(?!.*Mobi)/i.test(userAgent)) return 'tablet';
+  if (/Mobi|iPhone|iPod|Android|BlackBerry|IEMobile|Opera Mini/i.test(userAgent)) return 'mobile';
+  return 'desktop';
+}
+
+/**
+ * Send the visitor to a bucket's URL: a 302 redirect, or the proxied page in 'proxy' delivery mode
+ */
+async function deliver(request: Request, targetUrl: string, testConfig: any): Promise<Response> {
+  if (testConfig.deliveryMode === 'proxy') {
+    return proxyToOrigin(request, targetUrl);
+  }
+  // Build the redirect by hand so headers (Set-Cookie) stay mutable
+  return new Response(null, { status: 302, headers: { Location: targetUrl } });
+}
+
+// Attributes whose relative URLs must point at the origin rather than the entry URL
+const PROXY_REWRITE_ATTRIBUTES: Array<[string, string]> = [
+  ['a[href]', 'href'],
+  ['link[href]', 'href'],
+  ['script[src]', 'src'],
+  ['img[src]', 'src'],
+  ['img[srcset]', 'srcset'],
+  ['source[src]', 'src'],
+  ['source[srcset]', 'srcset'],
+  ['iframe[src]', 'src'],
+  ['form[action]', 'action'],
+];
+
+/**
+ * Fetch the bucket's page from its origin and stream it back under the entry URL
+ */
+async function proxyToOrigin(request: Request, targetUrl: string): Promise<Response> {
+  const target = new URL(targetUrl);
+
+  const headers = new Headers(request.headers);
+  headers.delete('Host');
+
+  const originResponse = await fetch(target.toString(), {
+    method: request.method,
+    headers,
+    body: ['GET', 'HEAD'].includes(request.method) ? undefined : request.body,
+    redirect: 'manual',
+  });
+
+  const response = new Response(originResponse.body, originResponse);
+
+  // Relative redirects from the origin would otherwise resolve against the entry domain
+  const location = response.headers.get('Location');
+  if (location) {
+    response.headers.set('Location', new URL(location, target).toString());
+  }
+
+  const contentType = response.headers.get('Content-Type') || '';
+  if (!contentType.includes('text/html')) {
+    return response;
+  }
+
+  const rewriter = new HTMLRewriter();
+  for (const [selector, attribute] of PROXY_REWRITE_ATTRIBUTES) {
+    rewriter.on(selector, {
+      element(element) {
+        const value = element.getAttribute(attribute);
+        if (!value) return;
+
+        const rewritten = attribute === 'srcset'
+          ? value.split(',').map(candidate => {
+              const [url, ...descriptor] = candidate.trim().split(/\s+/);
+              return [absolutize(url, target), ...descriptor].join(' ');
+            }).join(', ')
+          : absolutize(value, target);
+
+        element.setAttribute(attribute, rewritten);
+      },
+    });
+  }
+  return rewriter.transform(response);
+}
+
+/**
+ * Resolve a relative URL against the origin (absolute URLs, fragments and data:/mailto: links are left alone)
+ */
+function absolutize(value: string, baseUrl: URL): string {
+  if (/^(?:[a-z][a-z0-9+.-]*:|\/\/|#)/i.test(value)) {
+    return value;
+  }
+  try {
+    return new URL(value, baseUrl).toString();
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Count a view at the edge (countingMode 'edge') and send it to GA4 when configured
+ */
+async function recordView(
+  env: WorkerEnv,
+  ctx: ExecutionContext,
+  testConfig: any,
+  bucket: string
+): Promise<void> {
+  if (testConfig.countingMode === 'edge') {
+    ctx.waitUntil(recordEdgeEvent(env, testConfig.id, `views_${bucket}`));
+  }
+  await sendGA4Event(env, testConfig, bucket, 'view');
+}
+
+/**
+ * Record one edge event under its own key. KV has no atomic increment, so
+ * the sync folds these keys into per-test totals (see rollUpEdgeEvents in lib/kv.ts).
+ */
+function recordEdgeEvent(env: WorkerEnv, testId: string, counter: string, amount = 1): Promise<void> {
+  return env.AB_TESTS.put(`edge_event:${testId}:${Date.now()}:${counter}:${amount}:${crypto.randomUUID()}`, '');
+}
+
+/**
+ * Origins allowed to report conversions: the test's entry, control and variant pages
+ */
+function getAllowedOrigins(testConfig: any, requestUrl: URL): Set<string> {
+  const origins = new Set([requestUrl.origin]);
+  for (const value of [testConfig.entryUrl, testConfig.controlUrl, ...testConfig.variants.map((v: any) => v.url)]) {
+    try {
+      origins.add(new URL(value).origin);
+    } catch {
+      // Relative or missing URL
+    }
+  }
+  return origins;
+}
+
+/**
+ * Handle POST /__edgesplit/convert from the tracking snippet
+ */
+async function handleConversion(
+  request: Request,
+  env: WorkerEnv,
+  ctx: ExecutionContext,
+  testConfig: any
+): Promise<Response> {
+  const requestUrl = new URL(request.url);
+  const origin = request.headers.get('Origin');
+
+  // Browsers always send Origin on cross-origin requests, so other sites can't report conversions
+  if (origin && !getAllowedOrigins(testConfig, requestUrl).has(origin)) {
+    return new Response(
+      JSON.stringify({ success: false, error: 'Origin not allowed' }),
+      { status: 403, headers: { 'Content-Type': 'application/json', 'Vary': 'Origin' } }
+    );
+  }
+
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': origin || requestUrl.origin,
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Credentials': 'true',
+    'Vary': 'Origin',
+  };
+
+  if (request.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+  if (request.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405, headers: corsHeaders });
+  }
+
+  let body: { testId?: string; step?: string; guardrail?: string; value?: number } = {};
+  try {
+    body = JSON.parse((await request.text()) || '{}');
+  } catch {
+    // Treat an unreadable body as a plain conversion
+  }
+
+  // Only the visitor's own bucket cookie counts; a bucket in the body is ignored
+  const bucket = getBucket(request.headers.get('Cookie') || '', testConfig.id);
+  const validBuckets = ['control', ...testConfig.variants.map((v: any) => v.id), HOLDOUT_BUCKET];
+  const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+
+  if ((body.testId && body.testId !== testConfig.id) || !bucket || !validBuckets.includes(bucket)) {
+    return new Response(
+      JSON.stringify({ success: false, error: 'Unknown test or bucket' }),
+      { status: 400, headers: jsonHeaders }
+    );
+  }
+
+  // Funnel step and guardrail snippets send their ID; everything else is the primary conversion
+  if (body.step && !(testConfig.funnelSteps || []).some((step: any) => step.id === body.step)) {
+    return new Response(
+      JSON.stringify({ success: false, error: 'Unknown funnel step' }),
+      { status: 400, headers: jsonHeaders }
+    );
+  }
+  if (body.guardrail && !(testConfig.guardrails || []).some((guardrail: any) => guardrail.id === body.guardrail)) {
+    return new Response(
+      JSON.stringify({ success: false, error: 'Unknown guardrail' }),
+      { status: 400, headers: jsonHeaders }
+    );
+  }
+
+  if (testConfig.countingMode === 'edge') {
+    const counter = body.step
+      ? `steps_${body.step}`
+      : body.guardrail ? `guardrails_${body.guardrail}` : 'conversions';
+    ctx.waitUntil(recordEdgeEvent(env, testConfig.id, `${counter}_${bucket}`));
+
+    // Order value for revenue-tracked tests (sum and sum of squares give mean and variance)
+    const value = Number(body.value);
+    if (testConfig.revenue && !body.step && !body.guardrail && Number.isFinite(value) && value > 0) {
+      ctx.waitUntil(recordEdgeEvent(env, testConfig.id, `revenue_${bucket}`, value));
+      ctx.waitUntil(recordEdgeEvent(env, testConfig.id, `revenue_squares_${bucket}`, value * value));
+    }
+  }
+
+  return new Response(JSON.stringify({ success: true }), { status: 200, headers: jsonHeaders });
+}
+
 /**
  * Assign a bucket based on test configuration percentages (static allocation)
+ * Deterministic mode hashes the visitor ID so the same visitor always gets the same arm.
  */
-function assignBucket(testConfig: any): string {
-  const roll = Math.random() * 100;
-  
-  if (roll < testConfig.controlPercentage) {
-    return 'control';
+function assignBucket(testConfig: any, visitorId?: string): string {
+  const roll = visitorId && testConfig.bucketing?.mode === 'deterministic'
+    ? bucketRoll(testConfig.id, testConfig.bucketing.salt || '', visitorId)
+    : Math.random() * 100;
+
+  return pickBucket(roll, testConfig.controlPercentage, testConfig.variants);
+}
+
+/**
+ * Global holdout percentage (a non-secret copy of AppConfig.holdoutPercentage, written when Settings are saved)
+ */
+async function loadHoldoutPercentage(env: WorkerEnv): Promise<number> {
+  const holdoutJson = await env.AB_TESTS.get('holdout_config');
+  if (!holdoutJson) return 0;
+
+  try {
+    return JSON.parse(holdoutJson).percentage || 0;
+  } catch {
+    return 0;
   }
+}
 
-  let cumulativePercentage = testConfig.controlPercentage;
-  
-  for (const variant of testConfig.variants) {
-    cumulativePercentage += variant.percentage;
-    if (roll < cumulativePercentage) {
-      return variant.id;
+/**
+ * Stable visitor ID: the configured header if present, else the first-party ID cookie (created if missing)
+ */
+function getVisitorId(
+  request: Request,
+  cookie: string,
+  bucketing: { visitorIdHeader?: string }
+): { id: string; isNew: boolean } {
+  if (bucketing.visitorIdHeader) {
+    const headerId = request.headers.get(bucketing.visitorIdHeader);
+    if (headerId) {
+      return { id: headerId, isNew: false };
     }
   }
 
-  return 'control'; // Fallback
+  const match = cookie.match(new RegExp(`(?:^|;\\s*)${VISITOR_ID_COOKIE}=([^;]+)`));
+  if (match) {
+    return { id: match[1], isNew: false };
+  }
+
+  return { id: crypto.randomUUID(), isNew: true };
 }
 
 /**
@@ -163,12 +538,15 @@ function betaSample(alpha: number, beta: number): number {
 
 /**
  * Load performance stats from KV for Thompson Sampling
+ * Edge counters are live; GA4-backed counters are refreshed by the sync cron.
  */
-async function loadStats(env: WorkerEnv, testId: string, variants: any[]): Promise<any> {
+async function loadStats(env: WorkerEnv, testConfig: any): Promise<any> {
   const stats: any = {
     views: { control: 0 },
     conversions: { control: 0 }
   };
+  // Counters the sync cron writes, from GA4 or from folded edge events
+  const testId = testConfig.id;
 
   // Load control stats
   const controlViews = await env.AB_TESTS.get(`test:${testId}:views_control`);
@@ -178,7 +556,7 @@ async function loadStats(env: WorkerEnv, testId: string, variants: any[]): Promi
   stats.conversions.control = controlConversions ? parseInt(controlConversions, 10) : 0;
 
   // Load variant stats
-  for (const variant of variants) {
+  for (const variant of testConfig.variants) {
     const variantViews = await env.AB_TESTS.get(`test:${testId}:views_${variant.id}`);
     const variantConversions = await env.AB_TESTS.get(`test:${testId}:conversions_${variant.id}`);
     
@@ -217,15 +595,56 @@ function chooseBucketTS(stats: any, variantKeys: string[]): string {
 }
 
 /**
- * Get the target URL for a bucket
+ * Get the target URL for a bucket, carrying over the entry URL's query string
  */
-function getTargetUrl(bucket: string, testConfig: any): string {
-  if (bucket === 'control') {
-    return testConfig.controlUrl;
+function getTargetUrl(bucket: string, testConfig: any, requestUrl?: URL): string {
+  let destination = testConfig.controlUrl;
+
+  if (bucket !== 'control') {
+    const variant = testConfig.variants.find((v: any) => v.id === bucket);
+    destination = variant ? variant.url : testConfig.controlUrl;
   }
 
-  const variant = testConfig.variants.find((v: any) => v.id === bucket);
-  return variant ? variant.url : testConfig.controlUrl;
+  return requestUrl ? forwardParams(destination, requestUrl, testConfig.paramForwarding) : destination;
+}
+
+/**
+ * Merge the visitor's query parameters into the destination URL (see lib/params.ts)
+ */
+function forwardParams(
+  destination: string,
+  requestUrl: URL,
+  paramForwarding?: { mode: 'all' | 'allowlist' | 'none'; allowlist?: string[] }
+): string {
+  // Tests saved before forwarding was configurable forward everything
+  const mode = paramForwarding?.mode || 'all';
+  if (mode === 'none') {
+    return destination;
+  }
+
+  const allowlist = paramForwarding?.allowlist || [];
+  const target = new URL(destination);
+  const existing = new Set(target.searchParams.keys());
+
+  requestUrl.searchParams.forEach((value, key) => {
+    // Debug parameter only makes sense on the entry URL
+    if (key === '__edgesplit_force') return;
+    // Parameters already on the destination URL win
+    if (existing.has(key)) return;
+    if (mode === 'allowlist' && !isAllowedParam(key, allowlist)) return;
+    target.searchParams.append(key, value);
+  });
+
+  return target.toString();
+}
+
+/**
+ * Allowlist entries ending in * match by prefix
+ */
+function isAllowedParam(key: string, allowlist: string[]): boolean {
+  return allowlist.some(entry => entry.endsWith('*')
+    ? key.startsWith(entry.slice(0, -1))
+    : key === entry);
 }
 
 /**
@@ -241,6 +660,7 @@ function getBucket(cookie: string, testId: string): string | null {
  * Send event to GA4 Measurement Protocol
  */
 async function sendGA4Event(
+  env: WorkerEnv,
   testConfig: any,
   bucket: string,
   eventType: 'view' | 'conversion'
@@ -250,7 +670,7 @@ async function sendGA4Event(
     : testConfig.eventNames.conversion;
 
   const measurementId = testConfig.ga4.measurementId;
-  const apiSecret = testConfig.ga4.apiSecret;
+  const apiSecret = env.GA4_API_SECRET;
 
   if (!apiSecret) {
     console.log('GA4 API secret not configured');